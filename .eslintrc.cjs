@@ -10,4 +10,9 @@ module.exports = {
   globals: {
     shopify: "readonly"
   },
+  settings: {
+    // Tests run on Vitest, whose API the Jest rules cover; there is no Jest
+    // package for them to read the version from
+    jest: { version: 29 },
+  },
 };
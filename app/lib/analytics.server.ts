@@ -0,0 +1,73 @@
+import type { EventType, Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+
+// Records an analytics event for the shop's app. Shops without an app have
+// nothing to attribute events to, so nothing is recorded for them.
+export async function recordAnalyticsEvent(
+  shop: string,
+  event: {
+    eventType: EventType;
+    eventName: string;
+    sessionId: string;
+    userId?: string | null;
+    properties?: Record<string, unknown>;
+    timestamp?: Date;
+  }
+) {
+  const mobileApp = await prisma.mobileApp.findUnique({
+    where: { shop: shop },
+    select: { id: true }
+  });
+
+  if (!mobileApp) {
+    return null;
+  }
+
+  return prisma.analyticsEvent.create({
+    data: {
+      appId: mobileApp.id,
+      eventType: event.eventType,
+      eventName: event.eventName,
+      sessionId: event.sessionId,
+      userId: event.userId ?? null,
+      properties: event.properties as Prisma.InputJsonValue | undefined,
+      timestamp: event.timestamp
+    }
+  });
+}
+
+// Records one PURCHASE event per paid order. Orders have no app session, so
+// the order id stands in for it and keeps repeated order webhooks from counting twice.
+export async function recordPurchase(shop: string, order: any) {
+  const sessionId = `order:${order.admin_graphql_api_id || order.id}`;
+  const existing = await prisma.analyticsEvent.findFirst({
+    where: { app: { shop: shop }, eventType: 'PURCHASE', sessionId },
+    select: { id: true }
+  });
+
+  if (existing) {
+    return null;
+  }
+
+  // Only ids and amounts are kept; names, emails and addresses stay in Shopify
+  return recordAnalyticsEvent(shop, {
+    eventType: 'PURCHASE',
+    eventName: "order_paid",
+    sessionId,
+    userId: order.customer?.admin_graphql_api_id ?? null,
+    timestamp: order.processed_at ? new Date(order.processed_at) : undefined,
+    properties: {
+      orderId: order.admin_graphql_api_id,
+      orderNumber: order.order_number,
+      totalPrice: order.total_price,
+      currency: order.currency,
+      sourceName: order.source_name,
+      lineItems: (order.line_items || []).map((item: any) => ({
+        productId: item.product_id ? `gid://shopify/Product/${item.product_id}` : null,
+        variantId: item.variant_id ? `gid://shopify/ProductVariant/${item.variant_id}` : null,
+        quantity: item.quantity,
+        price: item.price
+      }))
+    }
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+  addComponentCommand,
+  historyReducer,
+  moveComponentCommand,
+  removeComponentCommand,
+  updatePropsCommand,
+  type CanvasCommand,
+  type HistoryState
+} from "./canvas-history";
+
+interface Item {
+  id: string;
+  props: Record<string, any>;
+}
+
+const empty = (): HistoryState<Item> => ({ past: [], future: [], restoreCount: 0 });
+
+const at = (command: CanvasCommand<Item>, timestamp: number) => ({ ...command, timestamp });
+
+// Runs commands through the reducer and applies them to the items, as the hook does
+function run(commands: CanvasCommand<Item>[], items: Item[] = []) {
+  let state = empty();
+  for (const command of commands) {
+    state = historyReducer(state, { type: "execute", command });
+    items = command.apply(items);
+  }
+  return { state, items };
+}
+
+function undo(state: HistoryState<Item>, items: Item[]) {
+  const command = state.past[state.past.length - 1];
+  return { state: historyReducer(state, { type: "undo" }), items: command ? command.revert(items) : items };
+}
+
+function redo(state: HistoryState<Item>, items: Item[]) {
+  const command = state.future[state.future.length - 1];
+  return { state: historyReducer(state, { type: "redo" }), items: command ? command.apply(items) : items };
+}
+
+const header: Item = { id: "a", props: { title: "" } };
+
+describe("historyReducer", () => {
+  it("merges edits of one component within the merge window into one undo step", () => {
+    const { state, items } = run([
+      at(addComponentCommand(header), 0),
+      at(updatePropsCommand("a", { title: "" }, { title: "H" }), 1000),
+      at(updatePropsCommand("a", { title: "H" }, { title: "Hi" }), 1500),
+      at(updatePropsCommand("a", { title: "Hi" }, { title: "Hi!" }), 2400)
+    ]);
+
+    expect(state.past).toHaveLength(2);
+    expect(items[0].props.title).toBe("Hi!");
+
+    const undone = undo(state, items);
+    expect(undone.items).toEqual([header]);
+    expect(undone.state.past).toHaveLength(1);
+  });
+
+  it("starts a new undo step once the merge window has passed", () => {
+    const { state, items } = run([
+      at(addComponentCommand(header), 0),
+      at(updatePropsCommand("a", { title: "" }, { title: "H" }), 1000),
+      at(updatePropsCommand("a", { title: "H" }, { title: "Hi" }), 2000)
+    ]);
+
+    expect(state.past).toHaveLength(3);
+    expect(undo(state, items).items[0].props.title).toBe("H");
+  });
+
+  it("does not merge edits of different components", () => {
+    const other: Item = { id: "b", props: { title: "" } };
+    const { state } = run([
+      at(addComponentCommand(header), 0),
+      at(addComponentCommand(other), 0),
+      at(updatePropsCommand("a", { title: "" }, { title: "A" }), 1000),
+      at(updatePropsCommand("b", { title: "" }, { title: "B" }), 1100)
+    ]);
+
+    expect(state.past).toHaveLength(4);
+  });
+
+  it("redoes what was undone and drops redo after a new command", () => {
+    const other: Item = { id: "b", props: {} };
+    const started = run([at(addComponentCommand(header), 0), at(addComponentCommand(other), 10)]);
+
+    const undone = undo(started.state, started.items);
+    expect(undone.items).toEqual([header]);
+    expect(undone.state.restoreCount).toBe(1);
+
+    const redone = redo(undone.state, undone.items);
+    expect(redone.items).toEqual([header, other]);
+    expect(redone.state.restoreCount).toBe(2);
+
+    const again = undo(redone.state, redone.items);
+    const moved = historyReducer(again.state, { type: "execute", command: at(moveComponentCommand<Item>(0, 0), 20) });
+    expect(moved.future).toHaveLength(0);
+  });
+
+  it("puts a removed component back where it was", () => {
+    const items: Item[] = [{ id: "a", props: {} }, { id: "b", props: {} }, { id: "c", props: {} }];
+    const command = removeComponentCommand(items, "b")!;
+    const { state, items: after } = run([command], items);
+
+    expect(after.map(item => item.id)).toEqual(["a", "c"]);
+    expect(undo(state, after).items.map(item => item.id)).toEqual(["a", "b", "c"]);
+  });
+
+  it("ignores undo and redo with nothing to restore", () => {
+    const state = empty();
+    expect(historyReducer(state, { type: "undo" })).toBe(state);
+    expect(historyReducer(state, { type: "redo" })).toBe(state);
+  });
+
+  it("forgets both stacks on reset", () => {
+    const { state } = run([at(addComponentCommand(header), 0)]);
+    const reset = historyReducer(historyReducer(state, { type: "undo" }), { type: "reset" });
+    expect(reset.past).toHaveLength(0);
+    expect(reset.future).toHaveLength(0);
+  });
+});
@@ -0,0 +1,196 @@
+import { useCallback, useMemo, useReducer } from "react";
+import type { Dispatch, SetStateAction } from "react";
+
+interface CanvasItem {
+  id: string;
+  props: Record<string, any>;
+}
+
+// The page open on the canvas together with its last saved state, so undoing
+// a bulk load also brings back the page that was open before it
+export interface CanvasPage {
+  pageId: string | null;
+  savedSnapshot: string;
+}
+
+export interface CanvasCommand<T extends CanvasItem> {
+  label: string;
+  apply: (items: T[]) => T[];
+  revert: (items: T[]) => T[];
+  page?: { before: CanvasPage; after: CanvasPage };
+  // Consecutive commands with the same key (e.g. typing into one field) collapse into one undo step
+  mergeKey?: string;
+  timestamp: number;
+}
+
+// Commands within this window of each other with the same merge key are merged
+const MERGE_WINDOW_MS = 1000;
+
+function moveItem<T>(items: T[], from: number, to: number): T[] {
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+}
+
+function setProps<T extends CanvasItem>(items: T[], id: string, props: Record<string, any>): T[] {
+  return items.map(item => item.id === id ? { ...item, props } : item);
+}
+
+export function addComponentCommand<T extends CanvasItem>(item: T, label = "Add component"): CanvasCommand<T> {
+  return {
+    label,
+    apply: items => [...items, item],
+    revert: items => items.filter(i => i.id !== item.id),
+    timestamp: Date.now()
+  };
+}
+
+export function removeComponentCommand<T extends CanvasItem>(items: T[], id: string): CanvasCommand<T> | null {
+  const index = items.findIndex(i => i.id === id);
+  if (index === -1) {
+    return null;
+  }
+
+  const item = items[index];
+  return {
+    label: "Delete component",
+    apply: current => current.filter(i => i.id !== id),
+    revert: current => [...current.slice(0, index), item, ...current.slice(index)],
+    timestamp: Date.now()
+  };
+}
+
+export function moveComponentCommand<T extends CanvasItem>(from: number, to: number): CanvasCommand<T> {
+  return {
+    label: "Move component",
+    apply: items => moveItem(items, from, to),
+    revert: items => moveItem(items, to, from),
+    timestamp: Date.now()
+  };
+}
+
+export function updatePropsCommand<T extends CanvasItem>(id: string, before: Record<string, any>, after: Record<string, any>): CanvasCommand<T> {
+  return {
+    label: "Edit properties",
+    apply: items => setProps(items, id, after),
+    revert: items => setProps(items, id, before),
+    mergeKey: `props:${id}`,
+    timestamp: Date.now()
+  };
+}
+
+// Bulk replacement of the whole canvas: clearing it, loading or creating a page
+export function replaceComponentsCommand<T extends CanvasItem>(
+  label: string,
+  before: T[],
+  after: T[],
+  page?: { before: CanvasPage; after: CanvasPage }
+): CanvasCommand<T> {
+  return {
+    label,
+    apply: () => after,
+    revert: () => before,
+    page,
+    timestamp: Date.now()
+  };
+}
+
+export interface HistoryState<T extends CanvasItem> {
+  past: CanvasCommand<T>[];
+  future: CanvasCommand<T>[];
+  // Bumped on undo/redo only, so editors can drop local input state that is now stale
+  restoreCount: number;
+}
+
+export type HistoryAction<T extends CanvasItem> =
+  | { type: "execute"; command: CanvasCommand<T> }
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "reset" };
+
+export function historyReducer<T extends CanvasItem>(state: HistoryState<T>, action: HistoryAction<T>): HistoryState<T> {
+  switch (action.type) {
+    case "execute": {
+      const { command } = action;
+      const last = state.past[state.past.length - 1];
+      const merges = command.mergeKey && last?.mergeKey === command.mergeKey && command.timestamp - last.timestamp < MERGE_WINDOW_MS;
+      return {
+        ...state,
+        past: merges ? [...state.past.slice(0, -1), { ...command, revert: last.revert }] : [...state.past, command],
+        future: []
+      };
+    }
+    case "undo":
+      if (state.past.length === 0) return state;
+      return {
+        past: state.past.slice(0, -1),
+        future: [...state.future, state.past[state.past.length - 1]],
+        restoreCount: state.restoreCount + 1
+      };
+    case "redo":
+      if (state.future.length === 0) return state;
+      return {
+        past: [...state.past, state.future[state.future.length - 1]],
+        future: state.future.slice(0, -1),
+        restoreCount: state.restoreCount + 1
+      };
+    case "reset":
+      return { ...state, past: [], future: [] };
+  }
+}
+
+// Undo/redo stacks for the builder canvas. History lives in memory only, so
+// it lasts for the browser session and is gone after a reload.
+export function useCanvasHistory<T extends CanvasItem>(
+  setItems: Dispatch<SetStateAction<T[]>>,
+  onPageChange: (page: CanvasPage) => void
+) {
+  const [{ past, future, restoreCount }, dispatch] = useReducer(historyReducer<T>, { past: [], future: [], restoreCount: 0 });
+
+  const execute = useCallback((command: CanvasCommand<T>) => {
+    dispatch({ type: "execute", command });
+    setItems(items => command.apply(items));
+    if (command.page) {
+      onPageChange(command.page.after);
+    }
+  }, [setItems, onPageChange]);
+
+  const undo = useCallback(() => {
+    const command = past[past.length - 1];
+    if (!command) return;
+    dispatch({ type: "undo" });
+
+    setItems(items => command.revert(items));
+    if (command.page) {
+      onPageChange(command.page.before);
+    }
+  }, [past, setItems, onPageChange]);
+
+  const redo = useCallback(() => {
+    const command = future[future.length - 1];
+    if (!command) return;
+    dispatch({ type: "redo" });
+
+    setItems(items => command.apply(items));
+    if (command.page) {
+      onPageChange(command.page.after);
+    }
+  }, [future, setItems, onPageChange]);
+
+  // Forget everything, e.g. when the page the history refers to no longer exists
+  const reset = useCallback(() => dispatch({ type: "reset" }), []);
+
+  // Memoized so effects and callbacks can depend on the history object as a whole
+  return useMemo(() => ({
+    execute,
+    undo,
+    redo,
+    reset,
+    restoreCount,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+    undoLabel: past[past.length - 1]?.label,
+    redoLabel: future[future.length - 1]?.label
+  }), [execute, undo, redo, reset, restoreCount, past, future]);
+}
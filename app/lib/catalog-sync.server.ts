@@ -0,0 +1,315 @@
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { setShopifyData, type CatalogCollectionData, type CatalogProductData } from "./shopify-cache.server";
+import { logger } from "./logger.server";
+
+// The Admin API refuses a query whose requested cost is over 1,000 points, and
+// nested connections multiply: a connection costs 2 plus what it asks for.
+// A product with 20 images and 20 variants (each with its inventory item)
+// costs about 65 points, so a page of 12 stays near 800. Products with more
+// variants have the rest read on their own, 100 variants (about 200 points)
+// at a time.
+const PRODUCTS_PAGE_SIZE = 12;
+const PRODUCT_VARIANTS = 20;
+const PRODUCT_VARIANTS_PAGE_SIZE = 100;
+// Collections come with the ids of their first 20 products, which covers most
+// of them at about 25 points a collection, so a page of 25 stays near 630.
+// Longer collections are read again on their own, a page of ids at a time.
+const COLLECTIONS_PAGE_SIZE = 25;
+const COLLECTION_PRODUCT_IDS = 20;
+const COLLECTION_PRODUCT_IDS_PAGE_SIZE = 250;
+
+const VARIANT_FIELDS = `
+  id
+  title
+  price
+  compareAtPrice
+  availableForSale
+  selectedOptions {
+    name
+    value
+  }
+  inventoryItem {
+    id
+  }
+`;
+
+const GET_PRODUCTS_PAGE_QUERY = `
+  query CatalogProducts($first: Int!, $after: String, $variantsFirst: Int!) {
+    shop {
+      currencyCode
+    }
+    products(first: $first, after: $after, sortKey: TITLE) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        title
+        handle
+        description
+        vendor
+        productType
+        tags
+        options {
+          name
+          values
+        }
+        images(first: 20) {
+          nodes {
+            url
+            altText
+          }
+        }
+        variants(first: $variantsFirst) {
+          pageInfo {
+            hasNextPage
+          }
+          nodes {
+            ${VARIANT_FIELDS}
+          }
+        }
+      }
+    }
+  }
+`;
+
+const GET_PRODUCT_VARIANTS_QUERY = `
+  query ProductVariants($id: ID!, $first: Int!, $after: String) {
+    product(id: $id) {
+      variants(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          ${VARIANT_FIELDS}
+        }
+      }
+    }
+  }
+`;
+
+const GET_COLLECTIONS_PAGE_QUERY = `
+  query CatalogCollections($first: Int!, $after: String, $productsFirst: Int!) {
+    collections(first: $first, after: $after, sortKey: TITLE) {
+      pageInfo {
+        hasNextPage
+        endCursor
+      }
+      nodes {
+        id
+        title
+        handle
+        description
+        image {
+          url
+          altText
+        }
+        productsCount {
+          count
+        }
+        products(first: $productsFirst) {
+          pageInfo {
+            hasNextPage
+          }
+          nodes {
+            id
+          }
+        }
+      }
+    }
+  }
+`;
+
+const GET_COLLECTION_PRODUCT_IDS_QUERY = `
+  query CollectionProductIds($id: ID!, $first: Int!, $after: String) {
+    collection(id: $id) {
+      products(first: $first, after: $after) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+        }
+      }
+    }
+  }
+`;
+
+type Admin = Pick<AdminApiContext, "graphql">;
+
+// Follows the cursor of a connection until the last page, collecting every node
+async function fetchAllPages(
+  admin: Admin,
+  query: string,
+  pageSize: number,
+  variables: Record<string, unknown>,
+  connection: (data: any) => { pageInfo: { hasNextPage: boolean; endCursor: string | null }; nodes: any[] },
+  onPage?: (data: any) => void
+) {
+  const nodes: any[] = [];
+  let after: string | null = null;
+
+  do {
+    const response = await admin.graphql(query, { variables: { ...variables, first: pageSize, after } });
+    const body: any = await response.json();
+    if (body.errors) {
+      throw new Error(`Catalog query failed: ${JSON.stringify(body.errors)}`);
+    }
+
+    const page = connection(body.data);
+    onPage?.(body.data);
+    nodes.push(...page.nodes);
+    after = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (after);
+
+  return nodes;
+}
+
+function toCatalogProduct(node: any, variantNodes: any[], currencyCode: string): CatalogProductData {
+  return {
+    id: node.id,
+    title: node.title,
+    handle: node.handle,
+    description: node.description || "",
+    images: node.images.nodes.map((image: any) => ({
+      url: image.url,
+      altText: image.altText || node.title
+    })),
+    options: node.options.map((option: any) => ({ name: option.name, values: option.values })),
+    variants: variantNodes.map((variant: any) => ({
+      id: variant.id,
+      title: variant.title,
+      price: { amount: variant.price, currencyCode },
+      compareAtPrice: variant.compareAtPrice ? { amount: variant.compareAtPrice, currencyCode } : null,
+      availableForSale: variant.availableForSale,
+      selectedOptions: variant.selectedOptions,
+      inventoryItemId: variant.inventoryItem?.id ?? null
+    })),
+    vendor: node.vendor || "",
+    productType: node.productType || "",
+    tags: node.tags || []
+  };
+}
+
+function toCatalogCollection(node: any, productIds: string[]): CatalogCollectionData {
+  return {
+    id: node.id,
+    title: node.title,
+    handle: node.handle,
+    description: node.description || "",
+    image: node.image,
+    productsCount: node.productsCount?.count ?? 0,
+    // Every product of the collection, in its own sort order
+    productIds
+  };
+}
+
+// Reads the shop's whole catalog page by page and replaces the stored snapshot with it
+async function readCatalog(shop: string, admin: Admin) {
+  const startedAt = new Date();
+  let currencyCode = "USD";
+
+  const productNodes = await fetchAllPages(
+    admin,
+    GET_PRODUCTS_PAGE_QUERY,
+    PRODUCTS_PAGE_SIZE,
+    { variantsFirst: PRODUCT_VARIANTS },
+    data => data.products,
+    data => { currencyCode = data.shop?.currencyCode || currencyCode; }
+  );
+  const collectionNodes = await fetchAllPages(
+    admin,
+    GET_COLLECTIONS_PAGE_QUERY,
+    COLLECTIONS_PAGE_SIZE,
+    { productsFirst: COLLECTION_PRODUCT_IDS },
+    data => data.collections
+  );
+
+  const products = [];
+  for (const node of productNodes) {
+    let variantNodes = node.variants.nodes;
+    if (node.variants.pageInfo.hasNextPage) {
+      // A product deleted since the first query is left with the variants it had
+      variantNodes = await fetchAllPages(
+        admin,
+        GET_PRODUCT_VARIANTS_QUERY,
+        PRODUCT_VARIANTS_PAGE_SIZE,
+        { id: node.id },
+        data => data.product?.variants ?? { pageInfo: { hasNextPage: false, endCursor: null }, nodes: variantNodes }
+      );
+    }
+    products.push(toCatalogProduct(node, variantNodes, currencyCode));
+  }
+
+  const collections = [];
+  for (const node of collectionNodes) {
+    let productNodesOfCollection = node.products.nodes;
+    if (node.products.pageInfo.hasNextPage) {
+      // A collection deleted since the first query is left with the ids it had
+      productNodesOfCollection = await fetchAllPages(
+        admin,
+        GET_COLLECTION_PRODUCT_IDS_QUERY,
+        COLLECTION_PRODUCT_IDS_PAGE_SIZE,
+        { id: node.id },
+        data => data.collection?.products ?? { pageInfo: { hasNextPage: false, endCursor: null }, nodes: productNodesOfCollection }
+      );
+    }
+    collections.push(toCatalogCollection(node, productNodesOfCollection.map((product: any) => product.id)));
+  }
+
+  await setShopifyData(shop, products, collections, startedAt);
+
+  return { products, collections };
+}
+
+type CatalogSync = Promise<Awaited<ReturnType<typeof readCatalog>>>;
+
+declare global {
+  var __catalogSyncs__: Map<string, CatalogSync> | undefined;
+}
+
+// Syncs in progress per shop, kept on the global so development reloads share them
+const runningSyncs = (global.__catalogSyncs__ ??= new Map<string, CatalogSync>());
+// When a shop's last background sync failed, so requests don't retry it one after another
+const failedSyncs = new Map<string, number>();
+const SYNC_RETRY_MS = 5 * 60 * 1000;
+
+// A shop is read by one sync at a time; later callers wait for the running one
+function runSync(shop: string, getAdmin: () => Promise<Admin>): CatalogSync {
+  const running = runningSyncs.get(shop);
+  if (running) {
+    return running;
+  }
+
+  const sync = getAdmin()
+    .then(admin => readCatalog(shop, admin))
+    .finally(() => runningSyncs.delete(shop));
+  runningSyncs.set(shop, sync);
+  return sync;
+}
+
+export function syncCatalog(shop: string, admin: Admin) {
+  return runSync(shop, async () => admin);
+}
+
+// Starts a sync without waiting for it, for requests that serve whatever
+// snapshot there is meanwhile. Returns whether a sync is running now.
+export function startCatalogSync(shop: string, getAdmin: () => Promise<Admin>) {
+  if (!runningSyncs.has(shop) && Date.now() - (failedSyncs.get(shop) ?? 0) < SYNC_RETRY_MS) {
+    return false;
+  }
+
+  runSync(shop, getAdmin).then(
+    () => failedSyncs.delete(shop),
+    error => {
+      failedSyncs.set(shop, Date.now());
+      logger.error("Background catalog sync failed", { shop, error });
+    }
+  );
+  return true;
+}
+
+export const isCatalogSyncing = (shop: string) => runningSyncs.has(shop);
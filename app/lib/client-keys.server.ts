@@ -0,0 +1,164 @@
+import { randomBytes, timingSafeEqual } from "node:crypto";
+import { json } from "@remix-run/node";
+import type { MobileApp } from "@prisma/client";
+import { prisma } from "../db.server";
+
+// How long a rotated-out key keeps working, so installed apps can be updated
+export const PREVIOUS_KEY_GRACE_MS = 24 * 60 * 60 * 1000;
+
+const CLIENT_KEY_HEADER = "X-Client-Key";
+const PREVIEW_KEY_HEADER = "X-Preview-Key";
+
+// Public keys identify an app, they are not secrets: they ship inside the
+// mobile app. They stop anyone who only knows a shop domain from reading its config.
+export function generateClientKey() {
+  return `mab_pk_${randomBytes(24).toString("base64url")}`;
+}
+
+// Preview keys are secrets: only preview builds carry them, never store builds
+export function generatePreviewKey() {
+  return `mab_preview_${randomBytes(24).toString("base64url")}`;
+}
+
+export function getAllowedOrigins(mobileApp: Pick<MobileApp, "allowedOrigins">): string[] {
+  return Array.isArray(mobileApp.allowedOrigins)
+    ? mobileApp.allowedOrigins.filter((origin): origin is string => typeof origin === "string")
+    : [];
+}
+
+// Origins are compared as the browser sends them: scheme, host and port, no path
+export function normalizeOrigin(value: string): string | null {
+  try {
+    const url = new URL(value.trim());
+    return url.protocol === "http:" || url.protocol === "https:" ? url.origin : null;
+  } catch {
+    return null;
+  }
+}
+
+// The app's keys, creating them for apps made before keys existed
+export async function ensureClientKey(mobileApp: MobileApp) {
+  if (mobileApp.clientKey && mobileApp.previewKey) {
+    return mobileApp;
+  }
+  return prisma.mobileApp.update({
+    where: { id: mobileApp.id },
+    data: {
+      clientKey: mobileApp.clientKey || generateClientKey(),
+      previewKey: mobileApp.previewKey || generatePreviewKey()
+    }
+  });
+}
+
+// Replaces the app's key. The old one is accepted for PREVIOUS_KEY_GRACE_MS more.
+// The preview key is replaced at once: the builder makes preview builds again on every save.
+export async function rotateClientKey(shop: string) {
+  const mobileApp = await prisma.mobileApp.findUnique({ where: { shop: shop } });
+  if (!mobileApp) {
+    return null;
+  }
+
+  return prisma.mobileApp.update({
+    where: { id: mobileApp.id },
+    data: {
+      clientKey: generateClientKey(),
+      previewKey: generatePreviewKey(),
+      previousClientKey: mobileApp.clientKey,
+      clientKeyRotatedAt: new Date()
+    }
+  });
+}
+
+export async function setAllowedOrigins(shop: string, origins: string[]) {
+  return prisma.mobileApp.update({
+    where: { shop: shop },
+    data: { allowedOrigins: origins }
+  });
+}
+
+const sameKey = (a: string, b: string) => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+};
+
+function acceptsKey(mobileApp: MobileApp, key: string) {
+  if (mobileApp.clientKey && sameKey(mobileApp.clientKey, key)) {
+    return true;
+  }
+  return Boolean(
+    mobileApp.previousClientKey &&
+    mobileApp.clientKeyRotatedAt &&
+    Date.now() - mobileApp.clientKeyRotatedAt.getTime() < PREVIOUS_KEY_GRACE_MS &&
+    sameKey(mobileApp.previousClientKey, key)
+  );
+}
+
+// CORS headers for the public API. Browsers only get an allow-origin header
+// for the app's configured origins; native apps send no Origin and need none.
+export function publicApiCorsHeaders(request: Request, allowedOrigins: string[]): Record<string, string> {
+  const origin = request.headers.get("Origin");
+  const headers: Record<string, string> = {
+    "Access-Control-Allow-Methods": "GET, OPTIONS",
+    "Access-Control-Allow-Headers": `Content-Type, If-None-Match, ${CLIENT_KEY_HEADER}, ${PREVIEW_KEY_HEADER}`,
+    "Access-Control-Expose-Headers": "ETag",
+    Vary: "Origin"
+  };
+  if (origin && allowedOrigins.includes(origin)) {
+    headers["Access-Control-Allow-Origin"] = origin;
+  }
+  return headers;
+}
+
+type PublicRequestResult =
+  | { ok: true; mobileApp: MobileApp; headers: Record<string, string> }
+  | { ok: false; response: Response };
+
+// Checks a public API request for the shop's app: the client key must match, from
+// the X-Client-Key header or the `key` query parameter (EventSource cannot set
+// headers), and browser requests must come from an allowed origin.
+export async function authorizePublicRequest(request: Request, shop: string): Promise<PublicRequestResult> {
+  const mobileApp = await prisma.mobileApp.findUnique({ where: { shop: shop } });
+  const allowedOrigins = mobileApp ? getAllowedOrigins(mobileApp) : [];
+  const headers = publicApiCorsHeaders(request, allowedOrigins);
+  const fail = (status: number, error: string) => ({
+    ok: false as const,
+    response: json({ error }, { status, headers })
+  });
+
+  const key = request.headers.get(CLIENT_KEY_HEADER) || new URL(request.url).searchParams.get("key");
+  // Unknown shops get the same answer as wrong keys, so shop domains can't be probed
+  if (!mobileApp || !key || !acceptsKey(mobileApp, key)) {
+    return fail(401, "A valid client key is required");
+  }
+
+  const origin = request.headers.get("Origin");
+  if (origin && !allowedOrigins.includes(origin)) {
+    return fail(403, `Origin ${origin} is not allowed for this app`);
+  }
+
+  return { ok: true, mobileApp, headers };
+}
+
+// Whether the request carries the app's preview key, which drafts need on top of the client key
+export function hasPreviewKey(request: Request, mobileApp: MobileApp) {
+  const key = request.headers.get(PREVIEW_KEY_HEADER);
+  return Boolean(mobileApp.previewKey && key && sameKey(mobileApp.previewKey, key));
+}
+
+// CORS headers for answers sent before the client key is checked, with the
+// shop's app if there is one
+export async function publicApiHeadersForShop(request: Request, shop: string | undefined) {
+  const mobileApp = shop ? await prisma.mobileApp.findUnique({ where: { shop: shop } }) : null;
+  return { mobileApp, headers: publicApiCorsHeaders(request, mobileApp ? getAllowedOrigins(mobileApp) : []) };
+}
+
+// Answers CORS preflights. Preflights carry no client key, so only the origin is checked.
+export async function publicApiPreflight(request: Request, shop: string | undefined) {
+  const { headers } = await publicApiHeadersForShop(request, shop);
+
+  if (request.method !== "OPTIONS") {
+    return new Response(null, { status: 405, headers: { ...headers, Allow: "GET, OPTIONS" } });
+  }
+  return new Response(null, { status: 204, headers });
+}
@@ -0,0 +1,81 @@
+import { prisma } from "../db.server";
+import { findComponentDefinition } from "./component-registry";
+import { migrateProps } from "./component-schema";
+import { diffProps } from "./template-diff";
+
+export interface ComponentMigrationChange {
+  pageName: string;
+  componentName: string;
+  fromVersion: number;
+  toVersion: number;
+  changedProps: string[];
+}
+
+export interface TemplateMigrationReport {
+  pagesScanned: number;
+  componentsScanned: number;
+  componentsUpgraded: number;
+  // Components whose Component row no longer matches any definition
+  unknownComponents: string[];
+  changes: ComponentMigrationChange[];
+}
+
+// Upgrades the saved drafts of every page of a shop's app to the current
+// component schema versions. Published snapshots are immutable and are
+// upgraded when the live config reads them instead.
+export async function migrateAllTemplates(shop: string): Promise<TemplateMigrationReport> {
+  const pages = await prisma.appPage.findMany({
+    where: { app: { shop: shop } },
+    include: {
+      components: {
+        include: { component: true },
+        orderBy: { order: 'asc' }
+      }
+    }
+  });
+
+  const report: TemplateMigrationReport = {
+    pagesScanned: pages.length,
+    componentsScanned: 0,
+    componentsUpgraded: 0,
+    unknownComponents: [],
+    changes: []
+  };
+
+  for (const page of pages) {
+    for (const comp of page.components) {
+      report.componentsScanned++;
+
+      const definition = findComponentDefinition(comp.component);
+      if (!definition) {
+        report.unknownComponents.push(`${page.name}: ${comp.component.name}`);
+        continue;
+      }
+      if (comp.schemaVersion >= definition.version) {
+        continue;
+      }
+
+      const props = comp.props as Record<string, any>;
+      const migrated = migrateProps(definition, props, comp.schemaVersion);
+
+      await prisma.pageComponent.update({
+        where: { id: comp.id },
+        data: {
+          props: migrated.props,
+          schemaVersion: migrated.version
+        }
+      });
+
+      report.componentsUpgraded++;
+      report.changes.push({
+        pageName: page.name,
+        componentName: definition.name,
+        fromVersion: comp.schemaVersion,
+        toVersion: migrated.version,
+        changedProps: diffProps(props, migrated.props)
+      });
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,787 @@
+import { defineComponent, type ComponentDefinition } from "./component-schema";
+import { getRandomBannerImage } from "./utils";
+
+// Every component the builder offers. Definitions go through defineComponent,
+// so a default that does not match its property schema fails to compile.
+export const componentLibrary: readonly ComponentDefinition[] = [
+  defineComponent({
+    id: "mobile-header",
+    name: "Mobile Header",
+    type: "MOBILE_HEADER",
+    category: "Layout",
+    icon: "📱",
+    description: "Clean mobile app header with logo, search, and navigation",
+    version: 1,
+    defaultProps: {
+      // Logo
+      logoText: "oe",
+      logoImage: "",
+      showLogoImage: false,
+      logoSize: 40,
+      logoColor: "#FFFFFF",
+      
+      // Colors
+      backgroundColor: "theme.primary",
+      iconColor: "#FFFFFF",
+      textColor: "#FFFFFF",
+      
+      // Offer button
+      showOfferButton: true,
+      offerButtonText: "50% OFF",
+      offerButtonColor: "theme.secondary",
+      
+      // Icons
+      showMenuIcon: true,
+      showWishlistIcon: true,
+      showAccountIcon: true,
+      showCartIcon: true,
+      showCartBadge: true,
+      cartBadgeCount: 3,
+      cartBadgeColor: "#EF4444",
+      
+      // Search
+      searchPlaceholder: "Free Cash on Delivery",
+      searchBackgroundColor: "#F7FAFC",
+      searchTextColor: "#4A5568",
+      
+      // Navigation
+      showNavTabs: true,
+      navBackgroundColor: "theme.primary",
+      navTextColor: "#CBD5E0",
+      navActiveColor: "#FFFFFF",
+      
+      // Simple navigation items
+      nav1Title: "All",
+      nav1Active: true,
+      nav2Title: "Classic", 
+      nav2Active: false,
+      nav3Title: "Essentials",
+      nav3Active: false,
+      nav4Title: "Premium",
+      nav4Active: false
+    },
+    config: {
+      properties: [
+        { name: "showLogoImage", type: "boolean", label: "Use Logo Image", description: "Use an image instead of text for the logo" },
+        { name: "logoImage", type: "shopify_image", label: "Logo Image", condition: { field: "showLogoImage", value: true } },
+        { name: "logoText", type: "text", label: "Logo Text", description: "Text to display as the logo", condition: { field: "showLogoImage", value: false } },
+        { name: "logoSize", type: "number", label: "Logo Size (px)", min: 20, max: 60 },
+        { name: "logoColor", type: "color", label: "Logo Color", condition: { field: "showLogoImage", value: false } },
+        { name: "backgroundColor", type: "color", label: "Background Color" },
+        { name: "iconColor", type: "color", label: "Icon Color" },
+        { name: "textColor", type: "color", label: "Text Color" },
+        { name: "showOfferButton", type: "boolean", label: "Show Offer Button" },
+        { name: "offerButtonText", type: "text", label: "Offer Button Text", condition: { field: "showOfferButton", value: true } },
+        { name: "offerButtonColor", type: "color", label: "Offer Button Color", condition: { field: "showOfferButton", value: true } },
+        { name: "showMenuIcon", type: "boolean", label: "Show Menu Icon" },
+        { name: "showWishlistIcon", type: "boolean", label: "Show Wishlist Icon" },
+        { name: "showAccountIcon", type: "boolean", label: "Show Account Icon" },
+        { name: "showCartIcon", type: "boolean", label: "Show Cart Icon" },
+        { name: "showCartBadge", type: "boolean", label: "Show Cart Badge", condition: { field: "showCartIcon", value: true } },
+        { name: "cartBadgeCount", type: "number", label: "Cart Badge Count", min: 0, max: 99, condition: { field: "showCartBadge", value: true } },
+        { name: "cartBadgeColor", type: "color", label: "Cart Badge Color", condition: { field: "showCartBadge", value: true } },
+        { name: "searchPlaceholder", type: "text", label: "Search Placeholder" },
+        { name: "searchBackgroundColor", type: "color", label: "Search Background" },
+        { name: "searchTextColor", type: "color", label: "Search Text Color" },
+        { name: "showNavTabs", type: "boolean", label: "Show Navigation Tabs" },
+        { name: "navBackgroundColor", type: "color", label: "Nav Background", condition: { field: "showNavTabs", value: true } },
+        { name: "navTextColor", type: "color", label: "Nav Text Color", condition: { field: "showNavTabs", value: true } },
+        { name: "navActiveColor", type: "color", label: "Nav Active Color", condition: { field: "showNavTabs", value: true } },
+        { name: "nav1Title", type: "text", label: "Nav Item 1 Title", condition: { field: "showNavTabs", value: true } },
+        { name: "nav1Active", type: "boolean", label: "Nav Item 1 Active", condition: { field: "showNavTabs", value: true } },
+        { name: "nav2Title", type: "text", label: "Nav Item 2 Title", condition: { field: "showNavTabs", value: true } },
+        { name: "nav2Active", type: "boolean", label: "Nav Item 2 Active", condition: { field: "showNavTabs", value: true } },
+        { name: "nav3Title", type: "text", label: "Nav Item 3 Title", condition: { field: "showNavTabs", value: true } },
+        { name: "nav3Active", type: "boolean", label: "Nav Item 3 Active", condition: { field: "showNavTabs", value: true } },
+        { name: "nav4Title", type: "text", label: "Nav Item 4 Title", condition: { field: "showNavTabs", value: true } },
+        { name: "nav4Active", type: "boolean", label: "Nav Item 4 Active", condition: { field: "showNavTabs", value: true } }
+      ],
+      contrastPairs: [
+        { foreground: "logoColor", background: "backgroundColor", large: true },
+        { foreground: "iconColor", background: "backgroundColor", large: true },
+        { foreground: "textColor", background: "backgroundColor" },
+        { foreground: "searchTextColor", background: "searchBackgroundColor" },
+        { foreground: "navTextColor", background: "navBackgroundColor" },
+        { foreground: "navActiveColor", background: "navBackgroundColor" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "banner",
+    name: "Banner",
+    type: "BANNER",
+    category: "Layout",
+    icon: "🎯",
+    description: "Hero banner with image and text overlay",
+    version: 1,
+    defaultProps: {
+      imageUrl: getRandomBannerImage(),
+      title: "Welcome to our store",
+      subtitle: "Discover amazing products",
+      buttonText: "Shop Now",
+      buttonLink: "/products",
+      overlay: true,
+      height: "200px"
+    },
+    config: {
+      properties: [
+        { name: "imageUrl", type: "image", label: "Background Image" },
+        { name: "title", type: "text", label: "Title" },
+        { name: "subtitle", type: "text", label: "Subtitle" },
+        { name: "buttonText", type: "text", label: "Button Text" },
+        { name: "buttonLink", type: "text", label: "Button Link" },
+        { name: "overlay", type: "boolean", label: "Dark Overlay" },
+        { name: "height", type: "select", label: "Height", options: ["150px", "200px", "300px", "400px"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "featured-collection",
+    name: "Featured Collection",
+    type: "FEATURED_COLLECTION",
+    category: "Products",
+    icon: "⭐",
+    description: "Showcase a featured product collection with customizable layout",
+    version: 1,
+    defaultProps: {
+      title: "Featured Collection",
+      description: "Check out our best products",
+      dataSource: "collection",
+      collectionId: "",
+      specificProducts: [],
+      layout: "grid",
+      itemsToShow: 4,
+      showPrices: true,
+      showRatings: true,
+      actionButtonText: "View All",
+      actionButtonLink: "/collections/featured"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Collection Title" },
+        { name: "description", type: "text", label: "Description" },
+        { name: "dataSource", type: "select", label: "Data Source", options: ["collection", "specific"] },
+        { name: "collectionId", type: "shopify_collection", label: "Select Collection", condition: { field: "dataSource", value: "collection" } },
+        { name: "specificProducts", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "specific" } },
+        { name: "layout", type: "select", label: "Layout Style", options: ["grid", "list", "carousel"] },
+        { name: "itemsToShow", type: "number", label: "Items to Show", min: 1, max: 10 },
+        { name: "showPrices", type: "boolean", label: "Show Prices" },
+        { name: "showRatings", type: "boolean", label: "Show Ratings" },
+        { name: "actionButtonText", type: "text", label: "Action Button Text" },
+        { name: "actionButtonLink", type: "text", label: "Action Button Link" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "carousel",
+    name: "Product Carousel",
+    type: "CAROUSEL", 
+    category: "Products",
+    icon: "🎠",
+    description: "Horizontal scrolling product showcase",
+    version: 1,
+    defaultProps: {
+      title: "Featured Products",
+      showArrows: true,
+      autoPlay: false,
+      itemsPerView: 2,
+      spacing: "16px",
+      dataSource: "mock", // "mock", "collection", "products"
+      collectionId: "",
+      productIds: []
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Section Title" },
+        { name: "dataSource", type: "select", label: "Data Source", options: ["mock", "collection", "products"] },
+        { name: "collectionId", type: "shopify_collection", label: "Shopify Collection", condition: { field: "dataSource", value: "collection" } },
+        { name: "productIds", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "products" } },
+        { name: "showArrows", type: "boolean", label: "Show Navigation Arrows" },
+        { name: "autoPlay", type: "boolean", label: "Auto Play" },
+        { name: "itemsPerView", type: "number", label: "Items Per View", min: 1, max: 4 },
+        { name: "spacing", type: "select", label: "Item Spacing", options: ["8px", "16px", "24px", "32px"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "countdown",
+    name: "Countdown Timer",
+    type: "COUNTDOWN",
+    category: "Marketing", 
+    icon: "⏰",
+    description: "Urgency-creating countdown timer",
+    version: 1,
+    defaultProps: {
+      title: "Limited Time Offer",
+      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
+      showLabels: true,
+      style: "circular"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Title" },
+        { name: "endDate", type: "datetime", label: "End Date" },
+        { name: "showLabels", type: "boolean", label: "Show Labels" },
+        { name: "style", type: "select", label: "Style", options: ["circular", "rectangular", "minimal"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "product-grid",
+    name: "Product Grid",
+    type: "PRODUCT_GRID",
+    category: "Products",
+    icon: "📦",
+    description: "Grid layout for product display", 
+    version: 1,
+    defaultProps: {
+      title: "Our Products",
+      columns: 2,
+      showPrice: true,
+      showRating: true,
+      aspectRatio: "1:1",
+      dataSource: "mock", // "mock", "collection", "products"
+      collectionId: "",
+      productIds: []
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Section Title" },
+        { name: "dataSource", type: "select", label: "Data Source", options: ["mock", "collection", "products"] },
+        { name: "collectionId", type: "shopify_collection", label: "Shopify Collection", condition: { field: "dataSource", value: "collection" } },
+        { name: "productIds", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "products" } },
+        { name: "columns", type: "number", label: "Columns", min: 1, max: 3 },
+        { name: "showPrice", type: "boolean", label: "Show Price" },
+        { name: "showRating", type: "boolean", label: "Show Rating" },
+        { name: "aspectRatio", type: "select", label: "Image Aspect Ratio", options: ["1:1", "4:3", "16:9"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "text-block",
+    name: "Text Block",
+    type: "TEXT_BLOCK", 
+    category: "Content",
+    icon: "📝",
+    description: "Rich text content block",
+    version: 1,
+    defaultProps: {
+      content: "<h2>Your Heading Here</h2><p>Add your content here. You can use rich text formatting.</p>",
+      textAlign: "left",
+      fontSize: "16px",
+      lineHeight: "1.5"
+    },
+    config: {
+      properties: [
+        { name: "content", type: "richtext", label: "Content" },
+        { name: "textAlign", type: "select", label: "Text Alignment", options: ["left", "center", "right"] },
+        { name: "fontSize", type: "select", label: "Font Size", options: ["14px", "16px", "18px", "20px", "24px"] },
+        { name: "lineHeight", type: "select", label: "Line Height", options: ["1.2", "1.4", "1.5", "1.6", "1.8"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "image",
+    name: "Image",
+    type: "IMAGE",
+    category: "Media",
+    icon: "🖼️", 
+    description: "Single image display",
+    version: 1,
+    defaultProps: {
+      imageUrl: "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
+      alt: "Store showcase",
+      aspectRatio: "16:9",
+      objectFit: "cover",
+      borderRadius: "8px"
+    },
+    config: {
+      properties: [
+        { name: "imageUrl", type: "image", label: "Image URL" },
+        { name: "alt", type: "text", label: "Alt Text" },
+        { name: "aspectRatio", type: "select", label: "Aspect Ratio", options: ["1:1", "4:3", "16:9", "21:9"] },
+        { name: "objectFit", type: "select", label: "Object Fit", options: ["cover", "contain", "fill"] },
+        { name: "borderRadius", type: "select", label: "Border Radius", options: ["0px", "4px", "8px", "12px", "24px"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "hero-slider",
+    name: "Hero Slider",
+    type: "HERO_SLIDER",
+    category: "Media",
+    icon: "🎬",
+    description: "Professional slider for images and videos with navigation",
+    version: 2,
+    migrations: {
+      // v1 kept slides in a `slides` array next to the slide1..5 fields; move
+      // them into empty slots so they can be edited
+      2: ({ slides, ...props }) => {
+        const migrated: Record<string, any> = { ...props };
+        const slots = [1, 2, 3, 4, 5];
+        for (const slide of Array.isArray(slides) ? slides : []) {
+          if (!slide?.url || slots.some(n => migrated[`slide${n}Url`] === slide.url)) continue;
+          const slot = slots.find(n => !migrated[`slide${n}Url`]);
+          if (!slot) break;
+          migrated[`slide${slot}Url`] = slide.url;
+          migrated[`slide${slot}Type`] = slide.type === "video" ? "video" : "image";
+        }
+        return migrated;
+      }
+    },
+    defaultProps: {
+      slide1Url: "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=400&fit=crop",
+      slide1Type: "image",
+      slide2Url: "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=800&h=400&fit=crop",
+      slide2Type: "image",
+      slide3Url: "",
+      slide3Type: "image",
+      slide4Url: "",
+      slide4Type: "image",
+      slide5Url: "",
+      slide5Type: "image",
+      height: 250,
+      borderRadius: 12,
+      autoPlay: true,
+      autoPlayInterval: 4000,
+      showDots: true,
+      showArrows: true
+    },
+    config: {
+      properties: [
+        { name: "slide1Url", type: "shopify_image", label: "Slide 1 - Image/Video URL", description: "Browse or enter URL for first slide" },
+        { name: "slide1Type", type: "select", label: "Slide 1 Type", options: ["image", "video"] },
+        { name: "slide2Url", type: "shopify_image", label: "Slide 2 - Image/Video URL", description: "Browse or enter URL for second slide" },
+        { name: "slide2Type", type: "select", label: "Slide 2 Type", options: ["image", "video"] },
+        { name: "slide3Url", type: "shopify_image", label: "Slide 3 - Image/Video URL (Optional)", description: "Browse or enter URL for third slide" },
+        { name: "slide3Type", type: "select", label: "Slide 3 Type", options: ["image", "video"] },
+        { name: "slide4Url", type: "shopify_image", label: "Slide 4 - Image/Video URL (Optional)", description: "Browse or enter URL for fourth slide" },
+        { name: "slide4Type", type: "select", label: "Slide 4 Type", options: ["image", "video"] },
+        { name: "slide5Url", type: "shopify_image", label: "Slide 5 - Image/Video URL (Optional)", description: "Browse or enter URL for fifth slide" },
+        { name: "slide5Type", type: "select", label: "Slide 5 Type", options: ["image", "video"] },
+        { name: "height", type: "number", label: "Height (px)", min: 150, max: 500 },
+        { name: "borderRadius", type: "number", label: "Border Radius (px)", min: 0, max: 30 },
+        { name: "autoPlay", type: "boolean", label: "Auto Play" },
+        { name: "autoPlayInterval", type: "number", label: "Auto Play Interval (ms)", min: 1000, max: 10000, condition: { field: "autoPlay", value: true } },
+        { name: "showDots", type: "boolean", label: "Show Navigation Dots" },
+        { name: "showArrows", type: "boolean", label: "Show Navigation Arrows" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "product-detail-page",
+    name: "Product Detail Page",
+    type: "PRODUCT_DETAIL_PAGE",
+    category: "E-commerce",
+    icon: "🛍️",
+    description: "Complete product detail page with cart functionality",
+    version: 1,
+    defaultProps: {
+      productId: "PROD123",
+      productTitle: "Premium Wireless Headphones",
+      productDescription: "Experience crystal-clear audio with our premium wireless headphones. Features include noise cancellation, 30-hour battery life, and premium comfort padding. Perfect for music lovers, professionals, and anyone who demands the best audio experience.",
+      productPrice: "199.99",
+      compareAtPrice: "249.99",
+      productImages: [
+        "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=500&h=500&fit=crop",
+        "https://images.unsplash.com/photo-1484704849700-f032a568e944?w=500&h=500&fit=crop",
+        "https://images.unsplash.com/photo-1583394838336-acd977736f90?w=500&h=500&fit=crop"
+      ],
+      productVendor: "AudioTech Pro",
+      productType: "Electronics",
+      productTags: ["featured", "bestseller", "wireless", "premium"],
+      inStock: true,
+      stockQuantity: 25,
+      showQuantitySelector: true,
+      showDescription: true,
+      showVendor: true,
+      showProductType: true,
+      showTags: true,
+      showComparePrice: true,
+      showStockStatus: true,
+      addToCartButtonText: "Add to Cart",
+      addToCartButtonColor: "theme.primary",
+      quantityButtonColor: "#F0F0F0",
+      priceColor: "theme.text",
+      compareAtPriceColor: "#999999",
+      descriptionColor: "#333333",
+      backgroundColor: "theme.background",
+      showImageIndicators: true,
+      enableImageZoom: false
+    },
+    config: {
+      properties: [
+        { name: "productId", type: "text", label: "Product ID", description: "Unique identifier for the product" },
+        { name: "productTitle", type: "text", label: "Product Title", description: "Main product name" },
+        { name: "productDescription", type: "richtext", label: "Product Description", description: "Detailed product description" },
+        { name: "productPrice", type: "text", label: "Product Price", description: "Current selling price (without currency symbol)" },
+        { name: "compareAtPrice", type: "text", label: "Compare At Price", description: "Original/MSRP price for comparison" },
+        { name: "productImages", type: "image", list: true, label: "Product Images", description: "Multiple product images" },
+        { name: "productVendor", type: "text", label: "Brand/Vendor", description: "Product brand or vendor name" },
+        { name: "productType", type: "text", label: "Product Type", description: "Category or type of product" },
+        { name: "productTags", type: "text", list: true, label: "Product Tags", description: "Tags for filtering and categorization" },
+        { name: "inStock", type: "boolean", label: "In Stock" },
+        { name: "stockQuantity", type: "number", label: "Stock Quantity", min: 0, max: 999 },
+        { name: "showQuantitySelector", type: "boolean", label: "Show Quantity Selector" },
+        { name: "showDescription", type: "boolean", label: "Show Description" },
+        { name: "showVendor", type: "boolean", label: "Show Vendor/Brand" },
+        { name: "showProductType", type: "boolean", label: "Show Product Type" },
+        { name: "showTags", type: "boolean", label: "Show Tags" },
+        { name: "showComparePrice", type: "boolean", label: "Show Compare Price" },
+        { name: "showStockStatus", type: "boolean", label: "Show Stock Status" },
+        { name: "addToCartButtonText", type: "text", label: "Add to Cart Button Text" },
+        { name: "addToCartButtonColor", type: "color", label: "Add to Cart Button Color" },
+        { name: "quantityButtonColor", type: "color", label: "Quantity Button Color" },
+        { name: "priceColor", type: "color", label: "Price Color" },
+        { name: "compareAtPriceColor", type: "color", label: "Compare Price Color" },
+        { name: "descriptionColor", type: "color", label: "Description Text Color" },
+        { name: "backgroundColor", type: "color", label: "Background Color" },
+        { name: "showImageIndicators", type: "boolean", label: "Show Image Indicators" },
+        { name: "enableImageZoom", type: "boolean", label: "Enable Image Zoom" }
+      ],
+      contrastPairs: [
+        { foreground: "priceColor", background: "backgroundColor", large: true },
+        { foreground: "compareAtPriceColor", background: "backgroundColor" },
+        { foreground: "descriptionColor", background: "backgroundColor" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "button",
+    name: "Button",
+    type: "BUTTON",
+    category: "Interactive",
+    icon: "🔘",
+    description: "Call-to-action button",
+    version: 1,
+    defaultProps: {
+      text: "Shop Now",
+      link: "/products",
+      variant: "primary",
+      size: "medium",
+      fullWidth: false,
+      icon: "🛍️"
+    },
+    config: {
+      properties: [
+        { name: "text", type: "text", label: "Button Text" },
+        { name: "link", type: "text", label: "Link URL" },
+        { name: "variant", type: "select", label: "Style", options: ["primary", "secondary", "outline", "ghost"] },
+        { name: "size", type: "select", label: "Size", options: ["small", "medium", "large"] },
+        { name: "fullWidth", type: "boolean", label: "Full Width" },
+        { name: "icon", type: "text", label: "Icon (emoji or name)" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "spacer",
+    name: "Spacer",
+    type: "SPACER",
+    category: "Layout",
+    icon: "⬜",
+    description: "Empty space for layout control",
+    version: 1,
+    defaultProps: {
+      height: "24px"
+    },
+    config: {
+      properties: [
+        { name: "height", type: "select", label: "Height", options: ["8px", "16px", "24px", "32px", "48px", "64px"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "divider",
+    name: "Divider",
+    type: "DIVIDER",
+    category: "Layout",
+    icon: "➖",
+    description: "Horizontal line to separate sections",
+    version: 1,
+    defaultProps: {
+      style: "solid",
+      color: "#E5E7EB",
+      thickness: 1,
+      width: "100%",
+      spacing: "16px"
+    },
+    config: {
+      properties: [
+        { name: "style", type: "select", label: "Line Style", options: ["solid", "dashed", "dotted"] },
+        { name: "color", type: "color", label: "Line Color" },
+        { name: "thickness", type: "number", label: "Thickness (px)", min: 1, max: 10 },
+        { name: "width", type: "select", label: "Width", options: ["25%", "50%", "75%", "100%"] },
+        { name: "spacing", type: "select", label: "Vertical Spacing", options: ["0px", "8px", "16px", "24px", "32px"] }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "faq",
+    name: "FAQ",
+    type: "FAQ",
+    category: "Content",
+    icon: "❓",
+    description: "Expandable frequently asked questions",
+    version: 1,
+    defaultProps: {
+      title: "Frequently Asked Questions",
+      question1: "How long does shipping take?",
+      answer1: "Orders ship within 1-2 business days and usually arrive within a week.",
+      question2: "What is your return policy?",
+      answer2: "You can return any unused item within 30 days for a full refund.",
+      question3: "Do you ship internationally?",
+      answer3: "Yes, we ship to most countries worldwide.",
+      question4: "",
+      answer4: "",
+      question5: "",
+      answer5: "",
+      expandFirst: true,
+      allowMultipleOpen: false,
+      questionColor: "theme.text",
+      answerColor: "#4B5563",
+      backgroundColor: "theme.background"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Section Title" },
+        { name: "question1", type: "text", label: "Question 1" },
+        { name: "answer1", type: "richtext", label: "Answer 1" },
+        { name: "question2", type: "text", label: "Question 2" },
+        { name: "answer2", type: "richtext", label: "Answer 2" },
+        { name: "question3", type: "text", label: "Question 3 (Optional)" },
+        { name: "answer3", type: "richtext", label: "Answer 3 (Optional)" },
+        { name: "question4", type: "text", label: "Question 4 (Optional)" },
+        { name: "answer4", type: "richtext", label: "Answer 4 (Optional)" },
+        { name: "question5", type: "text", label: "Question 5 (Optional)" },
+        { name: "answer5", type: "richtext", label: "Answer 5 (Optional)" },
+        { name: "expandFirst", type: "boolean", label: "Expand First Question" },
+        { name: "allowMultipleOpen", type: "boolean", label: "Allow Multiple Open", description: "Keep other questions open when one is expanded" },
+        { name: "questionColor", type: "color", label: "Question Color" },
+        { name: "answerColor", type: "color", label: "Answer Color" },
+        { name: "backgroundColor", type: "color", label: "Background Color" }
+      ],
+      contrastPairs: [
+        { foreground: "questionColor", background: "backgroundColor" },
+        { foreground: "answerColor", background: "backgroundColor" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "testimonial",
+    name: "Testimonial",
+    type: "TESTIMONIAL",
+    category: "Content",
+    icon: "💬",
+    description: "Customer quote with rating and photo",
+    version: 1,
+    defaultProps: {
+      quote: "Absolutely love the quality. Fast delivery and great customer service!",
+      authorName: "Sarah Johnson",
+      authorTitle: "Verified Buyer",
+      authorImage: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?w=100&h=100&fit=crop",
+      showAuthorImage: true,
+      rating: 5,
+      showRating: true,
+      alignment: "center",
+      backgroundColor: "#F9FAFB",
+      textColor: "theme.text",
+      ratingColor: "#F59E0B"
+    },
+    config: {
+      properties: [
+        { name: "quote", type: "richtext", label: "Quote" },
+        { name: "authorName", type: "text", label: "Author Name" },
+        { name: "authorTitle", type: "text", label: "Author Title", description: "e.g. Verified Buyer or the customer's city" },
+        { name: "showAuthorImage", type: "boolean", label: "Show Author Photo" },
+        { name: "authorImage", type: "image", label: "Author Photo", condition: { field: "showAuthorImage", value: true } },
+        { name: "showRating", type: "boolean", label: "Show Rating" },
+        { name: "rating", type: "number", label: "Rating (stars)", min: 1, max: 5, condition: { field: "showRating", value: true } },
+        { name: "ratingColor", type: "color", label: "Rating Color", condition: { field: "showRating", value: true } },
+        { name: "alignment", type: "select", label: "Alignment", options: ["left", "center"] },
+        { name: "backgroundColor", type: "color", label: "Background Color" },
+        { name: "textColor", type: "color", label: "Text Color" }
+      ],
+      contrastPairs: [
+        { foreground: "textColor", background: "backgroundColor" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "video",
+    name: "Video",
+    type: "VIDEO",
+    category: "Media",
+    icon: "🎥",
+    description: "Video player with optional poster image",
+    version: 1,
+    defaultProps: {
+      videoUrl: "",
+      posterImage: getRandomBannerImage(),
+      title: "",
+      aspectRatio: "16:9",
+      autoPlay: false,
+      muted: true,
+      loop: false,
+      showControls: true,
+      borderRadius: 0
+    },
+    config: {
+      properties: [
+        { name: "videoUrl", type: "shopify_image", label: "Video URL", description: "MP4 file or YouTube/Vimeo link" },
+        { name: "posterImage", type: "image", label: "Poster Image", description: "Shown before the video starts" },
+        { name: "title", type: "text", label: "Caption" },
+        { name: "aspectRatio", type: "select", label: "Aspect Ratio", options: ["16:9", "4:3", "1:1", "9:16"] },
+        { name: "autoPlay", type: "boolean", label: "Auto Play" },
+        { name: "muted", type: "boolean", label: "Muted", description: "Most devices only auto play muted videos" },
+        { name: "loop", type: "boolean", label: "Loop" },
+        { name: "showControls", type: "boolean", label: "Show Controls" },
+        { name: "borderRadius", type: "number", label: "Border Radius (px)", min: 0, max: 30 }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "map",
+    name: "Store Map",
+    type: "MAP",
+    category: "Media",
+    icon: "📍",
+    description: "Map with your store location and directions",
+    version: 1,
+    defaultProps: {
+      title: "Visit Our Store",
+      address: "1600 Amphitheatre Parkway, Mountain View, CA",
+      zoom: 14,
+      height: 250,
+      mapType: "roadmap",
+      showAddress: true,
+      showDirectionsButton: true,
+      directionsButtonText: "Get Directions"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Title" },
+        { name: "address", type: "text", label: "Address", description: "Street address shown on the map" },
+        { name: "zoom", type: "number", label: "Zoom Level", min: 1, max: 20 },
+        { name: "height", type: "number", label: "Height (px)", min: 150, max: 500 },
+        { name: "mapType", type: "select", label: "Map Type", options: ["roadmap", "satellite"] },
+        { name: "showAddress", type: "boolean", label: "Show Address" },
+        { name: "showDirectionsButton", type: "boolean", label: "Show Directions Button" },
+        { name: "directionsButtonText", type: "text", label: "Directions Button Text", condition: { field: "showDirectionsButton", value: true } }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "social-feed",
+    name: "Social Feed",
+    type: "SOCIAL_FEED",
+    category: "Marketing",
+    icon: "📸",
+    description: "Grid of recent posts from a social account",
+    version: 1,
+    defaultProps: {
+      title: "Follow Us",
+      platform: "instagram",
+      username: "yourstore",
+      postsToShow: 6,
+      columns: 3,
+      showFollowButton: true,
+      followButtonText: "Follow",
+      followButtonColor: "#E1306C"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Section Title" },
+        { name: "platform", type: "select", label: "Platform", options: ["instagram", "tiktok", "facebook", "twitter"] },
+        { name: "username", type: "text", label: "Username", description: "Account handle without the @" },
+        { name: "postsToShow", type: "number", label: "Posts to Show", min: 1, max: 12 },
+        { name: "columns", type: "number", label: "Columns", min: 1, max: 4 },
+        { name: "showFollowButton", type: "boolean", label: "Show Follow Button" },
+        { name: "followButtonText", type: "text", label: "Follow Button Text", condition: { field: "showFollowButton", value: true } },
+        { name: "followButtonColor", type: "color", label: "Follow Button Color", condition: { field: "showFollowButton", value: true } }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "form",
+    name: "Form",
+    type: "FORM",
+    category: "Interactive",
+    icon: "📝",
+    description: "Contact or newsletter signup form",
+    version: 1,
+    defaultProps: {
+      title: "Stay in touch",
+      description: "Sign up for exclusive offers and new arrivals.",
+      formType: "newsletter",
+      showNameField: true,
+      showEmailField: true,
+      showPhoneField: false,
+      showMessageField: false,
+      submitButtonText: "Subscribe",
+      submitButtonColor: "theme.primary",
+      successMessage: "Thanks! You're on the list.",
+      backgroundColor: "theme.background"
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Title" },
+        { name: "description", type: "text", label: "Description" },
+        { name: "formType", type: "select", label: "Form Type", options: ["newsletter", "contact"], description: "Newsletter signups become customers, contact forms are emailed to the store" },
+        { name: "showNameField", type: "boolean", label: "Name Field" },
+        { name: "showEmailField", type: "boolean", label: "Email Field" },
+        { name: "showPhoneField", type: "boolean", label: "Phone Field" },
+        { name: "showMessageField", type: "boolean", label: "Message Field" },
+        { name: "submitButtonText", type: "text", label: "Submit Button Text" },
+        { name: "submitButtonColor", type: "color", label: "Submit Button Color" },
+        { name: "successMessage", type: "text", label: "Success Message" },
+        { name: "backgroundColor", type: "color", label: "Background Color" }
+      ]
+    }
+  }),
+  defineComponent({
+    id: "product-list",
+    name: "Product List",
+    type: "PRODUCT_LIST",
+    category: "Products",
+    icon: "📋",
+    description: "Vertical list of products with image, title and price",
+    version: 1,
+    defaultProps: {
+      title: "Best Sellers",
+      dataSource: "mock", // "mock", "collection", "products"
+      collectionId: "",
+      productIds: [],
+      itemsToShow: 4,
+      imageSize: "medium",
+      showPrice: true,
+      showVendor: false,
+      showAddToCart: true,
+      addToCartButtonText: "Add",
+      showDividers: true
+    },
+    config: {
+      properties: [
+        { name: "title", type: "text", label: "Section Title" },
+        { name: "dataSource", type: "select", label: "Data Source", options: ["mock", "collection", "products"] },
+        { name: "collectionId", type: "shopify_collection", label: "Shopify Collection", condition: { field: "dataSource", value: "collection" } },
+        { name: "productIds", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "products" } },
+        { name: "itemsToShow", type: "number", label: "Items to Show", min: 1, max: 20 },
+        { name: "imageSize", type: "select", label: "Image Size", options: ["small", "medium", "large"] },
+        { name: "showPrice", type: "boolean", label: "Show Price" },
+        { name: "showVendor", type: "boolean", label: "Show Vendor" },
+        { name: "showAddToCart", type: "boolean", label: "Show Add to Cart Button" },
+        { name: "addToCartButtonText", type: "text", label: "Add to Cart Button Text", condition: { field: "showAddToCart", value: true } },
+        { name: "showDividers", type: "boolean", label: "Show Dividers" }
+      ]
+    }
+  })
+];
+
+export function getComponentDefinition(componentId: string): ComponentDefinition | undefined {
+  return componentLibrary.find(c => c.id === componentId);
+}
+
+// Page components are stored against Component rows, which match a definition by name and type
+export function findComponentDefinition(component: { name: string; type: string }): ComponentDefinition | undefined {
+  return componentLibrary.find(c => c.name === component.name && c.type === component.type);
+}
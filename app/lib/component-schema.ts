@@ -0,0 +1,277 @@
+import type { ComponentType } from "@prisma/client";
+import { isThemeToken } from "./theme-tokens";
+
+// Typed schemas for builder components. Each property declares a `type` that
+// decides both how PropertyEditor renders it and which values it accepts.
+
+export interface PropertyCondition {
+  field: string;
+  value: string | number | boolean;
+}
+
+interface BaseProperty {
+  name: string;
+  label: string;
+  description?: string;
+  // Only show the property while another property has the given value
+  condition?: PropertyCondition;
+}
+
+export interface TextProperty extends BaseProperty {
+  type: "text";
+  // A list of strings instead of a single one, e.g. product tags
+  list?: boolean;
+}
+
+export interface NumberProperty extends BaseProperty {
+  type: "number";
+  min?: number;
+  max?: number;
+}
+
+export interface SelectProperty extends BaseProperty {
+  type: "select";
+  options: readonly string[];
+}
+
+// Holds a hex color or a theme token, see theme-tokens.ts
+export interface ColorProperty extends BaseProperty {
+  type: "color";
+}
+
+export interface BooleanProperty extends BaseProperty {
+  type: "boolean";
+}
+
+export interface RichTextProperty extends BaseProperty {
+  type: "richtext";
+}
+
+export interface DateTimeProperty extends BaseProperty {
+  type: "datetime";
+}
+
+export interface ImageProperty extends BaseProperty {
+  type: "image";
+  // A list of image URLs instead of a single one, e.g. a product gallery
+  list?: boolean;
+}
+
+export interface ShopifyImageProperty extends BaseProperty {
+  type: "shopify_image";
+}
+
+export interface ShopifyCollectionProperty extends BaseProperty {
+  type: "shopify_collection";
+}
+
+export interface ShopifyProductsProperty extends BaseProperty {
+  type: "shopify_products";
+}
+
+export type PropertyDefinition =
+  | TextProperty
+  | NumberProperty
+  | SelectProperty
+  | ColorProperty
+  | BooleanProperty
+  | RichTextProperty
+  | DateTimeProperty
+  | ImageProperty
+  | ShopifyImageProperty
+  | ShopifyCollectionProperty
+  | ShopifyProductsProperty;
+
+export type PropertyType = PropertyDefinition["type"];
+
+// The value a property of a given definition holds in a component's props
+export type PropertyValue<P extends PropertyDefinition> =
+  P extends { type: "text" | "image"; list: true } ? string[] :
+  P extends { type: "number" } ? number :
+  P extends { type: "boolean" } ? boolean :
+  P extends { type: "select"; options: readonly (infer Option)[] } ? Option :
+  P extends { type: "shopify_products" } ? string[] :
+  string;
+
+export type SchemaProps<Properties extends readonly PropertyDefinition[]> = {
+  [P in Properties[number] as P["name"]]: PropertyValue<P>;
+};
+
+// Names of the color properties in a property list
+export type ColorPropertyName<Properties extends readonly PropertyDefinition[]> =
+  Extract<Properties[number], { type: "color" }>["name"];
+
+// A foreground color prop drawn on a background color prop of the same
+// component, checked for contrast in contrast.ts
+export interface ContrastPair<Name extends string = string> {
+  foreground: Name;
+  background: Name;
+  // Large text and icons need a lower ratio than body text
+  large?: boolean;
+}
+
+// Upgrades stored props by one schema version
+export type PropsMigration = (props: Record<string, any>) => Record<string, any>;
+
+export interface ComponentDefinition<Properties extends readonly PropertyDefinition[] = readonly PropertyDefinition[]> {
+  id: string;
+  name: string;
+  // Matches the Component rows page components are stored against
+  type: ComponentType;
+  category: string;
+  icon: string;
+  description: string;
+  // Bump whenever the property list or the meaning of a prop changes, and add
+  // the matching entry to `migrations`
+  version: number;
+  // migrations[n] upgrades props saved with version n - 1 to version n
+  migrations?: Record<number, PropsMigration>;
+  defaultProps: SchemaProps<Properties>;
+  config: {
+    properties: Properties;
+    contrastPairs?: readonly ContrastPair<NoInfer<ColorPropertyName<Properties>>>[];
+  };
+}
+
+export interface PropertyError {
+  field: string;
+  message: string;
+}
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{4}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every(item => typeof item === "string");
+
+// Returns a message when the value does not fit the property, null when it does
+function checkValue(property: PropertyDefinition, value: unknown): string | null {
+  switch (property.type) {
+    case "text":
+    case "image":
+      if (property.list) {
+        return isStringList(value) ? null : "must be a list of text values";
+      }
+      return typeof value === "string" ? null : "must be text";
+    case "richtext":
+    case "shopify_image":
+    case "shopify_collection":
+      return typeof value === "string" ? null : "must be text";
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return "must be a number";
+      }
+      if (property.min !== undefined && value < property.min) {
+        return `must be at least ${property.min}`;
+      }
+      if (property.max !== undefined && value > property.max) {
+        return `must be at most ${property.max}`;
+      }
+      return null;
+    case "select":
+      return typeof value === "string" && property.options.includes(value)
+        ? null
+        : `must be one of ${property.options.join(", ")}`;
+    case "color":
+      return typeof value === "string" && (HEX_COLOR.test(value) || isThemeToken(value))
+        ? null
+        : "must be a hex color like #1A2B3C or a theme color";
+    case "boolean":
+      return typeof value === "boolean" ? null : "must be true or false";
+    case "datetime":
+      return typeof value === "string" && !Number.isNaN(Date.parse(value)) ? null : "must be a valid date";
+    case "shopify_products":
+      return isStringList(value) ? null : "must be a list of product ids";
+  }
+}
+
+// Checks props against a schema. Missing props are fine (the default is used)
+// and props the schema does not declare are ignored.
+export function validateProps(properties: readonly PropertyDefinition[], props: Record<string, unknown>): PropertyError[] {
+  const errors: PropertyError[] = [];
+
+  for (const property of properties) {
+    const value = props[property.name];
+    if (value === undefined) continue;
+
+    const message = checkValue(property, value);
+    if (message) {
+      errors.push({ field: property.name, message: `${property.label} ${message}` });
+    }
+  }
+
+  return errors;
+}
+
+// Props restricted to the schema with defaults filled in. Invalid values fall
+// back to the default and are reported, so callers can log them.
+export function resolveProps(definition: ComponentDefinition, props: Record<string, unknown>) {
+  const errors = validateProps(definition.config.properties, props);
+  const invalidFields = new Set(errors.map(error => error.field));
+  const resolved: Record<string, unknown> = {};
+
+  for (const property of definition.config.properties) {
+    const value = props[property.name];
+    resolved[property.name] = value === undefined || invalidFields.has(property.name)
+      ? definition.defaultProps[property.name]
+      : value;
+  }
+
+  return { props: resolved, errors };
+}
+
+// Runs the migration chain from the version the props were saved with up to
+// the component's current version. Props from a newer version are left alone.
+export function migrateProps(definition: ComponentDefinition, props: Record<string, any>, fromVersion: number) {
+  let migrated = props;
+  const applied: number[] = [];
+
+  for (let version = fromVersion + 1; version <= definition.version; version++) {
+    migrated = definition.migrations![version](migrated);
+    applied.push(version);
+  }
+
+  return {
+    props: migrated,
+    version: Math.max(fromVersion, definition.version),
+    applied
+  };
+}
+
+// Declares a component. The `const` parameter keeps property names and select
+// options literal, so `defaultProps` is checked against the schema at compile
+// time; the same check runs again when the module loads.
+export function defineComponent<const Properties extends readonly PropertyDefinition[]>(
+  definition: ComponentDefinition<Properties>
+): ComponentDefinition<Properties> {
+  const properties: readonly PropertyDefinition[] = definition.config.properties;
+  const problems = validateProps(properties, definition.defaultProps).map(error => error.message);
+
+  for (let version = 2; version <= definition.version; version++) {
+    if (!definition.migrations?.[version]) {
+      problems.push(`missing migration to version ${version}`);
+    }
+  }
+
+  for (const property of properties) {
+    if (!(property.name in definition.defaultProps)) {
+      problems.push(`${property.label} has no default value`);
+    }
+    if (property.condition && !properties.some(p => p.name === property.condition!.field)) {
+      problems.push(`${property.label} depends on unknown property "${property.condition.field}"`);
+    }
+  }
+
+  for (const pair of definition.config.contrastPairs || []) {
+    for (const field of [pair.foreground, pair.background]) {
+      if (!properties.some(p => p.name === field && p.type === "color")) {
+        problems.push(`contrast pair refers to "${field}", which is not a color property`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid schema for component "${definition.id}": ${problems.join("; ")}`);
+  }
+
+  return definition;
+}
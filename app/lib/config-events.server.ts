@@ -0,0 +1,44 @@
+import { EventEmitter } from "node:events";
+import { logger } from "./logger.server";
+
+// A change to what a shop's apps show, sent to preview and device apps
+// listening on /api/config-events/<shop>. A saved draft only changes what
+// preview builds see, through the live config's draft mode; devices on the
+// published config find it unchanged.
+export interface ConfigChange {
+  // "pages" covers the page list itself: order, home page and deleted pages
+  reason: "save" | "publish" | "rollback" | "activate" | "theme" | "pages";
+  // Null for changes that are not about one page, such as the active theme
+  pageId: string | null;
+  // Latest published version of the page; drafts that were only saved keep the old one
+  version: number | null;
+  changedAt: string;
+}
+
+declare global {
+  var __configEvents__: EventEmitter;
+}
+
+// Kept on the global so development reloads don't orphan open streams. The
+// emitter is per process: with several app instances, a device only hears
+// about changes made through the instance it is connected to.
+if (!global.__configEvents__) {
+  global.__configEvents__ = new EventEmitter();
+  // Every connected preview adds a listener
+  global.__configEvents__.setMaxListeners(0);
+}
+const configEvents = global.__configEvents__;
+
+export function publishConfigChange(shop: string, change: Omit<ConfigChange, "changedAt">) {
+  const event: ConfigChange = { ...change, changedAt: new Date().toISOString() };
+  logger.info("Config changed", { shop, ...change, listeners: configEvents.listenerCount(shop) });
+  configEvents.emit(shop, event);
+}
+
+// Returns the function that stops listening
+export function subscribeConfigChanges(shop: string, listener: (change: ConfigChange) => void) {
+  configEvents.on(shop, listener);
+  return () => {
+    configEvents.off(shop, listener);
+  };
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from "vitest";
+import { getComponentDefinition } from "./component-registry";
+import {
+  CONTRAST_LARGE,
+  CONTRAST_NORMAL,
+  checkComponentContrast,
+  checkThemeContrast,
+  contrastRatio,
+  formatRatio,
+  suggestPassingColor
+} from "./contrast";
+import { DEFAULT_THEME_COLORS, type ThemeColors } from "./theme-tokens";
+
+describe("contrastRatio", () => {
+  it("spans 1:1 to 21:1", () => {
+    expect(contrastRatio("#000000", "#FFFFFF")).toBeCloseTo(21);
+    expect(contrastRatio("#FFFFFF", "#000")).toBeCloseTo(21);
+    expect(contrastRatio("#808080", "#808080")).toBe(1);
+  });
+
+  it("puts the grays either side of the AA thresholds", () => {
+    expect(contrastRatio("#767676", "#FFFFFF")!).toBeGreaterThanOrEqual(CONTRAST_NORMAL);
+    expect(contrastRatio("#777777", "#FFFFFF")!).toBeLessThan(CONTRAST_NORMAL);
+    expect(contrastRatio("#949494", "#FFFFFF")!).toBeGreaterThanOrEqual(CONTRAST_LARGE);
+    expect(contrastRatio("#959595", "#FFFFFF")!).toBeLessThan(CONTRAST_LARGE);
+  });
+
+  it("ignores alpha and returns null for colors that are not hex", () => {
+    expect(contrastRatio("#000000FF", "#FFFFFF80")).toBeCloseTo(21);
+    expect(contrastRatio("red", "#FFFFFF")).toBeNull();
+    expect(contrastRatio("theme.text", "#FFFFFF")).toBeNull();
+  });
+});
+
+describe("suggestPassingColor", () => {
+  it("keeps a passing color", () => {
+    expect(suggestPassingColor("#000", "#FFFFFF", CONTRAST_NORMAL)).toBe("#000000");
+  });
+
+  it("finds a close color that passes and keeps the hue", () => {
+    const gray = suggestPassingColor("#777777", "#FFFFFF", CONTRAST_NORMAL)!;
+    expect(contrastRatio(gray, "#FFFFFF")!).toBeGreaterThanOrEqual(CONTRAST_NORMAL);
+    expect(gray).toMatch(/^#(..)\1\1$/);
+    expect(parseInt(gray.slice(1, 3), 16)).toBeGreaterThan(0x60);
+
+    const red = suggestPassingColor("#FF0000", "#FFFFFF", CONTRAST_NORMAL)!;
+    expect(contrastRatio(red, "#FFFFFF")!).toBeGreaterThanOrEqual(CONTRAST_NORMAL);
+    expect(red).toMatch(/^#[0-9A-F]{2}0000$/);
+  });
+
+  it("lightens on a dark background when that is the smaller step", () => {
+    const suggestion = suggestPassingColor("#333333", "#000000", CONTRAST_NORMAL)!;
+    expect(contrastRatio(suggestion, "#000000")!).toBeGreaterThanOrEqual(CONTRAST_NORMAL);
+    expect(parseInt(suggestion.slice(1, 3), 16)).toBeGreaterThan(0x33);
+  });
+
+  it("falls back to black or white when no shade passes", () => {
+    expect(suggestPassingColor("#808080", "#808080", 21)).toBe("#000000");
+  });
+
+  it("returns null for colors that are not hex", () => {
+    expect(suggestPassingColor("blue", "#FFFFFF", CONTRAST_NORMAL)).toBeNull();
+  });
+});
+
+describe("checkThemeContrast", () => {
+  it("passes the default theme", () => {
+    expect(checkThemeContrast(DEFAULT_THEME_COLORS)).toEqual([]);
+  });
+
+  it("holds text to the body ratio and accent colors to the large text one", () => {
+    const colors: ThemeColors = {
+      primaryColor: "#949494",
+      secondaryColor: "#959595",
+      backgroundColor: "#FFFFFF",
+      textColor: "#777777"
+    };
+
+    const issues = checkThemeContrast(colors);
+    expect(issues.map(issue => [issue.field, issue.required])).toEqual([
+      ["textColor", CONTRAST_NORMAL],
+      ["secondaryColor", CONTRAST_LARGE]
+    ]);
+    expect(issues[0].ratio).toBe(4.47);
+    expect(formatRatio(issues[0].ratio)).toBe("4.47:1");
+  });
+});
+
+describe("checkComponentContrast", () => {
+  const testimonial = getComponentDefinition("testimonial")!;
+  const header = getComponentDefinition("mobile-header")!;
+
+  it("resolves theme tokens and reports the token a failing color is bound to", () => {
+    const colors: ThemeColors = { ...DEFAULT_THEME_COLORS, textColor: "#DDDDDD" };
+    const issues = checkComponentContrast(testimonial, { textColor: "theme.text", backgroundColor: "#FFFFFF" }, colors);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ field: "textColor", foreground: "#DDDDDD", token: "theme.text" });
+  });
+
+  it("reports fixed colors without a token", () => {
+    const issues = checkComponentContrast(testimonial, { textColor: "#AAAAAA", backgroundColor: "#FFFFFF" }, DEFAULT_THEME_COLORS);
+
+    expect(issues[0]).toMatchObject({ field: "textColor", token: null, required: CONTRAST_NORMAL });
+  });
+
+  it("skips pairs whose colors a condition hides", () => {
+    const props = { logoColor: "#FFFFFF", backgroundColor: "#FFFFFF" };
+
+    expect(checkComponentContrast(header, { ...props, showLogoImage: false }, DEFAULT_THEME_COLORS).map(issue => issue.field)).toContain("logoColor");
+    expect(checkComponentContrast(header, { ...props, showLogoImage: true }, DEFAULT_THEME_COLORS).map(issue => issue.field)).not.toContain("logoColor");
+  });
+});
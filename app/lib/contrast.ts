@@ -0,0 +1,210 @@
+import type { ComponentDefinition, PropertyDefinition } from "./component-schema";
+import { isThemeToken, resolveThemeToken, type ThemeColors, type ThemeToken } from "./theme-tokens";
+
+// WCAG 2.1 contrast checks for theme colors and for the color pairs components
+// declare in `config.contrastPairs`. Alpha is ignored: colors are compared as
+// if drawn opaque.
+
+// AA thresholds: body text needs 4.5:1, large text and icons 3:1
+export const CONTRAST_NORMAL = 4.5;
+export const CONTRAST_LARGE = 3;
+
+export interface ContrastIssue {
+  // The foreground field, the one the suggestion replaces
+  field: string;
+  label: string;
+  foreground: string;
+  background: string;
+  ratio: number;
+  required: number;
+  // The closest color to the foreground that passes, keeping its hue
+  suggestion: string;
+  // The theme color the foreground is bound to, if any. The fix then belongs
+  // in the theme: a hex in its place would undo the binding.
+  token: ThemeToken | null;
+}
+
+type Rgb = [number, number, number];
+
+function parseHex(color: string): Rgb | null {
+  const match = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.exec(color.trim());
+  if (!match) {
+    return null;
+  }
+  let hex = match[1];
+  if (hex.length <= 4) {
+    hex = hex.split("").map(digit => digit + digit).join("");
+  }
+  return [0, 2, 4].map(start => parseInt(hex.slice(start, start + 2), 16)) as Rgb;
+}
+
+const toHex = (rgb: Rgb) =>
+  "#" + rgb.map(channel => Math.round(channel).toString(16).padStart(2, "0")).join("").toUpperCase();
+
+function relativeLuminance([r, g, b]: Rgb) {
+  const linear = (channel: number) => {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+  };
+  return 0.2126 * linear(r) + 0.7152 * linear(g) + 0.0722 * linear(b);
+}
+
+function ratioOf(foreground: Rgb, background: Rgb) {
+  const [lighter, darker] = [relativeLuminance(foreground), relativeLuminance(background)].sort((a, b) => b - a);
+  return (lighter + 0.05) / (darker + 0.05);
+}
+
+// Between 1 and 21, or null when either color is not a hex color
+export function contrastRatio(foreground: string, background: string) {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  return fg && bg ? ratioOf(fg, bg) : null;
+}
+
+function toHsl([r, g, b]: Rgb): Rgb {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const max = Math.max(red, green, blue);
+  const min = Math.min(red, green, blue);
+  const lightness = (max + min) / 2;
+  if (max === min) {
+    return [0, 0, lightness];
+  }
+
+  const delta = max - min;
+  const saturation = lightness > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+  const hue =
+    max === red ? (green - blue) / delta + (green < blue ? 6 : 0) :
+    max === green ? (blue - red) / delta + 2 :
+    (red - green) / delta + 4;
+  return [hue / 6, saturation, lightness];
+}
+
+function fromHsl([hue, saturation, lightness]: Rgb): Rgb {
+  if (saturation === 0) {
+    return [lightness * 255, lightness * 255, lightness * 255];
+  }
+
+  const q = lightness < 0.5 ? lightness * (1 + saturation) : lightness + saturation - lightness * saturation;
+  const p = 2 * lightness - q;
+  const channel = (offset: number) => {
+    let t = hue + offset;
+    if (t < 0) t += 1;
+    if (t > 1) t -= 1;
+    if (t < 1 / 6) return p + (q - p) * 6 * t;
+    if (t < 1 / 2) return q;
+    if (t < 2 / 3) return p + (q - p) * (2 / 3 - t) * 6;
+    return p;
+  };
+  return [channel(1 / 3) * 255, channel(0) * 255, channel(-1 / 3) * 255];
+}
+
+// Darkens or lightens the foreground, whichever needs the smaller step, until
+// it reaches the required ratio. Black or white always gets there on a solid
+// background, so the search ends at one of them at the latest.
+export function suggestPassingColor(foreground: string, background: string, required: number) {
+  const fg = parseHex(foreground);
+  const bg = parseHex(background);
+  if (!fg || !bg) {
+    return null;
+  }
+  if (ratioOf(fg, bg) >= required) {
+    return toHex(fg);
+  }
+
+  const [hue, saturation, lightness] = toHsl(fg);
+  const candidates: { color: Rgb; distance: number }[] = [];
+  for (const direction of [-1, 1]) {
+    for (let step = 0.01; step <= 1; step += 0.01) {
+      const shifted = lightness + direction * step;
+      if (shifted < 0 || shifted > 1) break;
+      // Round before checking, so the hex that is shown is the one that passes
+      const color = fromHsl([hue, saturation, shifted]).map(Math.round) as Rgb;
+      if (ratioOf(color, bg) >= required) {
+        candidates.push({ color, distance: step });
+        break;
+      }
+    }
+  }
+
+  const fallback: Rgb = ratioOf([0, 0, 0], bg) >= ratioOf([255, 255, 255], bg) ? [0, 0, 0] : [255, 255, 255];
+  const best = candidates.sort((a, b) => a.distance - b.distance)[0];
+  return toHex(best ? best.color : fallback);
+}
+
+// Null when the pair passes or either color can't be read
+function checkPair(field: string, label: string, foreground: string, background: string, required: number): ContrastIssue | null {
+  const ratio = contrastRatio(foreground, background);
+  if (ratio === null || ratio >= required) {
+    return null;
+  }
+
+  return {
+    field,
+    label,
+    foreground: foreground.toUpperCase(),
+    background: background.toUpperCase(),
+    ratio: Math.floor(ratio * 100) / 100,
+    required,
+    suggestion: suggestPassingColor(foreground, background, required)!,
+    token: null
+  };
+}
+
+// Text is held to the body text ratio. Primary and secondary colors fill
+// buttons, links and icons, so they only need the large text one.
+export function checkThemeContrast(colors: ThemeColors): ContrastIssue[] {
+  return [
+    checkPair("textColor", "Text on background", colors.textColor, colors.backgroundColor, CONTRAST_NORMAL),
+    checkPair("primaryColor", "Primary on background", colors.primaryColor, colors.backgroundColor, CONTRAST_LARGE),
+    checkPair("secondaryColor", "Secondary on background", colors.secondaryColor, colors.backgroundColor, CONTRAST_LARGE)
+  ].filter((issue): issue is ContrastIssue => issue !== null);
+}
+
+const isShown = (property: PropertyDefinition, props: Record<string, unknown>) =>
+  !property.condition || props[property.condition.field] === property.condition.value;
+
+// Checks the pairs a component declares, with defaults filled in and theme
+// tokens resolved. Pairs whose foreground or background is hidden by a
+// condition are skipped, since neither is drawn.
+export function checkComponentContrast(
+  definition: ComponentDefinition,
+  props: Record<string, unknown>,
+  colors: ThemeColors
+): ContrastIssue[] {
+  const values: Record<string, unknown> = { ...definition.defaultProps, ...props };
+  const colorOf = (property: PropertyDefinition) => {
+    const value = values[property.name];
+    return isThemeToken(value) ? resolveThemeToken(value, colors) : value;
+  };
+
+  const issues: ContrastIssue[] = [];
+  for (const pair of definition.config.contrastPairs || []) {
+    const foreground = definition.config.properties.find(property => property.name === pair.foreground);
+    const background = definition.config.properties.find(property => property.name === pair.background);
+    if (!foreground || !background || !isShown(foreground, values) || !isShown(background, values)) {
+      continue;
+    }
+
+    const fg = colorOf(foreground);
+    const bg = colorOf(background);
+    if (typeof fg !== "string" || typeof bg !== "string") {
+      continue;
+    }
+
+    const issue = checkPair(
+      foreground.name,
+      `${foreground.label} on ${background.label}`,
+      fg,
+      bg,
+      pair.large ? CONTRAST_LARGE : CONTRAST_NORMAL
+    );
+    if (issue) {
+      const bound = values[foreground.name];
+      issues.push({ ...issue, token: isThemeToken(bound) ? bound : null });
+    }
+  }
+
+  return issues;
+}
+
+export const formatRatio = (ratio: number) => `${ratio.toFixed(2)}:1`;
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { getComponentDefinition } from "./component-registry";
+import { DEFAULT_DATA_SOURCE_LIMIT, dataSourceLimit, resolveDataSource, type DataSourceCatalog } from "./data-sources";
+
+const productGrid = getComponentDefinition("product-grid")!;
+const carousel = getComponentDefinition("carousel")!;
+const featuredCollection = getComponentDefinition("featured-collection")!;
+
+const products = Array.from({ length: 20 }, (_, index) => ({ id: `gid://shopify/Product/${index + 1}` }));
+const catalog: DataSourceCatalog = {
+  products,
+  collections: [{ id: "gid://shopify/Collection/1", productIds: ["gid://shopify/Product/5", "gid://shopify/Product/3", "gid://shopify/Product/99"] }]
+};
+const ids = (resolved: ReturnType<typeof resolveDataSource>) => resolved?.products.map(product => product.id);
+
+describe("dataSourceLimit", () => {
+  it("uses itemsToShow first, then screens of itemsPerView, then the default", () => {
+    expect(dataSourceLimit({ itemsToShow: 4, itemsPerView: 2 })).toBe(4);
+    expect(dataSourceLimit({ itemsPerView: 2 })).toBe(6);
+    expect(dataSourceLimit({})).toBe(DEFAULT_DATA_SOURCE_LIMIT);
+  });
+});
+
+describe("resolveDataSource", () => {
+  it("returns null for components that show no products", () => {
+    expect(resolveDataSource(getComponentDefinition("text-block")!, {}, catalog)).toBeNull();
+  });
+
+  it("resolves picked products in the order they were picked and reports missing ones", () => {
+    const resolved = resolveDataSource(productGrid, {
+      dataSource: "products",
+      productIds: ["gid://shopify/Product/7", "gid://shopify/Product/404", "gid://shopify/Product/2"]
+    }, catalog);
+
+    expect(resolved?.source).toBe("products");
+    expect(ids(resolved)).toEqual(["gid://shopify/Product/7", "gid://shopify/Product/2"]);
+    expect(resolved?.missingProductIds).toEqual(["gid://shopify/Product/404"]);
+  });
+
+  it("resolves a collection in the collection's own order", () => {
+    const resolved = resolveDataSource(productGrid, { dataSource: "collection", collectionId: "gid://shopify/Collection/1" }, catalog);
+
+    expect(resolved?.source).toBe("collection");
+    expect(resolved?.collectionId).toBe("gid://shopify/Collection/1");
+    expect(ids(resolved)).toEqual(["gid://shopify/Product/5", "gid://shopify/Product/3"]);
+    expect(resolved?.missingProductIds).toEqual(["gid://shopify/Product/99"]);
+    expect(resolved?.missingCollectionId).toBeNull();
+  });
+
+  it("reports a picked collection that is no longer in the catalog", () => {
+    const resolved = resolveDataSource(productGrid, { dataSource: "collection", collectionId: "gid://shopify/Collection/2" }, catalog);
+
+    expect(resolved?.products).toEqual([]);
+    expect(resolved?.missingCollectionId).toBe("gid://shopify/Collection/2");
+  });
+
+  it("uses the picker whose condition the props meet, whatever the data source values are called", () => {
+    const resolved = resolveDataSource(featuredCollection, {
+      dataSource: "specific",
+      collectionId: "gid://shopify/Collection/1",
+      specificProducts: ["gid://shopify/Product/1"],
+      itemsToShow: 4
+    }, catalog);
+
+    expect(resolved?.source).toBe("products");
+    expect(ids(resolved)).toEqual(["gid://shopify/Product/1"]);
+  });
+
+  it("falls back to the first catalog products when nothing is picked", () => {
+    const resolved = resolveDataSource(carousel, { dataSource: "mock", itemsPerView: 2 }, catalog);
+
+    expect(resolved?.source).toBe("catalog");
+    expect(resolved?.products).toHaveLength(6);
+  });
+
+  it("limits picked products to the component's item count", () => {
+    const resolved = resolveDataSource(featuredCollection, {
+      dataSource: "specific",
+      specificProducts: products.map(product => product.id),
+      itemsToShow: 3
+    }, catalog);
+
+    expect(ids(resolved)).toEqual(products.slice(0, 3).map(product => product.id));
+  });
+});
@@ -0,0 +1,86 @@
+import type { ComponentDefinition, PropertyDefinition } from "./component-schema";
+
+// Products for a component without itemsToShow or itemsPerView
+export const DEFAULT_DATA_SOURCE_LIMIT = 12;
+// Screens of products a carousel gets, when only itemsPerView is set
+const SCREENS_PER_CAROUSEL = 3;
+
+// The products a component shows, in display order
+export interface ResolvedDataSource {
+  // "catalog" is used when nothing was picked, e.g. the "mock" data source
+  source: "collection" | "products" | "catalog";
+  collectionId: string | null;
+  products: any[];
+  // Picked products that are no longer in the catalog
+  missingProductIds: string[];
+  // The picked collection, when it is no longer in the catalog
+  missingCollectionId: string | null;
+}
+
+export interface DataSourceCatalog {
+  products: { id: string }[];
+  // Collections list their product ids in the collection's own order
+  collections: { id: string; productIds?: string[] }[];
+}
+
+export function dataSourceLimit(props: Record<string, unknown>) {
+  if (typeof props.itemsToShow === "number") {
+    return props.itemsToShow;
+  }
+  if (typeof props.itemsPerView === "number") {
+    return props.itemsPerView * SCREENS_PER_CAROUSEL;
+  }
+  return DEFAULT_DATA_SOURCE_LIMIT;
+}
+
+// Resolves the collection or product picker a component's props select into
+// products. The picker in use is the one whose condition the props meet, so
+// "dataSource" values are not hard-coded here. Returns null for components
+// that show no products.
+export function resolveDataSource(
+  definition: ComponentDefinition,
+  props: Record<string, unknown>,
+  catalog: DataSourceCatalog
+): ResolvedDataSource | null {
+  const pickers = definition.config.properties.filter(
+    property => property.type === "shopify_collection" || property.type === "shopify_products"
+  );
+  if (pickers.length === 0) {
+    return null;
+  }
+
+  const isActive = (property: PropertyDefinition) =>
+    !property.condition || props[property.condition.field] === property.condition.value;
+  const picker = pickers.find(isActive);
+  const limit = dataSourceLimit(props);
+  const productsById = new Map(catalog.products.map(product => [product.id, product]));
+
+  const fromIds = (ids: string[]) => ({
+    products: ids.filter(id => productsById.has(id)).slice(0, limit).map(id => productsById.get(id)!),
+    missingProductIds: ids.filter(id => !productsById.has(id))
+  });
+
+  const value = picker ? props[picker.name] : undefined;
+
+  if (picker?.type === "shopify_products" && Array.isArray(value) && value.length > 0) {
+    return { source: "products", collectionId: null, missingCollectionId: null, ...fromIds(value as string[]) };
+  }
+
+  if (picker?.type === "shopify_collection" && typeof value === "string" && value) {
+    const collection = catalog.collections.find(c => c.id === value);
+    return {
+      source: "collection",
+      collectionId: value,
+      missingCollectionId: collection ? null : value,
+      ...fromIds(collection?.productIds || [])
+    };
+  }
+
+  return {
+    source: "catalog",
+    collectionId: null,
+    products: catalog.products.slice(0, limit),
+    missingProductIds: [],
+    missingCollectionId: null
+  };
+}
@@ -0,0 +1,94 @@
+import { logger } from "./logger.server";
+
+// Sample products for demos and app store review, served by the live config
+// only when DEMO_MODE names one of these catalogs. Real shops never see them.
+const demoCatalogs: Record<string, any[]> = {
+  eyewear: [
+    {
+      id: "gid://shopify/Product/8758188720407",
+      title: "Computer Blue Light Blocking Glasses",
+      handle: "computer-blue-light-blocking-glasses",
+      image: "https://goeye.in/cdn/shop/files/Artboard1_1_540x.png?v=1703680115",
+      price: "29.99",
+      compareAtPrice: "39.99",
+      vendor: "Demo Eyewear"
+    },
+    {
+      id: "gid://shopify/Product/8758188753175",
+      title: "Premium Reading Glasses",
+      handle: "premium-reading-glasses",
+      image: "https://goeye.in/cdn/shop/files/Artboard2_1_540x.png?v=1703680115",
+      price: "24.99",
+      compareAtPrice: "34.99",
+      vendor: "Demo Eyewear"
+    },
+    {
+      id: "gid://shopify/Product/8758188785943",
+      title: "Designer Sunglasses Collection",
+      handle: "designer-sunglasses-collection",
+      image: "https://goeye.in/cdn/shop/files/Artboard3_1_540x.png?v=1703680115",
+      price: "49.99",
+      compareAtPrice: "69.99",
+      vendor: "Demo Eyewear"
+    },
+    {
+      id: "gid://shopify/Product/8758188818711",
+      title: "Anti-Glare Gaming Glasses",
+      handle: "anti-glare-gaming-glasses",
+      image: "https://goeye.in/cdn/shop/files/Artboard4_1_540x.png?v=1703680115",
+      price: "34.99",
+      vendor: "Demo Eyewear"
+    }
+  ],
+  electronics: [
+    {
+      id: "gid://shopify/Product/001",
+      title: "Wireless Earbuds Pro",
+      handle: "wireless-earbuds-pro",
+      image: "https://images.unsplash.com/photo-1590658165737-15a047b7692f?w=400&h=400&fit=crop&crop=center",
+      price: "129.99",
+      vendor: "Demo Electronics"
+    },
+    {
+      id: "gid://shopify/Product/002",
+      title: "Smart Watch Series X",
+      handle: "smart-watch-series-x",
+      image: "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=400&h=400&fit=crop&crop=center",
+      price: "249.99",
+      vendor: "Demo Electronics"
+    },
+    {
+      id: "gid://shopify/Product/003",
+      title: "Premium Phone Case",
+      handle: "premium-phone-case",
+      image: "https://images.unsplash.com/photo-1601593346740-925612772716?w=400&h=400&fit=crop&crop=center",
+      price: "39.99",
+      vendor: "Demo Electronics"
+    },
+    {
+      id: "gid://shopify/Product/004",
+      title: "Bluetooth Speaker Mini",
+      handle: "bluetooth-speaker-mini",
+      image: "https://images.unsplash.com/photo-1608043152269-423dbba4e7e1?w=400&h=400&fit=crop&crop=center",
+      price: "79.99",
+      vendor: "Demo Electronics"
+    }
+  ]
+};
+
+// The demo catalog selected by DEMO_MODE, or null outside demo mode. An
+// unknown name is a configuration mistake, so it is reported and ignored.
+export function getDemoCatalog(): { name: string; products: any[] } | null {
+  const name = process.env.DEMO_MODE?.trim();
+  if (!name) {
+    return null;
+  }
+
+  const products = demoCatalogs[name];
+  if (!products) {
+    logger.warn("DEMO_MODE is not a demo catalog, ignoring it", { demoMode: name, catalogs: Object.keys(demoCatalogs) });
+    return null;
+  }
+
+  return { name, products };
+}
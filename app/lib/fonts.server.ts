@@ -0,0 +1,265 @@
+import { createHash, randomUUID } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import {
+  MaxPartSizeExceededError,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData
+} from "@remix-run/node";
+import { Prisma, type MobileApp } from "@prisma/client";
+import { prisma } from "../db.server";
+import { getOrCreateMobileApp } from "./mobile-app.server";
+import { logger } from "./logger.server";
+import {
+  FONT_FORMATS,
+  FONT_STYLES,
+  FONT_WEIGHTS,
+  type FontFormat,
+  type FontManifestEntry,
+  type FontStyle
+} from "./fonts";
+
+// Uploaded files are kept on local disk, one directory per app
+const FONT_STORAGE_DIR = process.env.FONT_STORAGE_DIR || path.join(process.cwd(), "uploads", "fonts");
+export const MAX_FONT_FILE_SIZE = 5 * 1024 * 1024;
+
+// Letters, digits, spaces and hyphens, so a family name is safe to put in CSS
+const FAMILY_NAME = /^[\p{L}\p{N}][\p{L}\p{N} -]{0,63}$/u;
+
+export interface FontUpload {
+  family: string;
+  weight: number;
+  style: FontStyle;
+  file: File;
+}
+
+// Reads a form that may carry a font file. The file is capped while it is
+// read, so an oversized upload is turned away before it fills memory.
+export async function readFontFormData(request: Request): Promise<{ formData: FormData | null; error: string | null }> {
+  if (!(request.headers.get("Content-Type") || "").startsWith("multipart/form-data")) {
+    return { formData: await request.formData(), error: null };
+  }
+
+  try {
+    const formData = await unstable_parseMultipartFormData(
+      request,
+      unstable_createMemoryUploadHandler({ maxPartSize: MAX_FONT_FILE_SIZE })
+    );
+    return { formData, error: null };
+  } catch (error) {
+    if (error instanceof MaxPartSizeExceededError) {
+      return { formData: null, error: `Font files can be at most ${MAX_FONT_FILE_SIZE / 1024 / 1024} MB` };
+    }
+    throw error;
+  }
+}
+
+// The format a file really has, from its first bytes rather than its name
+export function detectFontFormat(data: Uint8Array): FontFormat | null {
+  const signature = String.fromCharCode(...data.subarray(0, 4));
+  if (signature === "wOF2") return "woff2";
+  if (signature === "wOFF") return "woff";
+  if (signature === "OTTO") return "otf";
+  if (signature === "\x00\x01\x00\x00" || signature === "true") return "ttf";
+  return null;
+}
+
+export function parseFontUpload(formData: FormData): { upload: FontUpload | null; errors: string[] } {
+  const errors: string[] = [];
+
+  const family = ((formData.get("family") as string) || "").trim().replace(/\s+/g, " ");
+  if (!FAMILY_NAME.test(family)) {
+    errors.push("Family name must be 1 to 64 letters, digits, spaces or hyphens");
+  }
+  const weight = Number(formData.get("weight"));
+  if (!FONT_WEIGHTS.includes(weight as typeof FONT_WEIGHTS[number])) {
+    errors.push(`Weight must be one of ${FONT_WEIGHTS.join(", ")}`);
+  }
+  const style = formData.get("style") as FontStyle;
+  if (!FONT_STYLES.includes(style)) {
+    errors.push(`Style must be ${FONT_STYLES.join(" or ")}`);
+  }
+  const file = formData.get("file");
+  if (!(file instanceof File) || file.size === 0) {
+    errors.push("Choose a font file to upload");
+  }
+
+  if (errors.length > 0) {
+    return { upload: null, errors };
+  }
+  return { upload: { family, weight, style, file: file as File }, errors };
+}
+
+const fontFilePath = (appId: string, variantId: string, format: string) =>
+  path.join(FONT_STORAGE_DIR, appId, `${variantId}.${format}`);
+
+// A shop's uploaded families with their variants, alphabetically
+export async function listFonts(shop: string) {
+  return prisma.font.findMany({
+    where: { app: { shop: shop } },
+    include: { variants: { orderBy: [{ weight: 'asc' }, { style: 'asc' }] } },
+    orderBy: { family: 'asc' }
+  });
+}
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+
+// Two uploads of a new family may both try to create it; the second uses the first one's
+async function findOrCreateFont(appId: string, family: string) {
+  const where = { appId_family: { appId, family } };
+  try {
+    return await prisma.font.upsert({ where, create: { appId, family }, update: {} });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      return prisma.font.findUniqueOrThrow({ where });
+    }
+    throw error;
+  }
+}
+
+// Stores the file as the family's variant for its weight and style, replacing
+// the one uploaded before. A replaced file gets a new variant id, so its URL
+// changes and apps download it again. The new file is written before the rows
+// are swapped, so a served variant always has its file.
+export async function addFontVariant(shop: string, upload: FontUpload) {
+  const data = Buffer.from(await upload.file.arrayBuffer());
+  const format = detectFontFormat(data);
+  if (!format) {
+    return { variant: null, replaced: false, error: "The file is not a TTF, OTF, WOFF or WOFF2 font" };
+  }
+
+  const mobileApp = await getOrCreateMobileApp(shop);
+  const font = await findOrCreateFont(mobileApp.id, upload.family);
+
+  const id = randomUUID();
+  const filePath = fontFilePath(mobileApp.id, id, format);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, data);
+
+  let result;
+  try {
+    result = await prisma.$transaction(async (tx) => {
+      const previous = await tx.fontVariant.findUnique({
+        where: { fontId_weight_style: { fontId: font.id, weight: upload.weight, style: upload.style } }
+      });
+      if (previous) {
+        await tx.fontVariant.delete({ where: { id: previous.id } });
+      }
+      const variant = await tx.fontVariant.create({
+        data: {
+          id,
+          fontId: font.id,
+          weight: upload.weight,
+          style: upload.style,
+          format,
+          fileName: upload.file.name,
+          size: data.length,
+          checksum: createHash("sha256").update(data).digest("hex")
+        }
+      });
+      return { variant, previous };
+    });
+  } catch (error) {
+    await rm(filePath, { force: true });
+    // Another upload of the same variant got in between
+    if (isUniqueViolation(error)) {
+      return { variant: null, replaced: false, error: "This font is being uploaded in another window. Try again in a moment." };
+    }
+    throw error;
+  }
+
+  const { variant, previous } = result;
+  if (previous) {
+    await rm(fontFilePath(mobileApp.id, previous.id, previous.format), { force: true });
+  }
+
+  return { variant: { ...variant, family: font.family }, replaced: !!previous, error: null };
+}
+
+// Finds a variant by id, but only if it belongs to the given shop's app
+async function findVariantForShop(shop: string, variantId: string) {
+  return prisma.fontVariant.findFirst({
+    where: { id: variantId, font: { app: { shop: shop } } },
+    include: { font: true }
+  });
+}
+
+// Removing the last variant of a family removes the family too
+export async function deleteFontVariant(shop: string, variantId: string) {
+  const variant = await findVariantForShop(shop, variantId);
+  if (!variant) {
+    return null;
+  }
+
+  await prisma.fontVariant.delete({ where: { id: variant.id } });
+  await prisma.font.deleteMany({ where: { id: variant.fontId, variants: { none: {} } } });
+  await rm(fontFilePath(variant.font.appId, variant.id, variant.format), { force: true });
+
+  return variant;
+}
+
+// Themes that name the family keep doing so, and show a system font until it is uploaded again
+export async function deleteFont(shop: string, fontId: string) {
+  const font = await prisma.font.findFirst({
+    where: { id: fontId, app: { shop: shop } },
+    include: { variants: true }
+  });
+  if (!font) {
+    return null;
+  }
+
+  await prisma.font.delete({ where: { id: font.id } });
+  await Promise.all(font.variants.map(variant =>
+    rm(fontFilePath(font.appId, variant.id, variant.format), { force: true })
+  ));
+
+  return font;
+}
+
+// The file of a variant, or null if the variant is not the shop's or its file is gone
+export async function readFontFile(shop: string, variantId: string) {
+  const variant = await findVariantForShop(shop, variantId);
+  if (!variant) {
+    return null;
+  }
+
+  try {
+    const data = await readFile(fontFilePath(variant.font.appId, variant.id, variant.format));
+    return { variant, data, mimeType: FONT_FORMATS[variant.format as FontFormat].mimeType };
+  } catch (error) {
+    logger.warn("Font file missing from storage", { variantId: variant.id, error });
+    return null;
+  }
+}
+
+// Uploaded families of an app as apps download them, optionally only the named
+// ones. File URLs start with `baseUrl`. Admin pages load them from a stylesheet,
+// which can't send headers, so they pass the client key to put in the URL.
+export async function getFontManifest(
+  mobileApp: Pick<MobileApp, "id" | "shop">,
+  options: { families?: string[]; baseUrl?: string; clientKey?: string | null } = {}
+): Promise<FontManifestEntry[]> {
+  const fonts = await prisma.font.findMany({
+    where: {
+      appId: mobileApp.id,
+      ...(options.families ? { family: { in: options.families } } : {})
+    },
+    include: { variants: { orderBy: [{ weight: 'asc' }, { style: 'asc' }] } },
+    orderBy: { family: 'asc' }
+  });
+  const query = options.clientKey ? `?key=${encodeURIComponent(options.clientKey)}` : "";
+
+  return fonts.map(font => ({
+    family: font.family,
+    variants: font.variants.map(variant => ({
+      id: variant.id,
+      weight: variant.weight,
+      style: variant.style as FontStyle,
+      format: variant.format as FontFormat,
+      url: `${options.baseUrl || ""}/api/fonts/${encodeURIComponent(mobileApp.shop)}/${variant.id}${query}`,
+      size: variant.size,
+      checksum: variant.checksum
+    }))
+  }));
+}
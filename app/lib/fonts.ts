@@ -0,0 +1,64 @@
+// Shapes and helpers for uploaded fonts shared by the admin pages and the live
+// config. A theme's `fontFamily` names either a built-in font or an uploaded family.
+
+export const FONT_WEIGHTS = [100, 200, 300, 400, 500, 600, 700, 800, 900] as const;
+export const FONT_STYLES = ["normal", "italic"] as const;
+export type FontStyle = typeof FONT_STYLES[number];
+
+export const FONT_FORMATS = {
+  ttf: { mimeType: "font/ttf", cssFormat: "truetype" },
+  otf: { mimeType: "font/otf", cssFormat: "opentype" },
+  woff: { mimeType: "font/woff", cssFormat: "woff" },
+  woff2: { mimeType: "font/woff2", cssFormat: "woff2" }
+} as const;
+export type FontFormat = keyof typeof FONT_FORMATS;
+
+const WEIGHT_NAMES: Record<number, string> = {
+  100: "Thin",
+  200: "Extra Light",
+  300: "Light",
+  400: "Regular",
+  500: "Medium",
+  600: "Semi Bold",
+  700: "Bold",
+  800: "Extra Bold",
+  900: "Black"
+};
+
+// What apps get for each family: enough to download every file once and
+// register it under the family name
+export interface FontManifestVariant {
+  id: string;
+  weight: number;
+  style: FontStyle;
+  format: FontFormat;
+  url: string;
+  size: number;
+  // SHA-256 of the file; a different checksum means a different file
+  checksum: string;
+}
+
+export interface FontManifestEntry {
+  family: string;
+  variants: FontManifestVariant[];
+}
+
+// e.g. "Bold Italic", or "Regular" for 400 normal
+export function describeVariant(variant: { weight: number; style: string }) {
+  const name = WEIGHT_NAMES[variant.weight] || String(variant.weight);
+  return variant.style === "italic" ? `${name} Italic` : name;
+}
+
+// @font-face rules that let a browser render the families of a manifest
+export function fontFaceCss(manifest: FontManifestEntry[]) {
+  return manifest
+    .flatMap(entry => entry.variants.map(variant =>
+      `@font-face { font-family: "${entry.family}"; src: url("${variant.url}") format("${FONT_FORMATS[variant.format].cssFormat}"); ` +
+      `font-weight: ${variant.weight}; font-style: ${variant.style}; font-display: swap; }`
+    ))
+    .join("\n");
+}
+
+// CSS font-family value with system fallbacks, for fonts that are missing or still loading
+export const fontStack = (family: string) =>
+  `"${family}", -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif`;
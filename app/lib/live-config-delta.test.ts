@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import { diffLiveConfig, fingerprintLiveConfig, type LiveConfig } from "./live-config-delta";
+
+const hash = (value: unknown) => JSON.stringify(value);
+
+const banner = { id: "c1", componentId: "banner", props: { title: "Sale" } };
+const grid = { id: "c2", componentId: "product-grid", props: { columns: 2 } };
+const text = { id: "c3", componentId: "text-block", props: { text: "Hello" } };
+const hat = { id: "p1", title: "Hat" };
+const scarf = { id: "p2", title: "Scarf" };
+const woolScarf = { id: "p2", title: "Wool scarf" };
+const gloves = { id: "p3", title: "Gloves" };
+
+function config(components: { id: string }[], overrides: Partial<LiveConfig> = {}): LiveConfig {
+  return {
+    id: "home",
+    components,
+    pages: [
+      { id: "home", name: "Home", components },
+      { id: "about", name: "About", components: [text] }
+    ],
+    products: [hat, scarf],
+    theme: null,
+    ...overrides
+  };
+}
+
+describe("diffLiveConfig", () => {
+  it("reports no changes against the config it was fingerprinted from", () => {
+    const current = config([banner, grid]);
+    const delta = diffLiveConfig(fingerprintLiveConfig(current, hash), current, hash);
+
+    expect(delta.components).toEqual({ changed: [], removedIds: [], order: ["c1", "c2"] });
+    expect(delta.pages.changed).toEqual([]);
+    expect(delta.products.changed).toEqual([]);
+    expect(delta.theme).toBeNull();
+  });
+
+  it("sends added and changed components whole", () => {
+    const previous = fingerprintLiveConfig(config([banner]), hash);
+    const edited = { ...banner, props: { title: "Summer sale" } };
+    const delta = diffLiveConfig(previous, config([edited, grid]), hash);
+
+    expect(delta.components.changed).toEqual([edited, grid]);
+    expect(delta.components.removedIds).toEqual([]);
+  });
+
+  it("lists the ids of removed components", () => {
+    const previous = fingerprintLiveConfig(config([banner, grid]), hash);
+    const delta = diffLiveConfig(previous, config([grid]), hash);
+
+    expect(delta.components.changed).toEqual([]);
+    expect(delta.components.removedIds).toEqual(["c1"]);
+    expect(delta.components.order).toEqual(["c2"]);
+  });
+
+  it("sends only the new order when components are reordered", () => {
+    const previous = fingerprintLiveConfig(config([banner, grid]), hash);
+    const delta = diffLiveConfig(previous, config([grid, banner]), hash);
+
+    expect(delta.components.changed).toEqual([]);
+    expect(delta.components.removedIds).toEqual([]);
+    expect(delta.components.order).toEqual(["c2", "c1"]);
+  });
+
+  it("sends changed pages with a component delta and leaves unchanged ones out", () => {
+    const previous = fingerprintLiveConfig(config([banner, grid]), hash);
+    const delta = diffLiveConfig(previous, config([grid, banner]), hash);
+
+    expect(delta.pages.changed.map(page => page.id)).toEqual(["home"]);
+    expect(delta.pages.changed[0].name).toBe("Home");
+    expect(delta.pages.changed[0].components).toEqual({ changed: [], removedIds: [], order: ["c2", "c1"] });
+  });
+
+  it("handles added, removed and reordered pages", () => {
+    const previous = fingerprintLiveConfig(config([banner]), hash);
+    const current = config([banner]);
+    const contact = { id: "contact", name: "Contact", components: [text] };
+    current.pages = [contact, current.pages[0]];
+    const delta = diffLiveConfig(previous, current, hash);
+
+    expect(delta.pages.changed.map(page => page.id)).toEqual(["contact"]);
+    expect(delta.pages.changed[0].components.changed).toEqual([text]);
+    expect(delta.pages.removedIds).toEqual(["about"]);
+    expect(delta.pages.order).toEqual(["contact", "home"]);
+  });
+
+  it("diffs products like components", () => {
+    const previous = fingerprintLiveConfig(config([banner]), hash);
+    const delta = diffLiveConfig(previous, config([banner], { products: [woolScarf, gloves] }), hash);
+
+    expect(delta.products.changed.map(product => product.id)).toEqual(["p2", "p3"]);
+    expect(delta.products.removedIds).toEqual(["p1"]);
+  });
+});
@@ -0,0 +1,96 @@
+// Changes between two live configs, so polling devices only download what changed.
+// Past configs are not kept whole: a fingerprint of ids and item hashes is
+// enough to tell which items of the current config are new or changed.
+
+interface IdentifiedItem {
+  id: string;
+}
+
+// Changed and added items, the ids of removed ones, and the new order
+export interface ListDelta<T> {
+  changed: T[];
+  removedIds: string[];
+  order: string[];
+}
+
+interface LiveConfigPage extends IdentifiedItem {
+  components: IdentifiedItem[];
+  [key: string]: unknown;
+}
+
+export interface LiveConfig {
+  components: IdentifiedItem[];
+  pages: LiveConfigPage[];
+  products: IdentifiedItem[];
+  [key: string]: unknown;
+}
+
+export interface LiveConfigDelta {
+  components: ListDelta<IdentifiedItem>;
+  // Pages whose settings or components changed, with a component delta in place of the component list
+  pages: ListDelta<Omit<LiveConfigPage, "components"> & { components: ListDelta<IdentifiedItem> }>;
+  products: ListDelta<IdentifiedItem>;
+  [key: string]: unknown;
+}
+
+export interface ItemFingerprint {
+  id: string;
+  hash: string;
+}
+
+export interface LiveConfigFingerprint {
+  components: ItemFingerprint[];
+  // A page's hash covers its components too
+  pages: (ItemFingerprint & { components: ItemFingerprint[] })[];
+  products: ItemFingerprint[];
+}
+
+// Content hash of any JSON value; the same value always gets the same hash
+export type JsonHasher = (value: unknown) => string;
+
+const fingerprintList = (items: IdentifiedItem[], hash: JsonHasher): ItemFingerprint[] =>
+  items.map(item => ({ id: item.id, hash: hash(item) }));
+
+export function fingerprintLiveConfig(config: LiveConfig, hash: JsonHasher): LiveConfigFingerprint {
+  return {
+    components: fingerprintList(config.components, hash),
+    pages: config.pages.map(page => ({ id: page.id, hash: hash(page), components: fingerprintList(page.components, hash) })),
+    products: fingerprintList(config.products, hash)
+  };
+}
+
+function diffList<T extends IdentifiedItem>(previous: ItemFingerprint[], current: T[], hash: JsonHasher): ListDelta<T> {
+  const previousHashes = new Map(previous.map(item => [item.id, item.hash]));
+  const currentIds = new Set(current.map(item => item.id));
+
+  return {
+    changed: current.filter(item => previousHashes.get(item.id) !== hash(item)),
+    removedIds: previous.filter(item => !currentIds.has(item.id)).map(item => item.id),
+    order: current.map(item => item.id)
+  };
+}
+
+// Everything outside the component, page and product lists is small and sent as is
+export function diffLiveConfig(previous: LiveConfigFingerprint, current: LiveConfig, hash: JsonHasher): LiveConfigDelta {
+  const { components, pages, products, ...rest } = current;
+  const previousPages = new Map(previous.pages.map(page => [page.id, page]));
+
+  const pageDeltas = pages.flatMap(page => {
+    const previousPage = previousPages.get(page.id);
+    if (previousPage?.hash === hash(page)) {
+      return [];
+    }
+    return [{ ...page, components: diffList(previousPage?.components || [], page.components, hash) }];
+  });
+
+  return {
+    ...rest,
+    components: diffList(previous.components, components, hash),
+    pages: {
+      changed: pageDeltas,
+      removedIds: previous.pages.filter(page => !pages.some(p => p.id === page.id)).map(page => page.id),
+      order: pages.map(page => page.id)
+    },
+    products: diffList(previous.products, products, hash)
+  };
+}
@@ -0,0 +1,67 @@
+import { createHash } from "node:crypto";
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { fingerprintLiveConfig, type LiveConfig, type LiveConfigFingerprint } from "./live-config-delta";
+
+// Devices further behind than this get the full config instead of a delta
+const KEPT_CONFIG_VERSIONS = 20;
+
+export const hashJson = (value: unknown) =>
+  createHash("sha256").update(JSON.stringify(value)).digest("hex").slice(0, 32);
+
+// How current the catalog is changes with time alone, so it doesn't make a
+// new version; devices get the latest status whenever the config changes
+export function hashLiveConfig(config: LiveConfig) {
+  return hashJson({ ...config, catalogStatus: undefined });
+}
+
+// The version number of a config, numbering it as the next version when it
+// differs from the last one served to the shop's devices. Null when a
+// concurrent request numbered a different config first.
+export async function recordLiveConfigVersion(shop: string, config: LiveConfig, hash: string): Promise<number | null> {
+  const latest = await prisma.liveConfigVersion.findFirst({
+    where: { shop },
+    orderBy: { version: 'desc' },
+    select: { version: true, hash: true }
+  });
+
+  if (latest?.hash === hash) {
+    return latest.version;
+  }
+
+  const version = (latest?.version || 0) + 1;
+  try {
+    await prisma.liveConfigVersion.create({
+      data: {
+        shop,
+        version,
+        hash,
+        fingerprint: fingerprintLiveConfig(config, hashJson) as unknown as Prisma.InputJsonValue
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      const concurrent = await prisma.liveConfigVersion.findUnique({
+        where: { shop_version: { shop, version } },
+        select: { hash: true }
+      });
+      return concurrent?.hash === hash ? version : null;
+    }
+    throw error;
+  }
+
+  await prisma.liveConfigVersion.deleteMany({
+    where: { shop, version: { lte: version - KEPT_CONFIG_VERSIONS } }
+  });
+
+  return version;
+}
+
+// What a past version is diffed against, or null once it is no longer kept
+export async function getLiveConfigFingerprint(shop: string, version: number) {
+  const row = await prisma.liveConfigVersion.findUnique({
+    where: { shop_version: { shop, version } },
+    select: { fingerprint: true }
+  });
+  return row ? row.fingerprint as unknown as LiveConfigFingerprint : null;
+}
@@ -0,0 +1,146 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+
+// Structured server logging. Every line carries the request's correlation id
+// and shop when logged while a request is handled; values that may hold
+// credentials or customer data are redacted. JSON lines in production,
+// readable lines in development.
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+const isProduction = process.env.NODE_ENV === "production";
+const minimumLevel: LogLevel = (process.env.LOG_LEVEL as LogLevel) in LEVELS
+  ? process.env.LOG_LEVEL as LogLevel
+  : isProduction ? "info" : "debug";
+
+// Field names whose values are never logged
+const REDACTED_KEYS = /token|secret|password|authorization|cookie|api_?key|client_?key|email|phone|address|first_?name|last_?name|customer/i;
+// Shopify access tokens and keys, wherever they show up in text
+const TOKEN_PATTERN = /\b(shpat|shpua|shpca|shppa|shpss|mab_pk)_[A-Za-z0-9_-]+/g;
+const MAX_DEPTH = 5;
+const MAX_ARRAY_ITEMS = 20;
+
+export function redact(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") {
+    return value.replace(TOKEN_PATTERN, "$1_[REDACTED]");
+  }
+  if (value instanceof Error) {
+    return { name: value.name, message: redact(value.message), ...(isProduction ? {} : { stack: value.stack }) };
+  }
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return "[Truncated]";
+  }
+  if (Array.isArray(value)) {
+    const items = value.slice(0, MAX_ARRAY_ITEMS).map(item => redact(item, depth + 1));
+    return value.length > MAX_ARRAY_ITEMS ? [...items, `[${value.length - MAX_ARRAY_ITEMS} more]`] : items;
+  }
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, REDACTED_KEYS.test(key) ? "[REDACTED]" : redact(item, depth + 1)])
+  );
+}
+
+interface RequestContext {
+  requestId: string;
+  shop?: string;
+  [key: string]: unknown;
+}
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const LEVEL_COLORS: Record<LogLevel, string> = { debug: "\x1b[90m", info: "\x1b[36m", warn: "\x1b[33m", error: "\x1b[31m" };
+
+function write(level: LogLevel, message: string, bound: LogFields, fields?: LogFields) {
+  if (LEVELS[level] < LEVELS[minimumLevel]) {
+    return;
+  }
+
+  // Library code passes the shop itself, since it also runs outside of requests
+  const { requestId, shop, ...data } = redact({ ...requestContext.getStore(), ...bound, ...fields }) as LogFields;
+  const stream = level === "error" || level === "warn" ? process.stderr : process.stdout;
+
+  if (isProduction) {
+    stream.write(JSON.stringify({ time: new Date().toISOString(), level, msg: message, requestId, shop, ...data }) + "\n");
+    return;
+  }
+
+  const time = new Date().toISOString().slice(11, 23);
+  const context = [requestId && `req=${String(requestId).slice(0, 8)}`, shop && `shop=${shop}`].filter(Boolean).join(" ");
+  const details = Object.entries(data)
+    .map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+    .join(" ");
+  stream.write(
+    `${time} ${LEVEL_COLORS[level]}${level.toUpperCase().padEnd(5)}\x1b[0m ${context ? `\x1b[90m${context}\x1b[0m ` : ""}${message}${details ? ` \x1b[90m${details}\x1b[0m` : ""}\n`
+  );
+}
+
+function createLogger(bound: LogFields = {}): Logger {
+  return {
+    debug: (message, fields) => write("debug", message, bound, fields),
+    info: (message, fields) => write("info", message, bound, fields),
+    warn: (message, fields) => write("warn", message, bound, fields),
+    error: (message, fields) => write("error", message, bound, fields),
+    child: (fields) => createLogger({ ...bound, ...fields })
+  };
+}
+
+// Picks up the current request's context by itself, so modules can import it directly
+export const logger = createLogger();
+
+// Adds fields to every line logged for the rest of the current request, e.g. the shop once authenticated
+export function addLogContext(fields: { shop?: string } & LogFields) {
+  const store = requestContext.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+// Route wrapper for loaders and actions: runs the handler with a correlation id,
+// taken from X-Request-Id when a proxy set one, and returns it in the same header.
+export function withRequestContext<Args extends { request: Request; params: Record<string, string | undefined> }, Result>(
+  handler: (args: Args) => Promise<Result>
+) {
+  return (args: Args): Promise<Result> => {
+    const requestId = args.request.headers.get("X-Request-Id") || randomUUID();
+    const context: RequestContext = { requestId, ...(args.params.shop ? { shop: args.params.shop } : {}) };
+
+    return requestContext.run(context, async () => {
+      const started = Date.now();
+      const url = new URL(args.request.url);
+      try {
+        const result = await handler(args);
+        if (result instanceof Response) {
+          try {
+            result.headers.set("X-Request-Id", requestId);
+          } catch {
+            // Some responses have immutable headers
+          }
+          logger.debug("Request handled", { method: args.request.method, path: url.pathname, status: result.status, ms: Date.now() - started });
+        }
+        return result;
+      } catch (error) {
+        // Remix turns thrown responses (redirects, auth) into the response itself
+        if (!(error instanceof Response)) {
+          logger.error("Request failed", { method: args.request.method, path: url.pathname, error, ms: Date.now() - started });
+        }
+        throw error;
+      }
+    });
+  };
+}
@@ -0,0 +1,85 @@
+import { prisma } from "../db.server";
+import { ensureClientKey, generateClientKey, generatePreviewKey } from "./client-keys.server";
+
+// Every shop has exactly one MobileApp row; create it lazily the first time
+// the merchant saves anything from the builder.
+export async function getOrCreateMobileApp(shop: string) {
+  const existingApp = await prisma.mobileApp.findUnique({
+    where: { shop: shop }
+  });
+
+  if (existingApp) {
+    return ensureClientKey(existingApp);
+  }
+
+  return prisma.mobileApp.create({
+    data: {
+      shop: shop,
+      name: `${shop} Mobile App`,
+      bundleId: `com.${shop.replace(/[^a-zA-Z0-9]/g, '')}.app`,
+      status: 'DRAFT',
+      clientKey: generateClientKey(),
+      previewKey: generatePreviewKey()
+    }
+  });
+}
+
+// Finds a page by id, but only if it belongs to the given shop's app
+export async function findPageForShop(shop: string, pageId: string) {
+  return prisma.appPage.findFirst({
+    where: {
+      id: pageId,
+      app: { shop: shop }
+    }
+  });
+}
+
+// Row ids for the submitted components of a page, null for a page being created.
+// A component's canvas id becomes its row id, and loading a page uses the row
+// ids as canvas ids, so a component keeps its id from save to save even though
+// the rows are written anew. Ids a component of another page already has, or
+// repeated ones, are left to the database to generate.
+export async function getPageComponentRowIds(pageId: string | null, canvasIds: (string | undefined)[]) {
+  const candidates = canvasIds.filter((id): id is string => Boolean(id));
+  const taken = await prisma.pageComponent.findMany({
+    where: { id: { in: candidates }, ...(pageId ? { pageId: { not: pageId } } : {}) },
+    select: { id: true }
+  });
+  const unavailable = new Set(taken.map(row => row.id));
+
+  return canvasIds.map(id => {
+    if (!id || unavailable.has(id)) {
+      return undefined;
+    }
+    unavailable.add(id);
+    return id;
+  });
+}
+
+// Returns a slug that is not yet used by another page of the app
+export async function getUniquePageSlug(appId: string, name: string, excludePageId?: string) {
+  const baseSlug = slugify(name) || "page";
+  let slug = baseSlug;
+  let suffix = 2;
+
+  const findBySlug = (candidate: string) => prisma.appPage.findUnique({
+    where: {
+      appId_slug: {
+        appId: appId,
+        slug: candidate
+      }
+    }
+  });
+
+  let existingPage = await findBySlug(slug);
+  while (existingPage && existingPage.id !== excludePageId) {
+    slug = `${baseSlug}-${suffix++}`;
+    existingPage = await findBySlug(slug);
+  }
+
+  return slug;
+}
+
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
+}
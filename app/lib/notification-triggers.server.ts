@@ -0,0 +1,56 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { logger } from "./logger.server";
+
+export interface PriceDrop {
+  variantId: string;
+  variantTitle: string;
+  oldPrice: string;
+  newPrice: string;
+}
+
+// Variants that got cheaper between two versions of a catalog product
+export function findPriceDrops(before: any, after: any): PriceDrop[] {
+  const previousPrices = new Map<string, string>(
+    (before?.variants || []).map((variant: any) => [variant.id, variant.price?.amount])
+  );
+
+  return (after?.variants || []).flatMap((variant: any) => {
+    const oldPrice = previousPrices.get(variant.id);
+    const newPrice = variant.price?.amount;
+    if (!oldPrice || !newPrice || !(parseFloat(newPrice) < parseFloat(oldPrice))) {
+      return [];
+    }
+    return [{ variantId: variant.id, variantTitle: variant.title, oldPrice, newPrice }];
+  });
+}
+
+// Queues a notification for every active template of the given type in the
+// shop's app. Returns how many were queued; shops without such a template get none.
+export async function raiseNotificationTrigger(
+  shop: string,
+  type: "BACK_IN_STOCK" | "PRICE_DROP",
+  trigger: { productId: string; variantId?: string | null; payload: Record<string, unknown> }
+) {
+  const templates = await prisma.pushNotificationTemplate.findMany({
+    where: { app: { shop: shop }, type, isActive: true },
+    select: { id: true }
+  });
+
+  if (templates.length === 0) {
+    return 0;
+  }
+
+  await prisma.notificationTrigger.createMany({
+    data: templates.map(template => ({
+      templateId: template.id,
+      type,
+      productId: trigger.productId,
+      variantId: trigger.variantId ?? null,
+      payload: trigger.payload as Prisma.InputJsonValue
+    }))
+  });
+
+  logger.info("Queued notifications", { shop, type, productId: trigger.productId, count: templates.length });
+  return templates.length;
+}
@@ -0,0 +1,242 @@
+import { json, type AppLoadContext, type LoaderFunctionArgs } from "@remix-run/node";
+import { publicApiHeadersForShop } from "./client-keys.server";
+import { logger } from "./logger.server";
+
+// Token buckets for the public API. Each request takes one token from the
+// bucket of its IP, and once its client key is accepted one from the bucket of
+// the key and of the shop; a bucket holds `capacity` tokens and regains
+// `refillPerSecond` of them every second.
+
+export type RateLimitScope = "ip" | "clientKey" | "shop";
+
+export interface RateLimitRule {
+  scope: RateLimitScope;
+  capacity: number;
+  refillPerSecond: number;
+}
+
+export interface TakeResult {
+  allowed: boolean;
+  remaining: number;
+  // When a denied request would next be allowed
+  retryAfterMs: number;
+}
+
+export interface ThrottledCounts {
+  total: number;
+  byScope: Record<RateLimitScope, number>;
+}
+
+// Where buckets and throttle counters live. The in-process store below is
+// enough for one server; several servers need a shared one, e.g. on Redis.
+export interface RateLimitStore {
+  take(key: string, rule: RateLimitRule, now: number): Promise<TakeResult>;
+  recordThrottled(shop: string, scope: RateLimitScope, now: number): Promise<void>;
+  getThrottledCounts(shop: string, since: number): Promise<ThrottledCounts>;
+}
+
+// One IP may be a whole office or carrier NAT, so it gets the smallest but not a tiny budget
+export const PUBLIC_API_RATE_LIMITS: RateLimitRule[] = [
+  { scope: "ip", capacity: 120, refillPerSecond: 2 },
+  { scope: "clientKey", capacity: 1200, refillPerSecond: 20 },
+  { scope: "shop", capacity: 6000, refillPerSecond: 100 }
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+// Throttle counters are kept per hour, for a day
+const KEPT_THROTTLE_HOURS = 24;
+
+export function createMemoryRateLimitStore(): RateLimitStore {
+  const buckets = new Map<string, { tokens: number; updatedAt: number; rule: RateLimitRule }>();
+  // shop -> hour -> scope -> count
+  const throttled = new Map<string, Map<number, Record<RateLimitScope, number>>>();
+
+  const refill = (key: string, rule: RateLimitRule, now: number) => {
+    const bucket = buckets.get(key);
+    if (!bucket) {
+      return rule.capacity;
+    }
+    return Math.min(rule.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000) * rule.refillPerSecond);
+  };
+
+  // Full buckets carry no information, so they are dropped instead of growing the map forever
+  let lastSweep = 0;
+  const sweep = (now: number) => {
+    if (now - lastSweep < 60 * 1000) return;
+    lastSweep = now;
+    for (const [key, bucket] of buckets) {
+      if (refill(key, bucket.rule, now) >= bucket.rule.capacity) {
+        buckets.delete(key);
+      }
+    }
+  };
+
+  return {
+    async take(key, rule, now) {
+      sweep(now);
+      const tokens = refill(key, rule, now);
+
+      if (tokens < 1) {
+        buckets.set(key, { tokens, updatedAt: now, rule });
+        return { allowed: false, remaining: 0, retryAfterMs: Math.ceil(((1 - tokens) / rule.refillPerSecond) * 1000) };
+      }
+
+      buckets.set(key, { tokens: tokens - 1, updatedAt: now, rule });
+      return { allowed: true, remaining: Math.floor(tokens - 1), retryAfterMs: 0 };
+    },
+
+    async recordThrottled(shop, scope, now) {
+      const hour = Math.floor(now / HOUR_MS);
+      const hours = throttled.get(shop) || new Map<number, Record<RateLimitScope, number>>();
+      const counts = hours.get(hour) || { ip: 0, clientKey: 0, shop: 0 };
+      counts[scope]++;
+      hours.set(hour, counts);
+      for (const oldHour of hours.keys()) {
+        if (oldHour <= hour - KEPT_THROTTLE_HOURS) hours.delete(oldHour);
+      }
+      throttled.set(shop, hours);
+    },
+
+    async getThrottledCounts(shop, since) {
+      const result: ThrottledCounts = { total: 0, byScope: { ip: 0, clientKey: 0, shop: 0 } };
+      const sinceHour = Math.floor(since / HOUR_MS);
+      for (const [hour, counts] of throttled.get(shop) || []) {
+        if (hour < sinceHour) continue;
+        for (const scope of Object.keys(counts) as RateLimitScope[]) {
+          result.byScope[scope] += counts[scope];
+          result.total += counts[scope];
+        }
+      }
+      return result;
+    }
+  };
+}
+
+declare global {
+  var __rateLimitStore__: RateLimitStore;
+}
+
+// Kept on the global so development reloads keep the buckets
+if (!global.__rateLimitStore__) {
+  global.__rateLimitStore__ = createMemoryRateLimitStore();
+}
+
+export function getRateLimitStore() {
+  return global.__rateLimitStore__;
+}
+
+// Swaps the store, e.g. for a shared one when running several servers
+export function setRateLimitStore(store: RateLimitStore) {
+  global.__rateLimitStore__ = store;
+}
+
+declare module "@remix-run/node" {
+  interface AppLoadContext {
+    // Address of the socket the request came in on, for servers that pass it
+    // from getLoadContext, e.g. `{ clientAddress: req.socket.remoteAddress }`
+    clientAddress?: string;
+  }
+}
+
+// Proxies in front of the app that append to X-Forwarded-For, usually just one.
+// 0 means clients connect to the app directly.
+const configuredHops = Number(process.env.TRUSTED_PROXY_HOPS);
+const TRUSTED_PROXY_HOPS = process.env.TRUSTED_PROXY_HOPS && Number.isInteger(configuredHops) && configuredHops >= 0
+  ? configuredHops
+  : 1;
+
+// The client's address as reported by the proxy in front of the app. Clients
+// can send X-Forwarded-For themselves, so only the entry our own proxy appended
+// is trusted, counting from the right. Without a proxy no header can be
+// trusted and the socket address is used; remix-serve doesn't pass it, so such
+// setups need a server that does.
+export function getClientIp(request: Request, context?: AppLoadContext) {
+  if (TRUSTED_PROXY_HOPS === 0) {
+    return context?.clientAddress || "unknown";
+  }
+  const forwarded = request.headers.get("X-Forwarded-For");
+  if (forwarded) {
+    const hops = forwarded.split(",").map(hop => hop.trim());
+    return hops[Math.max(0, hops.length - TRUSTED_PROXY_HOPS)];
+  }
+  return request.headers.get("X-Real-IP") || request.headers.get("Fly-Client-IP") || "unknown";
+}
+
+function requestKeys(request: Request, shop: string, context?: AppLoadContext): Record<RateLimitScope, string> {
+  const clientKey = request.headers.get("X-Client-Key") || new URL(request.url).searchParams.get("key") || "none";
+  return {
+    ip: `ip:${getClientIp(request, context)}`,
+    // Keys are per shop, but a wrong key must not share the bucket of the right one
+    clientKey: `key:${shop}:${clientKey}`,
+    shop: `shop:${shop}`
+  };
+}
+
+// Takes a token from the request's bucket for every rule, stopping at the first empty one
+async function takeTokens(request: Request, shop: string, rules: RateLimitRule[], now: number, context?: AppLoadContext) {
+  const store = getRateLimitStore();
+  const keys = requestKeys(request, shop, context);
+
+  for (const rule of rules) {
+    const result = await store.take(keys[rule.scope], rule, now);
+    if (!result.allowed) {
+      return { scope: rule.scope, retryAfter: Math.max(1, Math.ceil(result.retryAfterMs / 1000)) };
+    }
+  }
+  return null;
+}
+
+const tooManyRequests = (retryAfter: number, headers: Record<string, string>) =>
+  json(
+    { error: "Too many requests", retryAfter },
+    { status: 429, headers: { ...headers, "Retry-After": String(retryAfter) } }
+  );
+
+// Charges a request whose client key was accepted to its key's and its shop's
+// buckets. Returns the 429 response to send when one is empty, with the CORS
+// headers the authorization returned.
+export async function checkRateLimit(
+  request: Request,
+  shop: string,
+  headers: Record<string, string>,
+  rules: RateLimitRule[] = PUBLIC_API_RATE_LIMITS.filter(rule => rule.scope !== "ip")
+) {
+  const now = Date.now();
+  const denied = await takeTokens(request, shop, rules, now);
+  if (!denied) {
+    return null;
+  }
+
+  await getRateLimitStore().recordThrottled(shop, denied.scope, now);
+  logger.warn("Request throttled", { shop, scope: denied.scope, path: new URL(request.url).pathname });
+  return tooManyRequests(denied.retryAfter, headers);
+}
+
+// Route middleware: wraps a public loader or action so throttled requests get
+// a 429 before it runs. Nothing about the request is verified yet, so it is
+// limited per IP only: made-up keys must not use up a shop's buckets. Handlers
+// call checkRateLimit once the key is accepted.
+export function withRateLimit<Args extends LoaderFunctionArgs, Result>(
+  handler: (args: Args) => Promise<Result>,
+  rules: RateLimitRule[] = PUBLIC_API_RATE_LIMITS.filter(rule => rule.scope === "ip")
+) {
+  return async (args: Args): Promise<Result | Response> => {
+    const now = Date.now();
+    const denied = await takeTokens(args.request, args.params.shop || "unknown", rules, now, args.context);
+    if (!denied) {
+      return handler(args);
+    }
+
+    // Throttles only count towards shops that exist, so made-up shops don't pile up
+    const { mobileApp, headers } = await publicApiHeadersForShop(args.request, args.params.shop);
+    if (mobileApp) {
+      await getRateLimitStore().recordThrottled(mobileApp.shop, denied.scope, now);
+    }
+    logger.warn("Request throttled", { scope: denied.scope, path: new URL(args.request.url).pathname });
+    return tooManyRequests(denied.retryAfter, headers);
+  };
+}
+
+export async function getThrottledCounts(shop: string, sinceMs: number = KEPT_THROTTLE_HOURS * HOUR_MS) {
+  return getRateLimitStore().getThrottledCounts(shop, Date.now() - sinceMs);
+}
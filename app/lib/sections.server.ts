@@ -0,0 +1,223 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { findComponentDefinition, getComponentDefinition } from "./component-registry";
+import { migrateProps } from "./component-schema";
+
+// One component of a saved section, in the same shape the builder submits
+export interface SectionComponent {
+  componentId: string;
+  props: Record<string, any>;
+  schemaVersion: number;
+}
+
+// Sections of an app with their components upgraded to the current schemas
+export async function listSections(appId: string) {
+  const sections = await prisma.section.findMany({
+    where: { appId },
+    include: { uses: { select: { pageId: true } } },
+    orderBy: { name: 'asc' }
+  });
+
+  return sections.map(section => ({
+    id: section.id,
+    name: section.name,
+    components: (section.components as unknown as SectionComponent[]).map(comp => {
+      const definition = getComponentDefinition(comp.componentId);
+      if (!definition) {
+        return comp;
+      }
+      const migrated = migrateProps(definition, comp.props, comp.schemaVersion);
+      return { componentId: comp.componentId, props: migrated.props, schemaVersion: migrated.version };
+    }),
+    pageCount: new Set(section.uses.map(use => use.pageId)).size,
+    updatedAt: section.updatedAt
+  }));
+}
+
+export async function createSection(appId: string, name: string, components: { componentId: string; props: Record<string, any> }[]) {
+  return prisma.section.create({
+    data: {
+      appId,
+      name,
+      components: components.map(comp => ({
+        componentId: comp.componentId,
+        props: comp.props || {},
+        schemaVersion: getComponentDefinition(comp.componentId)?.version ?? 1
+      })) as Prisma.InputJsonValue
+    }
+  });
+}
+
+// Deleting a section keeps its uses on pages as ordinary, detached components
+export async function deleteSection(shop: string, sectionId: string) {
+  const section = await prisma.section.findFirst({
+    where: { id: sectionId, app: { shop: shop } }
+  });
+
+  if (!section) {
+    return null;
+  }
+
+  await prisma.$transaction([
+    prisma.pageComponent.updateMany({
+      where: { sectionId },
+      data: { sectionId: null, sectionInstance: null }
+    }),
+    prisma.section.delete({ where: { id: sectionId } })
+  ]);
+
+  return section;
+}
+
+// Link fields for a submitted component. Links to sections of other apps or
+// to deleted sections are dropped, so the component is saved detached.
+export function sectionLinkFields(comp: { sectionId?: string; sectionInstance?: string }, sectionIds: Set<string>) {
+  if (comp.sectionId && comp.sectionInstance && sectionIds.has(comp.sectionId)) {
+    return { sectionId: comp.sectionId, sectionInstance: comp.sectionInstance };
+  }
+  return { sectionId: null, sectionInstance: null };
+}
+
+type StoredPageComponent = Prisma.PageComponentGetPayload<{ include: { component: true } }>;
+
+const toSectionComponent = (comp: StoredPageComponent): SectionComponent => ({
+  componentId: findComponentDefinition(comp.component)?.id || comp.componentId,
+  props: comp.props as Record<string, any>,
+  schemaVersion: comp.schemaVersion
+});
+
+// After a page is saved, its linked sections take the content they have on
+// that page, and every other use of them on any page is rewritten to match.
+// Returns the number of other pages that changed.
+export async function syncLinkedSections(pageId: string) {
+  const linked = await prisma.pageComponent.findMany({
+    where: { pageId, sectionId: { not: null } },
+    include: { component: true },
+    orderBy: { order: 'asc' }
+  });
+
+  // The first use of a section on the page is the one that was edited
+  const sources = new Map<string, { instance: string; components: SectionComponent[] }>();
+  for (const comp of linked) {
+    const source = sources.get(comp.sectionId!);
+    if (!source) {
+      sources.set(comp.sectionId!, { instance: comp.sectionInstance!, components: [toSectionComponent(comp)] });
+    } else if (source.instance === comp.sectionInstance) {
+      source.components.push(toSectionComponent(comp));
+    }
+  }
+
+  if (sources.size === 0) {
+    return 0;
+  }
+
+  for (const [sectionId, source] of sources) {
+    await prisma.section.update({
+      where: { id: sectionId },
+      data: { components: source.components as unknown as Prisma.InputJsonValue }
+    });
+  }
+
+  const uses = await prisma.pageComponent.findMany({
+    where: { sectionId: { in: Array.from(sources.keys()) } },
+    select: { pageId: true },
+    distinct: ['pageId']
+  });
+
+  let changedPages = 0;
+  for (const { pageId: usePageId } of uses) {
+    if (await rewriteSectionUses(usePageId, sources)) {
+      if (usePageId !== pageId) changedPages++;
+    }
+  }
+
+  return changedPages;
+}
+
+// Replaces every use of the given sections on a page with the section content,
+// keeping each use where its first component was
+async function rewriteSectionUses(pageId: string, sources: Map<string, { instance: string; components: SectionComponent[] }>) {
+  const current = await prisma.pageComponent.findMany({
+    where: { pageId },
+    include: { component: true },
+    orderBy: { order: 'asc' }
+  });
+
+  // Components that stay keep their rows' data; section content is written fresh
+  const next: (StoredPageComponent | (SectionComponent & { sectionId: string; sectionInstance: string }))[] = [];
+  const emitted = new Set<string>();
+  let changed = false;
+
+  for (const comp of current) {
+    const source = comp.sectionId ? sources.get(comp.sectionId) : undefined;
+    if (!source || comp.sectionInstance === source.instance) {
+      next.push(comp);
+      continue;
+    }
+    if (emitted.has(comp.sectionInstance!)) {
+      continue;
+    }
+    emitted.add(comp.sectionInstance!);
+
+    const run = current.filter(c => c.sectionInstance === comp.sectionInstance);
+    const sameContent = JSON.stringify(run.map(toSectionComponent).map(c => [c.componentId, c.props])) ===
+      JSON.stringify(source.components.map(c => [c.componentId, c.props]));
+    if (sameContent) {
+      next.push(...run);
+      continue;
+    }
+
+    changed = true;
+    for (const sectionComp of source.components) {
+      next.push({ ...sectionComp, sectionId: comp.sectionId!, sectionInstance: comp.sectionInstance! });
+    }
+  }
+
+  if (!changed) {
+    return false;
+  }
+
+  const data: Prisma.PageComponentCreateManyInput[] = [];
+  for (const [order, comp] of next.entries()) {
+    if ("pageId" in comp) {
+      data.push({
+        id: comp.id,
+        pageId,
+        componentId: comp.componentId,
+        order,
+        props: comp.props as Prisma.InputJsonValue,
+        schemaVersion: comp.schemaVersion,
+        styles: (comp.styles ?? {}) as Prisma.InputJsonValue,
+        sectionId: comp.sectionId,
+        sectionInstance: comp.sectionInstance
+      });
+      continue;
+    }
+
+    const definition = getComponentDefinition(comp.componentId);
+    const dbComponent = definition && await prisma.component.findFirst({
+      where: { name: definition.name, type: definition.type }
+    });
+    if (!dbComponent) {
+      continue;
+    }
+    data.push({
+      pageId,
+      componentId: dbComponent.id,
+      order,
+      props: comp.props,
+      schemaVersion: comp.schemaVersion,
+      styles: {},
+      sectionId: comp.sectionId,
+      sectionInstance: comp.sectionInstance
+    });
+  }
+
+  await prisma.$transaction([
+    prisma.pageComponent.deleteMany({ where: { pageId } }),
+    prisma.pageComponent.createMany({ data }),
+    prisma.appPage.update({ where: { id: pageId }, data: { updatedAt: new Date() } })
+  ]);
+
+  return true;
+}
@@ -0,0 +1,340 @@
+import type { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { logger } from "./logger.server";
+
+// Catalog snapshot of a shop's products and collections, stored in the
+// database so it survives restarts and is shared by every app process
+interface ShopifyData {
+  products: any[];
+  collections: any[];
+  lastUpdated: Date;
+  freshness: CatalogFreshness;
+}
+
+interface CatalogMoney {
+  amount: string;
+  currencyCode: string;
+}
+
+// A product as the catalog stores it, from a sync or a product webhook
+export interface CatalogProductData {
+  id: string;
+  title: string;
+  handle: string;
+  description: string;
+  images: { url: string; altText: string }[];
+  options: { name: string; values: string[] }[];
+  variants: {
+    id: string;
+    title: string;
+    price: CatalogMoney;
+    compareAtPrice: CatalogMoney | null;
+    availableForSale: boolean;
+    selectedOptions: { name: string; value: string }[];
+    inventoryItemId: string | null;
+  }[];
+  vendor: string;
+  productType: string;
+  tags: string[];
+}
+
+export interface CatalogCollectionData {
+  id: string;
+  title: string;
+  handle: string;
+  description: string;
+  image: { url: string; altText: string | null } | null;
+  productsCount: number;
+  // Every product of the collection, in its own sort order
+  productIds: string[];
+}
+
+// "stale" snapshots are older than CATALOG_MAX_AGE_MS, "invalidated" ones were
+// changed in Shopify since they were taken (reported by webhooks)
+export type CatalogFreshness = "fresh" | "stale" | "invalidated" | "missing";
+
+export interface CatalogStatus {
+  freshness: CatalogFreshness;
+  syncedAt: Date | null;
+  invalidatedAt: Date | null;
+  invalidatedBy: string | null;
+}
+
+export const CATALOG_MAX_AGE_MS = 30 * 60 * 1000;
+
+function getFreshness(state: { syncedAt: Date | null; invalidatedAt: Date | null } | null): CatalogFreshness {
+  if (!state?.syncedAt) {
+    return "missing";
+  }
+  if (state.invalidatedAt && state.invalidatedAt > state.syncedAt) {
+    return "invalidated";
+  }
+  return Date.now() - state.syncedAt.getTime() > CATALOG_MAX_AGE_MS ? "stale" : "fresh";
+}
+
+// Replaces the shop's snapshot with products and collections fetched by a sync
+// that started at `startedAt`. Products that webhooks wrote since then are
+// newer than what the sync read, so they are kept. The snapshot counts as taken
+// when the sync started, so changes reported while it ran still invalidate it.
+export async function setShopifyData(
+  shop: string,
+  products: CatalogProductData[],
+  collections: CatalogCollectionData[],
+  startedAt: Date
+) {
+  const kept = await prisma.$transaction(async (tx) => {
+    const updatedSince = await tx.catalogProduct.findMany({
+      where: { shop, updatedAt: { gt: startedAt } },
+      select: { productId: true }
+    });
+    const keptIds = new Set(updatedSince.map(product => product.productId));
+
+    await tx.catalogProduct.deleteMany({ where: { shop, updatedAt: { lte: startedAt } } });
+    await tx.catalogProduct.createMany({
+      data: products
+        .filter(product => !keptIds.has(product.id))
+        .map(product => ({
+          shop,
+          productId: product.id,
+          title: product.title,
+          handle: product.handle,
+          vendor: product.vendor || null,
+          data: product as unknown as Prisma.InputJsonValue
+        }))
+    });
+    await tx.catalogCollection.deleteMany({ where: { shop } });
+    await tx.catalogCollection.createMany({
+      data: collections.map(collection => ({
+        shop,
+        collectionId: collection.id,
+        title: collection.title,
+        handle: collection.handle,
+        data: collection as unknown as Prisma.InputJsonValue
+      }))
+    });
+    await tx.catalogState.upsert({
+      where: { shop },
+      create: { shop, syncedAt: startedAt },
+      update: { syncedAt: startedAt }
+    });
+
+    return keptIds.size;
+  });
+
+  logger.info("Catalog saved", { shop, products: products.length, collections: collections.length, keptFromWebhooks: kept });
+}
+
+// The shop's snapshot, however old it is; callers decide what to do with stale data
+export async function getShopifyData(shop: string): Promise<ShopifyData | null> {
+  const state = await prisma.catalogState.findUnique({ where: { shop } });
+  if (!state?.syncedAt) {
+    logger.debug("Catalog miss", { shop });
+    return null;
+  }
+
+  const [products, collections] = await Promise.all([
+    prisma.catalogProduct.findMany({ where: { shop }, orderBy: { title: 'asc' } }),
+    prisma.catalogCollection.findMany({ where: { shop }, orderBy: { title: 'asc' } })
+  ]);
+
+  const freshness = getFreshness(state);
+  logger.debug("Catalog hit", { shop, products: products.length, syncedAt: state.syncedAt, freshness });
+
+  return {
+    products: products.map(product => product.data),
+    collections: collections.map(collection => collection.data),
+    lastUpdated: state.syncedAt,
+    freshness
+  };
+}
+
+export async function getCatalogStatus(shop: string): Promise<CatalogStatus> {
+  const state = await prisma.catalogState.findUnique({ where: { shop } });
+
+  return {
+    freshness: getFreshness(state),
+    syncedAt: state?.syncedAt ?? null,
+    invalidatedAt: state?.invalidatedAt ?? null,
+    invalidatedBy: state?.invalidatedBy ?? null
+  };
+}
+
+// Marks the snapshot as out of date, e.g. after a collections/update webhook.
+// The data stays available until the next sync replaces it.
+export async function invalidateShopifyData(shop: string, reason: string) {
+  const invalidatedAt = new Date();
+
+  await prisma.catalogState.upsert({
+    where: { shop },
+    create: { shop, invalidatedAt, invalidatedBy: reason },
+    update: { invalidatedAt, invalidatedBy: reason }
+  });
+
+  logger.info("Catalog invalidated", { shop, reason });
+}
+
+// Converts a product webhook payload (REST shape) to the shape the catalog stores.
+// Payloads carry no currency, so the caller passes the one the shop's prices are in.
+export function productFromWebhook(payload: any, currencyCode = "USD"): CatalogProductData {
+  const optionNames: string[] = (payload.options || []).map((option: any) => option.name);
+
+  return {
+    id: payload.admin_graphql_api_id,
+    title: payload.title,
+    handle: payload.handle,
+    description: payload.body_html ? payload.body_html.replace(/<[^>]*>/g, '') : "",
+    images: (payload.images || []).map((image: any) => ({
+      url: image.src,
+      altText: image.alt || payload.title
+    })),
+    options: (payload.options || []).map((option: any) => ({ name: option.name, values: option.values || [] })),
+    variants: (payload.variants || []).map((variant: any) => ({
+      id: variant.admin_graphql_api_id,
+      title: variant.title,
+      price: { amount: variant.price, currencyCode },
+      compareAtPrice: variant.compare_at_price ? { amount: variant.compare_at_price, currencyCode } : null,
+      availableForSale: variant.inventory_policy === "continue" || variant.inventory_management == null || variant.inventory_quantity > 0,
+      selectedOptions: optionNames
+        .map((name, index) => ({ name, value: variant[`option${index + 1}`] }))
+        .filter(option => option.value != null),
+      inventoryItemId: variant.inventory_item_id ? `gid://shopify/InventoryItem/${variant.inventory_item_id}` : null
+    })),
+    vendor: payload.vendor || "",
+    productType: payload.product_type || "",
+    tags: typeof payload.tags === "string" ? payload.tags.split(",").map((tag: string) => tag.trim()).filter(Boolean) : []
+  };
+}
+
+// Applies a created or updated product to the snapshot
+export async function upsertCatalogProduct(shop: string, product: CatalogProductData) {
+  const where = { shop_productId: { shop, productId: product.id } };
+  const fields = {
+    title: product.title,
+    handle: product.handle,
+    vendor: product.vendor || null,
+    data: product as unknown as Prisma.InputJsonValue
+  };
+
+  await prisma.catalogProduct.upsert({
+    where,
+    create: { shop, productId: product.id, ...fields },
+    update: fields
+  });
+}
+
+export async function removeCatalogProduct(shop: string, productId: string) {
+  await prisma.$transaction([
+    prisma.catalogProduct.deleteMany({ where: { shop, productId } }),
+    prisma.catalogInventoryLevel.deleteMany({ where: { shop, productId } })
+  ]);
+}
+
+// Remembers which product and variant the inventory items of a product belong to
+export async function linkInventoryItems(shop: string, productId: string, items: { inventoryItemId: string; variantId: string }[]) {
+  for (const item of items) {
+    await prisma.catalogInventoryLevel.updateMany({
+      where: { shop, inventoryItemId: item.inventoryItemId },
+      data: { productId, variantId: item.variantId }
+    });
+  }
+}
+
+// Stores the stock of an inventory item at a location. Returns the item's
+// stock summed over every location it was seen at, before and after; the total
+// before is null the first time the item is seen anywhere.
+export async function recordInventoryLevel(
+  shop: string,
+  level: { inventoryItemId: string; locationId: string; available: number; productId?: string | null; variantId?: string | null }
+) {
+  return prisma.$transaction(async (tx) => {
+    const levels = await tx.catalogInventoryLevel.findMany({
+      where: { shop, inventoryItemId: level.inventoryItemId }
+    });
+    const previous = levels.find(existing => existing.locationId === level.locationId);
+    const productId = level.productId ?? previous?.productId ?? null;
+    const variantId = level.variantId ?? previous?.variantId ?? null;
+
+    await tx.catalogInventoryLevel.upsert({
+      where: { shop_inventoryItemId_locationId: { shop, inventoryItemId: level.inventoryItemId, locationId: level.locationId } },
+      create: { shop, inventoryItemId: level.inventoryItemId, locationId: level.locationId, available: level.available, productId, variantId },
+      update: { available: level.available, productId, variantId }
+    });
+
+    const previousTotal = levels.length > 0 ? levels.reduce((sum, existing) => sum + existing.available, 0) : null;
+    return {
+      previousTotal,
+      total: (previousTotal ?? 0) - (previous?.available ?? 0) + level.available
+    };
+  });
+}
+
+export async function findInventoryItem(shop: string, inventoryItemId: string) {
+  return prisma.catalogInventoryLevel.findFirst({
+    where: { shop, inventoryItemId, productId: { not: null } },
+    select: { productId: true, variantId: true }
+  });
+}
+
+export async function getCatalogProduct(shop: string, productId: string) {
+  const product = await prisma.catalogProduct.findUnique({
+    where: { shop_productId: { shop, productId } }
+  });
+  return product ? product.data as unknown as CatalogProductData : null;
+}
+
+export const CATALOG_SEARCH_PAGE_SIZE = 20;
+
+// One page of the stored products whose title, handle or vendor contains the query
+export async function searchCatalogProducts(shop: string, options: { query?: string; page?: number; pageSize?: number } = {}) {
+  const query = options.query?.trim() || "";
+  const pageSize = options.pageSize ?? CATALOG_SEARCH_PAGE_SIZE;
+  const where: Prisma.CatalogProductWhereInput = query
+    ? {
+      shop,
+      OR: [
+        { title: { contains: query } },
+        { handle: { contains: query } },
+        { vendor: { contains: query } }
+      ]
+    }
+    : { shop };
+
+  const total = await prisma.catalogProduct.count({ where });
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  const page = Math.min(Math.max(1, options.page ?? 1), pageCount);
+  const products = await prisma.catalogProduct.findMany({
+    where,
+    orderBy: { title: 'asc' },
+    skip: (page - 1) * pageSize,
+    take: pageSize
+  });
+
+  return {
+    products: products.map(product => product.data as unknown as CatalogProductData),
+    query,
+    page,
+    pageCount,
+    total
+  };
+}
+
+// Stored products by id, in the order asked for; ids not in the snapshot are left out
+export async function getCatalogProducts(shop: string, productIds: string[]) {
+  if (productIds.length === 0) {
+    return [];
+  }
+
+  const products = await prisma.catalogProduct.findMany({
+    where: { shop, productId: { in: productIds } }
+  });
+  const byId = new Map(products.map(product => [product.productId, product.data as unknown as CatalogProductData]));
+  return productIds.filter(id => byId.has(id)).map(id => byId.get(id)!);
+}
+
+export async function getCatalogCollections(shop: string) {
+  const collections = await prisma.catalogCollection.findMany({
+    where: { shop },
+    orderBy: { title: 'asc' }
+  });
+  return collections.map(collection => collection.data as unknown as CatalogCollectionData);
+}
@@ -0,0 +1,157 @@
+import type { PageType, Prisma } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-remix/server";
+import { prisma } from "../db.server";
+import { findPageForShop, getOrCreateMobileApp, getUniquePageSlug } from "./mobile-app.server";
+import { buildPageSnapshot } from "./template-versions.server";
+import { pageTypes } from "./utils";
+import { parseThemeInput } from "./themes.server";
+import {
+  TEMPLATE_BUNDLE_FORMAT,
+  TEMPLATE_BUNDLE_VERSION,
+  collectShopifyReferences,
+  type ResolvedBundleComponent,
+  type ShopifyReference,
+  type TemplateBundle
+} from "./template-bundle";
+
+const CHECK_NODES_QUERY = `
+  query CheckNodes($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      id
+    }
+  }
+`;
+
+// Exports the saved draft of a page together with the app's active theme
+export async function exportTemplateBundle(shop: string, pageId: string): Promise<TemplateBundle | null> {
+  const page = await findPageForShop(shop, pageId);
+  const snapshot = page && await buildPageSnapshot(page.id);
+  if (!snapshot) {
+    return null;
+  }
+
+  const mobileApp = await prisma.mobileApp.findUnique({
+    where: { shop: shop },
+    include: { activeTheme: true }
+  });
+  const theme = mobileApp?.activeTheme;
+
+  return {
+    format: TEMPLATE_BUNDLE_FORMAT,
+    version: TEMPLATE_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceShop: shop,
+    page: snapshot.page,
+    components: snapshot.components,
+    theme: theme ? {
+      name: theme.name,
+      primaryColor: theme.primaryColor,
+      secondaryColor: theme.secondaryColor,
+      backgroundColor: theme.backgroundColor,
+      textColor: theme.textColor,
+      fontFamily: theme.fontFamily
+    } : null
+  };
+}
+
+// Ids that the shop's Admin API does not know, e.g. products of the shop the bundle came from
+async function findMissingShopifyIds(admin: Pick<AdminApiContext, "graphql">, ids: string[]): Promise<Set<string>> {
+  const missing = new Set<string>();
+
+  // nodes() accepts at most 250 ids per query
+  for (let i = 0; i < ids.length; i += 250) {
+    const chunk = ids.slice(i, i + 250);
+    const response = await admin.graphql(CHECK_NODES_QUERY, { variables: { ids: chunk } });
+    const data = await response.json();
+    const nodes: ({ id: string } | null)[] = data.data?.nodes || [];
+    chunk.forEach((id, index) => {
+      if (!nodes[index]) missing.add(id);
+    });
+  }
+
+  return missing;
+}
+
+// Creates a new draft page from a validated bundle. The bundle's theme is added
+// to the app's themes unless one with the same name exists, but not activated.
+export async function importTemplateBundle(
+  shop: string,
+  admin: Pick<AdminApiContext, "graphql">,
+  bundle: TemplateBundle,
+  components: ResolvedBundleComponent[]
+) {
+  // The theme goes through the same checks as one saved on the themes page
+  const theme = bundle.theme
+    ? parseThemeInput(new Map(Object.entries({ ...bundle.theme, fontFamily: bundle.theme.fontFamily || "Inter" })))
+    : null;
+  if (theme && !theme.input) {
+    return { page: null, missingReferences: [], importedTheme: null, errors: theme.errors.map(error => `Theme: ${error}`) };
+  }
+
+  const references = collectShopifyReferences(components);
+  const missingIds = await findMissingShopifyIds(admin, Array.from(new Set(references.map(ref => ref.id))));
+  const missingReferences: ShopifyReference[] = references.filter(ref => missingIds.has(ref.id));
+
+  const mobileApp = await getOrCreateMobileApp(shop);
+  const slug = await getUniquePageSlug(mobileApp.id, bundle.page.slug || bundle.page.name);
+  const pageCount = await prisma.appPage.count({
+    where: { appId: mobileApp.id }
+  });
+
+  // Registry ids are stable across shops, but Component rows are per database
+  const dbComponentIds = new Map<string, string>();
+  for (const { definition } of components) {
+    if (dbComponentIds.has(definition.id)) continue;
+
+    const existingComponent = await prisma.component.findFirst({
+      where: { name: definition.name, type: definition.type }
+    });
+    const dbComponent = existingComponent || await prisma.component.create({
+      data: {
+        name: definition.name,
+        type: definition.type,
+        category: definition.category,
+        description: definition.description || "",
+        config: definition.config as unknown as Prisma.InputJsonValue,
+        defaultProps: definition.defaultProps as Prisma.InputJsonValue,
+        icon: definition.icon,
+        isActive: true
+      }
+    });
+    dbComponentIds.set(definition.id, dbComponent.id);
+  }
+
+  let importedTheme = null;
+  if (theme?.input) {
+    const existingTheme = await prisma.theme.findFirst({
+      where: { appId: mobileApp.id, name: theme.input.name }
+    });
+    if (!existingTheme) {
+      importedTheme = await prisma.theme.create({
+        data: { appId: mobileApp.id, ...theme.input }
+      });
+    }
+  }
+
+  const page = await prisma.appPage.create({
+    data: {
+      appId: mobileApp.id,
+      name: bundle.page.name,
+      slug: slug,
+      type: pageTypes.some(t => t.value === bundle.page.type) ? bundle.page.type as PageType : 'CUSTOM',
+      order: pageCount,
+      isHomePage: pageCount === 0,
+      components: {
+        create: components.map(({ definition, props }, index) => ({
+          componentId: dbComponentIds.get(definition.id)!,
+          order: index,
+          props: props,
+          schemaVersion: definition.version,
+          styles: {}
+        }))
+      }
+    }
+  });
+
+  return { page, missingReferences, importedTheme, errors: [] as string[] };
+}
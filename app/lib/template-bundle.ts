@@ -0,0 +1,137 @@
+import { findComponentDefinition, getComponentDefinition } from "./component-registry";
+import { migrateProps, validateProps, type ComponentDefinition } from "./component-schema";
+import type { TemplateSnapshotComponent } from "./template-diff";
+
+// Bump when the bundle layout changes, and teach parseTemplateBundle to read the old one
+export const TEMPLATE_BUNDLE_FORMAT = "mobile-app-builder/template";
+export const TEMPLATE_BUNDLE_VERSION = 1;
+
+export interface TemplateBundleTheme {
+  name: string;
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;
+}
+
+// A template exported from one shop, to be imported into the same or another one
+export interface TemplateBundle {
+  format: typeof TEMPLATE_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string;
+  sourceShop: string;
+  page: {
+    name: string;
+    slug: string;
+    type: string;
+  };
+  components: TemplateSnapshotComponent[];
+  theme: TemplateBundleTheme | null;
+}
+
+// A bundle component matched to this app's registry, with props upgraded to the current schema
+export interface ResolvedBundleComponent {
+  definition: ComponentDefinition;
+  props: Record<string, any>;
+}
+
+// A product or collection id used in the props of a bundle component
+export interface ShopifyReference {
+  componentIndex: number;
+  componentName: string;
+  field: string;
+  kind: "product" | "collection";
+  id: string;
+}
+
+const THEME_FIELDS: (keyof TemplateBundleTheme)[] = ["name", "primaryColor", "secondaryColor", "backgroundColor", "textColor", "fontFamily"];
+
+const isPlainObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Validates an uploaded bundle. Components are matched by registry id first and
+// by name and type second, so bundles survive a component being renamed.
+export function parseTemplateBundle(input: unknown): { bundle: TemplateBundle | null; components: ResolvedBundleComponent[]; errors: string[] } {
+  const fail = (message: string) => ({ bundle: null, components: [], errors: [message] });
+
+  if (!isPlainObject(input) || input.format !== TEMPLATE_BUNDLE_FORMAT) {
+    return fail("This file is not a template export");
+  }
+  if (typeof input.version !== "number" || input.version > TEMPLATE_BUNDLE_VERSION) {
+    return fail(`Template exports of version ${input.version} are not supported, the latest supported version is ${TEMPLATE_BUNDLE_VERSION}`);
+  }
+  if (!isPlainObject(input.page) || typeof input.page.name !== "string" || !input.page.name.trim()) {
+    return fail("The export has no page name");
+  }
+  if (!Array.isArray(input.components)) {
+    return fail("The export has no component list");
+  }
+  if (input.theme != null && !(isPlainObject(input.theme) && THEME_FIELDS.every(field => typeof input.theme[field] === "string"))) {
+    return fail("The theme in the export is incomplete");
+  }
+
+  const errors: string[] = [];
+  const components: ResolvedBundleComponent[] = [];
+
+  input.components.forEach((comp: unknown, index: number) => {
+    if (!isPlainObject(comp) || !isPlainObject(comp.props)) {
+      errors.push(`Component ${index + 1} is malformed`);
+      return;
+    }
+
+    const definition = (typeof comp.componentId === "string" && getComponentDefinition(comp.componentId)) ||
+      (typeof comp.name === "string" && typeof comp.type === "string" && findComponentDefinition({ name: comp.name, type: comp.type }));
+    if (!definition) {
+      errors.push(`Component ${index + 1} uses unknown component "${comp.componentId ?? comp.name}"`);
+      return;
+    }
+
+    const schemaVersion = typeof comp.schemaVersion === "number" ? comp.schemaVersion : 1;
+    if (schemaVersion > definition.version) {
+      errors.push(`${definition.name} (#${index + 1}) was exported from a newer version of the app`);
+      return;
+    }
+
+    const { props } = migrateProps(definition, comp.props, schemaVersion);
+    for (const error of validateProps(definition.config.properties, props)) {
+      errors.push(`${definition.name} (#${index + 1}): ${error.message}`);
+    }
+    components.push({ definition, props });
+  });
+
+  if (errors.length > 0) {
+    return { bundle: null, components: [], errors };
+  }
+
+  const page = {
+    name: input.page.name.trim(),
+    slug: typeof input.page.slug === "string" ? input.page.slug : "",
+    type: typeof input.page.type === "string" ? input.page.type : "CUSTOM"
+  };
+  return { bundle: { ...input, page } as TemplateBundle, components, errors };
+}
+
+// Product and collection ids the components point at, which only exist in the shop they were picked in
+export function collectShopifyReferences(components: ResolvedBundleComponent[]): ShopifyReference[] {
+  const references: ShopifyReference[] = [];
+
+  components.forEach(({ definition, props }, componentIndex) => {
+    for (const property of definition.config.properties) {
+      const value = props[property.name];
+      const add = (kind: ShopifyReference["kind"], id: unknown) => {
+        if (typeof id === "string" && id.startsWith("gid://shopify/")) {
+          references.push({ componentIndex, componentName: definition.name, field: property.label, kind, id });
+        }
+      };
+
+      if (property.type === "shopify_collection") {
+        add("collection", value);
+      } else if (property.type === "shopify_products" && Array.isArray(value)) {
+        value.forEach(id => add("product", id));
+      }
+    }
+  });
+
+  return references;
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { diffProps, diffSnapshots, summarizeDiff, type TemplateSnapshot, type TemplateSnapshotComponent } from "./template-diff";
+
+const component = (componentId: string, props: Record<string, any> = {}): TemplateSnapshotComponent => ({
+  componentId,
+  type: componentId.toUpperCase(),
+  name: componentId,
+  props,
+  order: 0
+});
+
+const snapshot = (...components: TemplateSnapshotComponent[]): TemplateSnapshot => ({
+  page: { name: "Home", slug: "home", type: "HOME" },
+  components
+});
+
+describe("diffSnapshots", () => {
+  it("lists every component as added for a first version", () => {
+    expect(diffSnapshots(null, snapshot(component("banner"), component("text")))).toEqual([
+      { kind: "added", componentName: "banner", position: 1 },
+      { kind: "added", componentName: "text", position: 2 }
+    ]);
+  });
+
+  it("reports nothing for identical snapshots", () => {
+    const page = snapshot(component("banner", { title: "Sale" }));
+    expect(diffSnapshots(page, page)).toEqual([]);
+  });
+
+  it("reports changed props of a component that stayed", () => {
+    const before = snapshot(component("banner", { title: "Sale", color: "#fff" }));
+    const after = snapshot(component("banner", { title: "Summer sale", color: "#fff" }));
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { kind: "changed", componentName: "banner", position: 1, changedProps: ["title"] }
+    ]);
+  });
+
+  it("aligns components by component id, so an insertion doesn't show as changes further down", () => {
+    const before = snapshot(component("banner"), component("grid"), component("text"));
+    const after = snapshot(component("banner"), component("countdown"), component("grid"), component("text"));
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { kind: "added", componentName: "countdown", position: 2 }
+    ]);
+  });
+
+  it("reports removed components at their old position", () => {
+    const before = snapshot(component("banner"), component("grid"), component("text"));
+    const after = snapshot(component("banner"), component("text"));
+
+    expect(diffSnapshots(before, after)).toEqual([
+      { kind: "removed", componentName: "grid", position: 2 }
+    ]);
+  });
+
+  it("shows a move as a removal and an addition", () => {
+    const before = snapshot(component("banner"), component("text"));
+    const after = snapshot(component("text"), component("banner"));
+
+    expect(diffSnapshots(before, after).map(entry => entry.kind).sort()).toEqual(["added", "removed"]);
+  });
+});
+
+describe("diffProps", () => {
+  it("compares values deeply and includes keys on either side", () => {
+    expect(diffProps({ ids: ["a"], title: "x", gone: 1 }, { ids: ["a"], title: "y", added: true })).toEqual(["title", "gone", "added"]);
+  });
+});
+
+describe("summarizeDiff", () => {
+  it("counts entries by kind", () => {
+    expect(summarizeDiff([])).toBe("No component changes");
+    expect(summarizeDiff([
+      { kind: "added", componentName: "banner", position: 1 },
+      { kind: "added", componentName: "text", position: 2 },
+      { kind: "changed", componentName: "grid", position: 3, changedProps: ["columns"] }
+    ])).toBe("2 added, 1 changed");
+  });
+});
@@ -0,0 +1,84 @@
+// Shape of a published page snapshot stored in TemplateVersion.snapshot
+export interface TemplateSnapshotComponent {
+  // Id of the page component, which stays the same from save to save; missing
+  // in snapshots published before it was kept
+  id?: string;
+  componentId: string;
+  type: string;
+  name: string;
+  props: Record<string, any>;
+  order: number;
+  // Missing in snapshots published before schema versions existed, meaning 1
+  schemaVersion?: number;
+}
+
+export interface TemplateSnapshot {
+  page: {
+    name: string;
+    slug: string;
+    type: string;
+  };
+  components: TemplateSnapshotComponent[];
+}
+
+export type TemplateDiffEntry =
+  | { kind: "added" | "removed"; componentName: string; position: number }
+  | { kind: "changed"; componentName: string; position: number; changedProps: string[] };
+
+// Compares two snapshots component by component. Page components are
+// recreated on every save, so they are aligned by the longest common
+// subsequence of their component ids rather than by database id.
+export function diffSnapshots(previous: TemplateSnapshot | null, next: TemplateSnapshot): TemplateDiffEntry[] {
+  const before = previous?.components || [];
+  const after = next.components;
+
+  // lcs[i][j] = length of the common subsequence of before[i..] and after[j..]
+  const lcs: number[][] = Array.from({ length: before.length + 1 }, () => new Array(after.length + 1).fill(0));
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lcs[i][j] = before[i].componentId === after[j].componentId
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const entries: TemplateDiffEntry[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i].componentId === after[j].componentId) {
+      const changedProps = diffProps(before[i].props, after[j].props);
+      if (changedProps.length > 0) {
+        entries.push({ kind: "changed", componentName: after[j].name, position: j + 1, changedProps });
+      }
+      i++;
+      j++;
+    } else if (j < after.length && (i >= before.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      entries.push({ kind: "added", componentName: after[j].name, position: j + 1 });
+      j++;
+    } else {
+      entries.push({ kind: "removed", componentName: before[i].name, position: i + 1 });
+      i++;
+    }
+  }
+
+  return entries;
+}
+
+export function diffProps(before: Record<string, any>, after: Record<string, any>): string[] {
+  const keys = new Set([...Object.keys(before || {}), ...Object.keys(after || {})]);
+  return Array.from(keys).filter(key => JSON.stringify(before?.[key]) !== JSON.stringify(after?.[key]));
+}
+
+export function summarizeDiff(entries: TemplateDiffEntry[]): string {
+  if (entries.length === 0) {
+    return "No component changes";
+  }
+
+  const count = (kind: TemplateDiffEntry["kind"]) => entries.filter(e => e.kind === kind).length;
+  return [
+    count("added") && `${count("added")} added`,
+    count("removed") && `${count("removed")} removed`,
+    count("changed") && `${count("changed")} changed`
+  ].filter(Boolean).join(", ");
+}
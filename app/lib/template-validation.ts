@@ -0,0 +1,68 @@
+import { getComponentDefinition } from "./component-registry";
+import { validateProps } from "./component-schema";
+
+// One problem with a submitted page component. `field` is null when the
+// component as a whole is rejected, e.g. because its type is unknown.
+export interface ComponentValidationError {
+  componentIndex: number;
+  // Canvas id of the component, so the builder can point at it
+  componentKey: string | null;
+  field: string | null;
+  message: string;
+}
+
+export interface SubmittedComponent {
+  id?: string;
+  componentId: string;
+  type?: string;
+  props: Record<string, any>;
+  // Present while the component is part of a linked section
+  sectionId?: string;
+  sectionInstance?: string;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Strictly validates the pageComponents payload of save-template against the
+// component registry: unknown components, wrongly typed props, out-of-range
+// numbers and invalid select options are all rejected.
+export function validatePageComponents(input: unknown): { components: SubmittedComponent[]; errors: ComponentValidationError[] } {
+  if (!Array.isArray(input)) {
+    return {
+      components: [],
+      errors: [{ componentIndex: -1, componentKey: null, field: null, message: "Page components must be a list" }]
+    };
+  }
+
+  const errors: ComponentValidationError[] = [];
+
+  input.forEach((comp, index) => {
+    const componentKey = isPlainObject(comp) && typeof comp.id === "string" ? comp.id : null;
+    const fail = (field: string | null, message: string) => {
+      errors.push({ componentIndex: index, componentKey, field, message });
+    };
+
+    if (!isPlainObject(comp) || typeof comp.componentId !== "string") {
+      fail(null, `Component ${index + 1} is missing its component id`);
+      return;
+    }
+
+    const definition = getComponentDefinition(comp.componentId);
+    if (!definition) {
+      fail(null, `Component ${index + 1} uses unknown component "${comp.componentId}"`);
+      return;
+    }
+
+    if (comp.props !== undefined && !isPlainObject(comp.props)) {
+      fail(null, `${definition.name} (#${index + 1}) has invalid props`);
+      return;
+    }
+
+    for (const error of validateProps(definition.config.properties, comp.props || {})) {
+      fail(error.field, error.message);
+    }
+  });
+
+  return { components: errors.length > 0 ? [] : input as SubmittedComponent[], errors };
+}
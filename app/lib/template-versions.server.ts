@@ -0,0 +1,195 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { findComponentDefinition } from "./component-registry";
+import { diffSnapshots, type TemplateSnapshot } from "./template-diff";
+
+const draftInclude = {
+  components: {
+    include: { component: true },
+    orderBy: { order: 'asc' }
+  }
+} satisfies Prisma.AppPageInclude;
+
+type DraftPage = Prisma.AppPageGetPayload<{ include: typeof draftInclude }>;
+
+function toPageSnapshot(page: DraftPage): TemplateSnapshot {
+  return {
+    page: {
+      name: page.name,
+      slug: page.slug,
+      type: page.type
+    },
+    components: page.components.map(comp => {
+      const componentLibEntry = findComponentDefinition(comp.component);
+
+      return {
+        id: comp.id,
+        componentId: componentLibEntry?.id || comp.component.name.toLowerCase().replace(/\s+/g, '-'),
+        type: comp.component.type,
+        name: comp.component.name,
+        props: comp.props as Record<string, any>,
+        order: comp.order,
+        schemaVersion: comp.schemaVersion
+      };
+    })
+  };
+}
+
+// Reads the current draft of a page into an immutable snapshot
+export async function buildPageSnapshot(pageId: string): Promise<TemplateSnapshot | null> {
+  const page = await prisma.appPage.findUnique({
+    where: { id: pageId },
+    include: draftInclude
+  });
+
+  return page ? toPageSnapshot(page) : null;
+}
+
+// Attempts at numbering a version before giving up on concurrent publishes
+const CREATE_VERSION_ATTEMPTS = 3;
+
+// Two publishes of a page at once may pick the same number; the one that loses
+// numbers its version again after the winner's
+async function createVersion(pageId: string, snapshot: TemplateSnapshot, note: string | null) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx) => {
+        const latest = await tx.templateVersion.findFirst({
+          where: { pageId },
+          orderBy: { version: 'desc' },
+          select: { version: true }
+        });
+
+        return tx.templateVersion.create({
+          data: {
+            pageId,
+            version: (latest?.version || 0) + 1,
+            snapshot: snapshot as unknown as Prisma.InputJsonValue,
+            note
+          }
+        });
+      });
+    } catch (error) {
+      const isConflict = error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+      if (!isConflict || attempt >= CREATE_VERSION_ATTEMPTS) {
+        throw error;
+      }
+    }
+  }
+}
+
+// The page's latest published version number, or null if it was never published
+export async function getLatestVersionNumber(pageId: string) {
+  const latest = await prisma.templateVersion.findFirst({
+    where: { pageId },
+    orderBy: { version: 'desc' },
+    select: { version: true }
+  });
+  return latest?.version ?? null;
+}
+
+// Publishes the saved draft of a page as a new version
+export async function publishPage(pageId: string, note?: string) {
+  const snapshot = await buildPageSnapshot(pageId);
+  if (!snapshot) {
+    return null;
+  }
+
+  return createVersion(pageId, snapshot, note?.trim() || null);
+}
+
+// Re-publishes an earlier snapshot as a new version, so history stays append-only
+export async function rollbackPage(pageId: string, versionId: string) {
+  const target = await prisma.templateVersion.findFirst({
+    where: { id: versionId, pageId }
+  });
+
+  if (!target) {
+    return null;
+  }
+
+  return createVersion(
+    pageId,
+    target.snapshot as unknown as TemplateSnapshot,
+    `Rollback to v${target.version}`
+  );
+}
+
+// Version history of a page, newest first, with the diff against the version before it
+export async function getVersionHistory(pageId: string) {
+  const versions = await prisma.templateVersion.findMany({
+    where: { pageId },
+    orderBy: { version: 'asc' }
+  });
+
+  return versions
+    .map((version, index) => {
+      const snapshot = version.snapshot as unknown as TemplateSnapshot;
+      const previous = index > 0 ? versions[index - 1].snapshot as unknown as TemplateSnapshot : null;
+
+      return {
+        id: version.id,
+        version: version.version,
+        note: version.note,
+        createdAt: version.createdAt,
+        componentCount: snapshot.components.length,
+        isLive: index === versions.length - 1,
+        diff: diffSnapshots(previous, snapshot)
+      };
+    })
+    .reverse();
+}
+
+// The live snapshot of every published page of an app, keyed by page id. Only
+// the latest version of each page is read, however long its history is.
+export async function getPublishedSnapshots(appId: string) {
+  const published = new Map<string, { version: number; publishedAt: Date; snapshot: TemplateSnapshot }>();
+
+  const latest = await prisma.templateVersion.groupBy({
+    by: ['pageId'],
+    where: { page: { appId } },
+    _max: { version: true }
+  });
+  if (latest.length === 0) {
+    return published;
+  }
+
+  const versions = await prisma.templateVersion.findMany({
+    where: { OR: latest.map(group => ({ pageId: group.pageId, version: group._max.version! })) }
+  });
+  for (const version of versions) {
+    published.set(version.pageId, {
+      version: version.version,
+      publishedAt: version.createdAt,
+      snapshot: version.snapshot as unknown as TemplateSnapshot
+    });
+  }
+
+  return published;
+}
+
+// The saved draft of every page of an app, keyed by page id, for preview builds.
+// Drafts keep the number of the page's latest published version, null if it was
+// never published, and date from the last save.
+export async function getDraftSnapshots(appId: string) {
+  const drafts = new Map<string, { version: number | null; publishedAt: Date; snapshot: TemplateSnapshot }>();
+
+  const [pages, latest] = await Promise.all([
+    prisma.appPage.findMany({ where: { appId }, include: draftInclude }),
+    prisma.templateVersion.groupBy({
+      by: ['pageId'],
+      where: { page: { appId } },
+      _max: { version: true }
+    })
+  ]);
+  const latestVersions = new Map(latest.map(group => [group.pageId, group._max.version]));
+  for (const page of pages) {
+    drafts.set(page.id, {
+      version: latestVersions.get(page.id) ?? null,
+      publishedAt: page.updatedAt,
+      snapshot: toPageSnapshot(page)
+    });
+  }
+
+  return drafts;
+}
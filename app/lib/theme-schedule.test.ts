@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { getNextScheduleChange, getScheduleState, resolveEffectiveTheme, type SchedulableTheme } from "./theme-schedule";
+
+const theme = (id: string, overrides: Partial<SchedulableTheme> = {}): SchedulableTheme => ({
+  id,
+  isScheduled: false,
+  scheduledStart: null,
+  scheduledEnd: null,
+  priority: 0,
+  createdAt: "2026-01-01T00:00:00Z",
+  ...overrides
+});
+
+const scheduled = (id: string, start: string, end: string | null, overrides: Partial<SchedulableTheme> = {}) =>
+  theme(id, { isScheduled: true, scheduledStart: start, scheduledEnd: end, ...overrides });
+
+const at = (time: string) => new Date(time);
+
+describe("getScheduleState", () => {
+  const sale = scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z");
+
+  it("includes the start and excludes the end of a window", () => {
+    expect(getScheduleState(sale, at("2026-11-26T23:59:59.999Z"))).toBe("upcoming");
+    expect(getScheduleState(sale, at("2026-11-27T00:00:00Z"))).toBe("live");
+    expect(getScheduleState(sale, at("2026-11-29T23:59:59.999Z"))).toBe("live");
+    expect(getScheduleState(sale, at("2026-11-30T00:00:00Z"))).toBe("ended");
+  });
+
+  it("keeps a schedule without an end live", () => {
+    expect(getScheduleState(scheduled("open", "2026-01-01T00:00:00Z", null), at("2030-01-01T00:00:00Z"))).toBe("live");
+  });
+
+  it("treats themes without a schedule or start as unscheduled", () => {
+    expect(getScheduleState(theme("plain"), at("2026-06-01T00:00:00Z"))).toBe("unscheduled");
+    expect(getScheduleState(theme("draft", { isScheduled: true }), at("2026-06-01T00:00:00Z"))).toBe("unscheduled");
+  });
+});
+
+describe("resolveEffectiveTheme", () => {
+  const base = theme("base");
+
+  it("shows the base theme when no schedule is live", () => {
+    const themes = [base, scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z")];
+    expect(resolveEffectiveTheme(themes, "base", at("2026-11-01T00:00:00Z"))).toEqual({ theme: base, source: "base", until: null });
+  });
+
+  it("shows a live schedule instead of the base theme, until its end", () => {
+    const sale = scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z");
+    expect(resolveEffectiveTheme([base, sale], "base", at("2026-11-28T00:00:00Z"))).toEqual({
+      theme: sale,
+      source: "schedule",
+      until: at("2026-11-30T00:00:00Z")
+    });
+  });
+
+  it("lets the highest priority win when windows overlap", () => {
+    const season = scheduled("season", "2026-11-01T00:00:00Z", "2027-01-01T00:00:00Z", { priority: 1 });
+    const flash = scheduled("flash", "2026-11-27T00:00:00Z", "2026-11-28T00:00:00Z", { priority: 5 });
+    expect(resolveEffectiveTheme([base, season, flash], "base", at("2026-11-27T12:00:00Z")).theme?.id).toBe("flash");
+    expect(resolveEffectiveTheme([base, season, flash], "base", at("2026-11-28T00:00:00Z")).theme?.id).toBe("season");
+  });
+
+  it("breaks priority ties by the later start, then by the newer theme", () => {
+    const early = scheduled("early", "2026-11-01T00:00:00Z", null);
+    const late = scheduled("late", "2026-11-10T00:00:00Z", null);
+    expect(resolveEffectiveTheme([late, early], null, at("2026-11-15T00:00:00Z")).theme?.id).toBe("late");
+
+    const older = scheduled("older", "2026-11-01T00:00:00Z", null, { createdAt: "2026-01-01T00:00:00Z" });
+    const newer = scheduled("newer", "2026-11-01T00:00:00Z", null, { createdAt: "2026-02-01T00:00:00Z" });
+    expect(resolveEffectiveTheme([older, newer], null, at("2026-11-15T00:00:00Z")).theme?.id).toBe("newer");
+  });
+
+  it("shows no theme when there is neither a live schedule nor a base theme", () => {
+    expect(resolveEffectiveTheme([base], null, at("2026-11-01T00:00:00Z"))).toEqual({ theme: null, source: null, until: null });
+  });
+});
+
+describe("getNextScheduleChange", () => {
+  it("returns the nearest future start or end", () => {
+    const themes = [
+      scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z"),
+      scheduled("winter", "2026-12-01T00:00:00Z", null)
+    ];
+    expect(getNextScheduleChange(themes, at("2026-11-01T00:00:00Z"))).toEqual(at("2026-11-27T00:00:00Z"));
+    expect(getNextScheduleChange(themes, at("2026-11-28T00:00:00Z"))).toEqual(at("2026-11-30T00:00:00Z"));
+  });
+
+  it("skips a boundary at the current moment, which already took effect", () => {
+    const themes = [scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z")];
+    expect(getNextScheduleChange(themes, at("2026-11-27T00:00:00Z"))).toEqual(at("2026-11-30T00:00:00Z"));
+  });
+
+  it("returns null when nothing is scheduled ahead", () => {
+    const themes = [theme("base"), scheduled("sale", "2026-11-27T00:00:00Z", "2026-11-30T00:00:00Z")];
+    expect(getNextScheduleChange(themes, at("2026-12-01T00:00:00Z"))).toBeNull();
+  });
+});
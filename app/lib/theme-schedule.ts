@@ -0,0 +1,69 @@
+// Which theme an app shows at a given moment. The app's active theme is its
+// base; a scheduled theme replaces it while its window is open, and when
+// windows overlap the highest priority wins.
+
+export interface SchedulableTheme {
+  id: string;
+  isScheduled: boolean;
+  scheduledStart: Date | string | null;
+  scheduledEnd: Date | string | null;
+  priority: number;
+  createdAt: Date | string;
+}
+
+export type ScheduleState = "unscheduled" | "upcoming" | "live" | "ended";
+
+export interface EffectiveTheme<T> {
+  theme: T | null;
+  source: "schedule" | "base" | null;
+  // When the scheduled theme stops showing, null if it has no end
+  until: Date | null;
+}
+
+const toTime = (value: Date | string | null) => value === null ? null : new Date(value).getTime();
+
+// Windows include their start and exclude their end; a schedule without an end runs until it is edited
+export function getScheduleState(theme: SchedulableTheme, now: Date): ScheduleState {
+  const start = toTime(theme.scheduledStart);
+  if (!theme.isScheduled || start === null) {
+    return "unscheduled";
+  }
+  const end = toTime(theme.scheduledEnd);
+  if (now.getTime() < start) {
+    return "upcoming";
+  }
+  return end === null || now.getTime() < end ? "live" : "ended";
+}
+
+// Ties on priority go to the schedule that started last, then to the newer theme
+export function resolveEffectiveTheme<T extends SchedulableTheme>(
+  themes: T[],
+  baseThemeId: string | null,
+  now: Date = new Date()
+): EffectiveTheme<T> {
+  const live = themes
+    .filter(theme => getScheduleState(theme, now) === "live")
+    .sort((a, b) =>
+      b.priority - a.priority ||
+      toTime(b.scheduledStart)! - toTime(a.scheduledStart)! ||
+      toTime(b.createdAt)! - toTime(a.createdAt)!
+    );
+
+  if (live.length > 0) {
+    const end = toTime(live[0].scheduledEnd);
+    return { theme: live[0], source: "schedule", until: end === null ? null : new Date(end) };
+  }
+
+  const base = themes.find(theme => theme.id === baseThemeId) || null;
+  return { theme: base, source: base ? "base" : null, until: null };
+}
+
+// The next moment a schedule starts or ends, when the effective theme may change
+export function getNextScheduleChange(themes: SchedulableTheme[], now: Date = new Date()): Date | null {
+  const boundaries = themes
+    .filter(theme => theme.isScheduled)
+    .flatMap(theme => [toTime(theme.scheduledStart), toTime(theme.scheduledEnd)])
+    .filter((time): time is number => time !== null && time > now.getTime());
+
+  return boundaries.length > 0 ? new Date(Math.min(...boundaries)) : null;
+}
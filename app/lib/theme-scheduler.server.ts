@@ -0,0 +1,75 @@
+import { prisma } from "../db.server";
+import { publishConfigChange } from "./config-events.server";
+import { logger } from "./logger.server";
+import { resolveEffectiveTheme } from "./theme-schedule";
+import { pruneWebhookEvents } from "./webhooks.server";
+
+const SCHEDULER_INTERVAL_MS = 30 * 1000;
+// Housekeeping rides on the same timer, but far less often
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+declare global {
+  var __themeScheduler__: ReturnType<typeof setInterval> | undefined;
+}
+
+// Marks the theme an app shows right now as active and every other one as not.
+// Returns whether that changed, so callers know to tell devices.
+export async function applyEffectiveTheme(appId: string, now: Date = new Date()) {
+  const mobileApp = await prisma.mobileApp.findUnique({
+    where: { id: appId },
+    include: { themes: true }
+  });
+  if (!mobileApp) {
+    return false;
+  }
+
+  const { theme: effective } = resolveEffectiveTheme(mobileApp.themes, mobileApp.activeThemeId, now);
+  const stale = mobileApp.themes.filter(theme => theme.isActive !== (theme.id === effective?.id));
+  if (stale.length === 0) {
+    return false;
+  }
+
+  await prisma.$transaction(
+    stale.map(theme => prisma.theme.update({
+      where: { id: theme.id },
+      data: { isActive: !theme.isActive }
+    }))
+  );
+
+  logger.info("Effective theme changed", { shop: mobileApp.shop, themeId: effective?.id ?? null });
+  return true;
+}
+
+// Switches every app whose schedules started or ended since the last run.
+// Devices don't depend on it: the live config works the theme out per request.
+export async function runThemeScheduler(now: Date = new Date()) {
+  const apps = await prisma.mobileApp.findMany({
+    where: { themes: { some: { OR: [{ isScheduled: true }, { isActive: true }] } } },
+    select: { id: true, shop: true }
+  });
+
+  for (const app of apps) {
+    if (await applyEffectiveTheme(app.id, now)) {
+      publishConfigChange(app.shop, { reason: "theme", pageId: null, version: null });
+    }
+  }
+}
+
+// One timer per process, kept on the global so development reloads don't start another
+export function startThemeScheduler() {
+  if (global.__themeScheduler__) {
+    return;
+  }
+
+  let lastPrune = 0;
+  global.__themeScheduler__ = setInterval(() => {
+    runThemeScheduler().catch(error => logger.error("Theme scheduler run failed", { error }));
+
+    if (Date.now() - lastPrune >= PRUNE_INTERVAL_MS) {
+      lastPrune = Date.now();
+      pruneWebhookEvents().catch(error => logger.error("Pruning processed webhooks failed", { error }));
+    }
+  }, SCHEDULER_INTERVAL_MS);
+  // The scheduler alone should not keep the process alive
+  global.__themeScheduler__.unref?.();
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import type { PropertyDefinition } from "./component-schema";
+import { DEFAULT_THEME_COLORS, THEME_TOKENS, isThemeToken, resolveThemeToken, resolveThemeTokens, type ThemeColors } from "./theme-tokens";
+
+const colors: ThemeColors = {
+  primaryColor: "#112233",
+  secondaryColor: "#445566",
+  backgroundColor: "#FAFAFA",
+  textColor: "#101010"
+};
+
+const properties: PropertyDefinition[] = [
+  { name: "title", type: "text", label: "Title" },
+  { name: "backgroundColor", type: "color", label: "Background" },
+  { name: "textColor", type: "color", label: "Text" }
+];
+
+describe("isThemeToken", () => {
+  it("accepts the known tokens only", () => {
+    expect(THEME_TOKENS.every(({ token }) => isThemeToken(token))).toBe(true);
+    expect(isThemeToken("theme.accent")).toBe(false);
+    expect(isThemeToken("#007AFF")).toBe(false);
+    expect(isThemeToken(undefined)).toBe(false);
+  });
+});
+
+describe("resolveThemeToken", () => {
+  it("reads the token's color from the theme", () => {
+    expect(resolveThemeToken("theme.primary", colors)).toBe("#112233");
+    expect(resolveThemeToken("theme.secondary", colors)).toBe("#445566");
+    expect(resolveThemeToken("theme.background", colors)).toBe("#FAFAFA");
+    expect(resolveThemeToken("theme.text", DEFAULT_THEME_COLORS)).toBe("#000000");
+  });
+});
+
+describe("resolveThemeTokens", () => {
+  it("replaces tokens in color props and keeps fixed colors", () => {
+    const props = { title: "Hello", backgroundColor: "theme.primary", textColor: "#FFFFFF" };
+
+    expect(resolveThemeTokens(properties, props, colors)).toEqual({
+      title: "Hello",
+      backgroundColor: "#112233",
+      textColor: "#FFFFFF"
+    });
+  });
+
+  it("leaves a token-like value in a prop that is not a color", () => {
+    const props = { title: "theme.primary", backgroundColor: "theme.background", textColor: "theme.text" };
+
+    expect(resolveThemeTokens(properties, props, colors)).toEqual({
+      title: "theme.primary",
+      backgroundColor: "#FAFAFA",
+      textColor: "#101010"
+    });
+  });
+
+  it("returns a copy and leaves the props it was given alone", () => {
+    const props = { backgroundColor: "theme.primary", extra: 1 };
+    const resolved = resolveThemeTokens(properties, props, colors);
+
+    expect(resolved).not.toBe(props);
+    expect(props.backgroundColor).toBe("theme.primary");
+    expect(resolved.extra).toBe(1);
+  });
+});
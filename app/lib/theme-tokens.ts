@@ -0,0 +1,56 @@
+import type { PropertyDefinition } from "./component-schema";
+
+// Color props may hold a theme token such as "theme.primary" instead of a hex
+// color. Tokens are resolved against the theme the app shows, so switching
+// themes restyles every component bound to one.
+
+export interface ThemeColors {
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+}
+
+export const THEME_TOKENS = [
+  { token: "theme.primary", label: "Primary", field: "primaryColor" },
+  { token: "theme.secondary", label: "Secondary", field: "secondaryColor" },
+  { token: "theme.background", label: "Background", field: "backgroundColor" },
+  { token: "theme.text", label: "Text", field: "textColor" }
+] as const;
+
+export type ThemeToken = typeof THEME_TOKENS[number]["token"];
+
+// Used while an app has no theme; the colors of the Modern preset
+export const DEFAULT_THEME_COLORS: ThemeColors = {
+  primaryColor: "#007AFF",
+  secondaryColor: "#5856D6",
+  backgroundColor: "#FFFFFF",
+  textColor: "#000000"
+};
+
+export function isThemeToken(value: unknown): value is ThemeToken {
+  return THEME_TOKENS.some(({ token }) => token === value);
+}
+
+export function resolveThemeToken(token: ThemeToken, colors: ThemeColors) {
+  const { field } = THEME_TOKENS.find(entry => entry.token === token)!;
+  return colors[field];
+}
+
+// Copy of the props with every token in a color prop replaced by the theme's color
+export function resolveThemeTokens<Props extends Record<string, unknown>>(
+  properties: readonly PropertyDefinition[],
+  props: Props,
+  colors: ThemeColors
+): Props {
+  const resolved: Record<string, unknown> = { ...props };
+
+  for (const property of properties) {
+    const value = props[property.name];
+    if (property.type === "color" && isThemeToken(value)) {
+      resolved[property.name] = resolveThemeToken(value, colors);
+    }
+  }
+
+  return resolved as Props;
+}
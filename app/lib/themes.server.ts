@@ -0,0 +1,252 @@
+import type { Theme } from "@prisma/client";
+import { prisma } from "../db.server";
+import { getOrCreateMobileApp } from "./mobile-app.server";
+import { getNextScheduleChange, getScheduleState, resolveEffectiveTheme } from "./theme-schedule";
+import { applyEffectiveTheme } from "./theme-scheduler.server";
+
+// The editable fields of a theme, as submitted from the themes page
+export interface ThemeInput {
+  name: string;
+  description: string | null;
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;
+  isScheduled: boolean;
+  scheduledStart: Date | null;
+  scheduledEnd: Date | null;
+  priority: number;
+}
+
+const COLOR_FIELDS = ["primaryColor", "secondaryColor", "backgroundColor", "textColor"] as const;
+const COLOR_LABELS: Record<typeof COLOR_FIELDS[number], string> = {
+  primaryColor: "Primary color",
+  secondaryColor: "Secondary color",
+  backgroundColor: "Background color",
+  textColor: "Text color"
+};
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+// Reads and checks the theme fields of a form, or of anything else that looks
+// fields up by name like a Map; colors are normalized to upper case
+export function parseThemeInput(formData: { get(field: string): unknown }): { input: ThemeInput | null; errors: string[] } {
+  const text = (field: string) => ((formData.get(field) as string) || "").trim();
+  const errors: string[] = [];
+
+  const name = text("name");
+  if (!name) {
+    errors.push("Name is required");
+  }
+  for (const field of COLOR_FIELDS) {
+    if (!HEX_COLOR.test(text(field))) {
+      errors.push(`${COLOR_LABELS[field]} must be a hex color like #1A2B3C`);
+    }
+  }
+  const fontFamily = text("fontFamily");
+  if (!fontFamily) {
+    errors.push("Font is required");
+  }
+
+  // Dates arrive as ISO strings, converted from the merchant's time zone in the browser
+  const isScheduled = text("isScheduled") === "true";
+  const date = (field: string) => {
+    const value = text(field);
+    const parsed = value ? new Date(value) : null;
+    return parsed && !isNaN(parsed.getTime()) ? parsed : null;
+  };
+  const scheduledStart = date("scheduledStart");
+  const scheduledEnd = date("scheduledEnd");
+  const priority = text("priority") ? Number(text("priority")) : 0;
+  if (isScheduled && !scheduledStart) {
+    errors.push("Scheduled themes need a start date");
+  }
+  if (scheduledStart && scheduledEnd && scheduledEnd <= scheduledStart) {
+    errors.push("The schedule must end after it starts");
+  }
+  if (!Number.isInteger(priority)) {
+    errors.push("Priority must be a whole number");
+  }
+
+  if (errors.length > 0) {
+    return { input: null, errors };
+  }
+
+  return {
+    input: {
+      name,
+      description: text("description") || null,
+      primaryColor: text("primaryColor").toUpperCase(),
+      secondaryColor: text("secondaryColor").toUpperCase(),
+      backgroundColor: text("backgroundColor").toUpperCase(),
+      textColor: text("textColor").toUpperCase(),
+      fontFamily,
+      isScheduled,
+      scheduledStart: isScheduled ? scheduledStart : null,
+      scheduledEnd: isScheduled ? scheduledEnd : null,
+      priority
+    },
+    errors
+  };
+}
+
+// Finds a theme by id, but only if it belongs to the given shop's app
+export async function findThemeForShop(shop: string, themeId: string) {
+  return prisma.theme.findFirst({
+    where: { id: themeId, app: { shop: shop } }
+  });
+}
+
+// Themes of a shop's app, oldest first. `isBase` marks the theme the merchant
+// activated, `isActive` the one devices show right now, which a schedule may override.
+export async function listThemes(shop: string, now: Date = new Date()) {
+  const mobileApp = await prisma.mobileApp.findUnique({
+    where: { shop: shop },
+    include: { themes: { orderBy: { createdAt: 'asc' } } }
+  });
+
+  if (!mobileApp) {
+    return { themes: [], effective: null, nextChangeAt: null };
+  }
+
+  const effective = resolveEffectiveTheme(mobileApp.themes, mobileApp.activeThemeId, now);
+
+  return {
+    themes: mobileApp.themes.map(theme => ({
+      ...theme,
+      isBase: theme.id === mobileApp.activeThemeId,
+      isActive: theme.id === effective.theme?.id,
+      scheduleState: getScheduleState(theme, now)
+    })),
+    effective: effective.theme ? { themeId: effective.theme.id, source: effective.source, until: effective.until } : null,
+    nextChangeAt: getNextScheduleChange(mobileApp.themes, now)
+  };
+}
+
+// A name no other theme of the app has, e.g. "Modern (2)" when "Modern" is taken
+async function getUniqueThemeName(appId: string, name: string) {
+  const existing = new Set(
+    (await prisma.theme.findMany({ where: { appId }, select: { name: true } })).map(theme => theme.name)
+  );
+
+  let candidate = name;
+  let suffix = 2;
+  while (existing.has(candidate)) {
+    candidate = `${name} (${suffix++})`;
+  }
+  return candidate;
+}
+
+// The first theme of an app becomes its base theme
+export async function createTheme(shop: string, input: ThemeInput) {
+  const mobileApp = await getOrCreateMobileApp(shop);
+  const theme = await prisma.theme.create({
+    data: {
+      appId: mobileApp.id,
+      ...input,
+      name: await getUniqueThemeName(mobileApp.id, input.name)
+    }
+  });
+
+  if (!mobileApp.activeThemeId) {
+    await prisma.mobileApp.update({
+      where: { id: mobileApp.id },
+      data: { activeThemeId: theme.id }
+    });
+  }
+  await applyEffectiveTheme(mobileApp.id);
+
+  return theme;
+}
+
+export async function updateTheme(shop: string, themeId: string, input: ThemeInput) {
+  const theme = await findThemeForShop(shop, themeId);
+  if (!theme) {
+    return null;
+  }
+
+  const updated = await prisma.theme.update({
+    where: { id: theme.id },
+    data: input
+  });
+  await applyEffectiveTheme(theme.appId);
+
+  return updated;
+}
+
+// Makes the theme the base one, shown whenever no schedule is running
+export async function activateTheme(shop: string, themeId: string) {
+  const theme = await findThemeForShop(shop, themeId);
+  if (!theme) {
+    return null;
+  }
+
+  await prisma.mobileApp.update({
+    where: { id: theme.appId },
+    data: { activeThemeId: theme.id }
+  });
+  await applyEffectiveTheme(theme.appId);
+
+  return theme;
+}
+
+// Copies the colors and font; the copy is never active or scheduled
+export async function duplicateTheme(shop: string, themeId: string) {
+  const theme = await findThemeForShop(shop, themeId);
+  if (!theme) {
+    return null;
+  }
+
+  return prisma.theme.create({
+    data: {
+      appId: theme.appId,
+      name: await getUniqueThemeName(theme.appId, `${theme.name} copy`),
+      description: theme.description,
+      primaryColor: theme.primaryColor,
+      secondaryColor: theme.secondaryColor,
+      backgroundColor: theme.backgroundColor,
+      textColor: theme.textColor,
+      fontFamily: theme.fontFamily
+    }
+  });
+}
+
+// Deleting the base theme leaves the app without one, so outside of schedules it falls back to its built-in look
+export async function deleteTheme(shop: string, themeId: string) {
+  const theme = await findThemeForShop(shop, themeId);
+  if (!theme) {
+    return null;
+  }
+
+  await prisma.$transaction([
+    prisma.mobileApp.updateMany({
+      where: { id: theme.appId, activeThemeId: theme.id },
+      data: { activeThemeId: null }
+    }),
+    prisma.appPage.updateMany({
+      where: { themeId: theme.id },
+      data: { themeId: null }
+    }),
+    prisma.theme.delete({ where: { id: theme.id } })
+  ]);
+  await applyEffectiveTheme(theme.appId);
+
+  return theme;
+}
+
+// Theme shape served to devices in the live config
+export function toLiveTheme(theme: Theme, source: "schedule" | "base" | null, until: Date | null) {
+  return {
+    id: theme.id,
+    name: theme.name,
+    primaryColor: theme.primaryColor,
+    secondaryColor: theme.secondaryColor,
+    backgroundColor: theme.backgroundColor,
+    textColor: theme.textColor,
+    fontFamily: theme.fontFamily,
+    // Whether a schedule chose this theme, and when it stops showing
+    source,
+    until,
+    updatedAt: theme.updatedAt
+  };
+}
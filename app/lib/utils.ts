@@ -238,458 +238,6 @@ export function getRandomBannerImage(): string {
   return bannerImages[Math.floor(Math.random() * bannerImages.length)];
 }
 
-export const componentLibrary = [
-  {
-    id: "mobile-header",
-    name: "Mobile Header",
-    type: "MOBILE_HEADER",
-    category: "Layout",
-    icon: "📱",
-    description: "Clean mobile app header with logo, search, and navigation",
-    defaultProps: {
-      // Logo
-      logoText: "oe",
-      logoImage: "",
-      showLogoImage: false,
-      logoSize: 40,
-      logoColor: "#FFFFFF",
-      
-      // Colors
-      backgroundColor: "#4A5568",
-      iconColor: "#FFFFFF",
-      textColor: "#FFFFFF",
-      
-      // Offer button
-      showOfferButton: true,
-      offerButtonText: "50% OFF",
-      offerButtonColor: "#FC8181",
-      
-      // Icons
-      showMenuIcon: true,
-      showWishlistIcon: true,
-      showAccountIcon: true,
-      showCartIcon: true,
-      showCartBadge: true,
-      cartBadgeCount: 3,
-      cartBadgeColor: "#EF4444",
-      
-      // Search
-      searchPlaceholder: "Free Cash on Delivery",
-      searchBackgroundColor: "#F7FAFC",
-      searchTextColor: "#4A5568",
-      
-      // Navigation
-      showNavTabs: true,
-      navBackgroundColor: "#4A5568",
-      navTextColor: "#CBD5E0",
-      navActiveColor: "#FFFFFF",
-      
-      // Simple navigation items
-      nav1Title: "All",
-      nav1Active: true,
-      nav2Title: "Classic", 
-      nav2Active: false,
-      nav3Title: "Essentials",
-      nav3Active: false,
-      nav4Title: "Premium",
-      nav4Active: false
-    },
-    config: {
-      properties: [
-        { name: "showLogoImage", type: "boolean", label: "Use Logo Image", description: "Use an image instead of text for the logo" },
-        { name: "logoImage", type: "shopify_image", label: "Logo Image", condition: { field: "showLogoImage", value: true } },
-        { name: "logoText", type: "text", label: "Logo Text", description: "Text to display as the logo", condition: { field: "showLogoImage", value: false } },
-        { name: "logoSize", type: "number", label: "Logo Size (px)", min: 20, max: 60 },
-        { name: "logoColor", type: "color", label: "Logo Color", condition: { field: "showLogoImage", value: false } },
-        { name: "backgroundColor", type: "color", label: "Background Color" },
-        { name: "iconColor", type: "color", label: "Icon Color" },
-        { name: "textColor", type: "color", label: "Text Color" },
-        { name: "showOfferButton", type: "boolean", label: "Show Offer Button" },
-        { name: "offerButtonText", type: "text", label: "Offer Button Text", condition: { field: "showOfferButton", value: true } },
-        { name: "offerButtonColor", type: "color", label: "Offer Button Color", condition: { field: "showOfferButton", value: true } },
-        { name: "showMenuIcon", type: "boolean", label: "Show Menu Icon" },
-        { name: "showWishlistIcon", type: "boolean", label: "Show Wishlist Icon" },
-        { name: "showAccountIcon", type: "boolean", label: "Show Account Icon" },
-        { name: "showCartIcon", type: "boolean", label: "Show Cart Icon" },
-        { name: "showCartBadge", type: "boolean", label: "Show Cart Badge", condition: { field: "showCartIcon", value: true } },
-        { name: "cartBadgeCount", type: "number", label: "Cart Badge Count", min: 0, max: 99, condition: { field: "showCartBadge", value: true } },
-        { name: "cartBadgeColor", type: "color", label: "Cart Badge Color", condition: { field: "showCartBadge", value: true } },
-        { name: "searchPlaceholder", type: "text", label: "Search Placeholder" },
-        { name: "searchBackgroundColor", type: "color", label: "Search Background" },
-        { name: "searchTextColor", type: "color", label: "Search Text Color" },
-        { name: "showNavTabs", type: "boolean", label: "Show Navigation Tabs" },
-        { name: "navBackgroundColor", type: "color", label: "Nav Background", condition: { field: "showNavTabs", value: true } },
-        { name: "navTextColor", type: "color", label: "Nav Text Color", condition: { field: "showNavTabs", value: true } },
-        { name: "navActiveColor", type: "color", label: "Nav Active Color", condition: { field: "showNavTabs", value: true } },
-        { name: "nav1Title", type: "text", label: "Nav Item 1 Title", condition: { field: "showNavTabs", value: true } },
-        { name: "nav1Active", type: "boolean", label: "Nav Item 1 Active", condition: { field: "showNavTabs", value: true } },
-        { name: "nav2Title", type: "text", label: "Nav Item 2 Title", condition: { field: "showNavTabs", value: true } },
-        { name: "nav2Active", type: "boolean", label: "Nav Item 2 Active", condition: { field: "showNavTabs", value: true } },
-        { name: "nav3Title", type: "text", label: "Nav Item 3 Title", condition: { field: "showNavTabs", value: true } },
-        { name: "nav3Active", type: "boolean", label: "Nav Item 3 Active", condition: { field: "showNavTabs", value: true } },
-        { name: "nav4Title", type: "text", label: "Nav Item 4 Title", condition: { field: "showNavTabs", value: true } },
-        { name: "nav4Active", type: "boolean", label: "Nav Item 4 Active", condition: { field: "showNavTabs", value: true } }
-      ]
-    }
-  },
-  {
-    id: "banner",
-    name: "Banner",
-    type: "BANNER",
-    category: "Layout",
-    icon: "🎯",
-    description: "Hero banner with image and text overlay",
-    defaultProps: {
-      imageUrl: getRandomBannerImage(),
-      title: "Welcome to our store",
-      subtitle: "Discover amazing products",
-      buttonText: "Shop Now",
-      buttonLink: "/products",
-      overlay: true,
-      height: "200px"
-    },
-    config: {
-      properties: [
-        { name: "imageUrl", type: "image", label: "Background Image" },
-        { name: "title", type: "text", label: "Title" },
-        { name: "subtitle", type: "text", label: "Subtitle" },
-        { name: "buttonText", type: "text", label: "Button Text" },
-        { name: "buttonLink", type: "text", label: "Button Link" },
-        { name: "overlay", type: "boolean", label: "Dark Overlay" },
-        { name: "height", type: "select", label: "Height", options: ["150px", "200px", "300px", "400px"] }
-      ]
-    }
-  },
-  {
-    id: "featured-collection",
-    name: "Featured Collection",
-    type: "FEATURED_COLLECTION",
-    category: "Products",
-    icon: "⭐",
-    description: "Showcase a featured product collection with customizable layout",
-    defaultProps: {
-      title: "Featured Collection",
-      description: "Check out our best products",
-      dataSource: "collection",
-      collectionId: "",
-      specificProducts: [],
-      layout: "grid",
-      itemsToShow: 4,
-      showPrices: true,
-      showRatings: true,
-      actionButtonText: "View All",
-      actionButtonLink: "/collections/featured"
-    },
-    config: {
-      properties: [
-        { name: "title", type: "text", label: "Collection Title" },
-        { name: "description", type: "text", label: "Description" },
-        { name: "dataSource", type: "select", label: "Data Source", options: ["collection", "specific"] },
-        { name: "collectionId", type: "shopify_collection", label: "Select Collection", condition: { field: "dataSource", value: "collection" } },
-        { name: "specificProducts", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "specific" } },
-        { name: "layout", type: "select", label: "Layout Style", options: ["grid", "list", "carousel"] },
-        { name: "itemsToShow", type: "number", label: "Items to Show", min: 1, max: 10 } as any,
-        { name: "showPrices", type: "boolean", label: "Show Prices" },
-        { name: "showRatings", type: "boolean", label: "Show Ratings" },
-        { name: "actionButtonText", type: "text", label: "Action Button Text" },
-        { name: "actionButtonLink", type: "text", label: "Action Button Link" }
-      ]
-    }
-  },
-  {
-    id: "carousel",
-    name: "Product Carousel",
-    type: "CAROUSEL", 
-    category: "Products",
-    icon: "🎠",
-    description: "Horizontal scrolling product showcase",
-    defaultProps: {
-      title: "Featured Products",
-      showArrows: true,
-      autoPlay: false,
-      itemsPerView: 2,
-      spacing: "16px",
-      dataSource: "mock", // "mock", "collection", "products"
-      collectionId: "",
-      productIds: []
-    },
-    config: {
-      properties: [
-        { name: "title", type: "text", label: "Section Title" },
-        { name: "dataSource", type: "select", label: "Data Source", options: ["mock", "collection", "products"] },
-        { name: "collectionId", type: "shopify_collection", label: "Shopify Collection", condition: { field: "dataSource", value: "collection" } },
-        { name: "productIds", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "products" } },
-        { name: "showArrows", type: "boolean", label: "Show Navigation Arrows" },
-        { name: "autoPlay", type: "boolean", label: "Auto Play" },
-        { name: "itemsPerView", type: "number", label: "Items Per View", min: 1, max: 4 } as any,
-        { name: "spacing", type: "select", label: "Item Spacing", options: ["8px", "16px", "24px", "32px"] }
-      ]
-    }
-  },
-  {
-    id: "countdown",
-    name: "Countdown Timer",
-    type: "COUNTDOWN",
-    category: "Marketing", 
-    icon: "⏰",
-    description: "Urgency-creating countdown timer",
-    defaultProps: {
-      title: "Limited Time Offer",
-      endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString(),
-      showLabels: true,
-      style: "circular"
-    },
-    config: {
-      properties: [
-        { name: "title", type: "text", label: "Title" },
-        { name: "endDate", type: "datetime", label: "End Date" },
-        { name: "showLabels", type: "boolean", label: "Show Labels" },
-        { name: "style", type: "select", label: "Style", options: ["circular", "rectangular", "minimal"] }
-      ]
-    }
-  },
-  {
-    id: "product-grid",
-    name: "Product Grid",
-    type: "PRODUCT_GRID",
-    category: "Products",
-    icon: "📦",
-    description: "Grid layout for product display", 
-    defaultProps: {
-      title: "Our Products",
-      columns: 2,
-      showPrice: true,
-      showRating: true,
-      aspectRatio: "1:1",
-      dataSource: "mock", // "mock", "collection", "products"
-      collectionId: "",
-      productIds: []
-    },
-    config: {
-      properties: [
-        { name: "title", type: "text", label: "Section Title" },
-        { name: "dataSource", type: "select", label: "Data Source", options: ["mock", "collection", "products"] },
-        { name: "collectionId", type: "shopify_collection", label: "Shopify Collection", condition: { field: "dataSource", value: "collection" } },
-        { name: "productIds", type: "shopify_products", label: "Select Products", condition: { field: "dataSource", value: "products" } },
-        { name: "columns", type: "number", label: "Columns", min: 1, max: 3 } as any,
-        { name: "showPrice", type: "boolean", label: "Show Price" },
-        { name: "showRating", type: "boolean", label: "Show Rating" },
-        { name: "aspectRatio", type: "select", label: "Image Aspect Ratio", options: ["1:1", "4:3", "16:9"] }
-      ]
-    }
-  },
-  {
-    id: "text-block",
-    name: "Text Block",
-    type: "TEXT_BLOCK", 
-    category: "Content",
-    icon: "📝",
-    description: "Rich text content block",
-    defaultProps: {
-      content: "<h2>Your Heading Here</h2><p>Add your content here. You can use rich text formatting.</p>",
-      textAlign: "left",
-      fontSize: "16px",
-      lineHeight: "1.5"
-    },
-    config: {
-      properties: [
-        { name: "content", type: "richtext", label: "Content" },
-        { name: "textAlign", type: "select", label: "Text Alignment", options: ["left", "center", "right"] },
-        { name: "fontSize", type: "select", label: "Font Size", options: ["14px", "16px", "18px", "20px", "24px"] },
-        { name: "lineHeight", type: "select", label: "Line Height", options: ["1.2", "1.4", "1.5", "1.6", "1.8"] }
-      ]
-    }
-  },
-  {
-    id: "image",
-    name: "Image",
-    type: "IMAGE",
-    category: "Media",
-    icon: "🖼️", 
-    description: "Single image display",
-    defaultProps: {
-      imageUrl: "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=300&fit=crop",
-      alt: "Store showcase",
-      aspectRatio: "16:9",
-      objectFit: "cover",
-      borderRadius: "8px"
-    },
-    config: {
-      properties: [
-        { name: "imageUrl", type: "image", label: "Image URL" },
-        { name: "alt", type: "text", label: "Alt Text" },
-        { name: "aspectRatio", type: "select", label: "Aspect Ratio", options: ["1:1", "4:3", "16:9", "21:9"] },
-        { name: "objectFit", type: "select", label: "Object Fit", options: ["cover", "contain", "fill"] },
-        { name: "borderRadius", type: "select", label: "Border Radius", options: ["0px", "4px", "8px", "12px", "24px"] }
-      ]
-    }
-  },
-  {
-    id: "hero-slider",
-    name: "Hero Slider",
-    type: "HERO_SLIDER",
-    category: "Media",
-    icon: "🎬",
-    description: "Professional slider for images and videos with navigation",
-    defaultProps: {
-      slides: [
-        { url: "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=400&fit=crop", type: "image" },
-        { url: "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=800&h=400&fit=crop", type: "image" }
-      ],
-      slide1Url: "https://images.unsplash.com/photo-1560472354-b33ff0c44a43?w=800&h=400&fit=crop",
-      slide1Type: "image",
-      slide2Url: "https://images.unsplash.com/photo-1556742049-0cfed4f6a45d?w=800&h=400&fit=crop",
-      slide2Type: "image",
-      slide3Url: "",
-      slide3Type: "image",
-      slide4Url: "",
-      slide4Type: "image",
-      slide5Url: "",
-      slide5Type: "image",
-      height: 250,
-      borderRadius: 12,
-      autoPlay: true,
-      autoPlayInterval: 4000,
-      showDots: true,
-      showArrows: true
-    },
-    config: {
-      properties: [
-        { name: "slide1Url", type: "shopify_image", label: "Slide 1 - Image/Video URL", description: "Browse or enter URL for first slide" },
-        { name: "slide1Type", type: "select", label: "Slide 1 Type", options: ["image", "video"] },
-        { name: "slide2Url", type: "shopify_image", label: "Slide 2 - Image/Video URL", description: "Browse or enter URL for second slide" },
-        { name: "slide2Type", type: "select", label: "Slide 2 Type", options: ["image", "video"] },
-        { name: "slide3Url", type: "shopify_image", label: "Slide 3 - Image/Video URL (Optional)", description: "Browse or enter URL for third slide" },
-        { name: "slide3Type", type: "select", label: "Slide 3 Type", options: ["image", "video"] },
-        { name: "slide4Url", type: "shopify_image", label: "Slide 4 - Image/Video URL (Optional)", description: "Browse or enter URL for fourth slide" },
-        { name: "slide4Type", type: "select", label: "Slide 4 Type", options: ["image", "video"] },
-        { name: "slide5Url", type: "shopify_image", label: "Slide 5 - Image/Video URL (Optional)", description: "Browse or enter URL for fifth slide" },
-        { name: "slide5Type", type: "select", label: "Slide 5 Type", options: ["image", "video"] },
-        { name: "height", type: "number", label: "Height (px)", min: 150, max: 500 } as any,
-        { name: "borderRadius", type: "number", label: "Border Radius (px)", min: 0, max: 30 } as any,
-        { name: "autoPlay", type: "boolean", label: "Auto Play" },
-        { name: "autoPlayInterval", type: "number", label: "Auto Play Interval (ms)", min: 1000, max: 10000, condition: { field: "autoPlay", value: true } } as any,
-        { name: "showDots", type: "boolean", label: "Show Navigation Dots" },
-        { name: "showArrows", type: "boolean", label: "Show Navigation Arrows" }
-      ]
-    }
-  },
-  {
-    id: "product-detail-page",
-    name: "Product Detail Page",
-    type: "PRODUCT_DETAIL_PAGE",
-    category: "E-commerce",
-    icon: "🛍️",
-    description: "Complete product detail page with cart functionality",
-    defaultProps: {
-      productId: "PROD123",
-      productTitle: "Premium Wireless Headphones",
-      productDescription: "Experience crystal-clear audio with our premium wireless headphones. Features include noise cancellation, 30-hour battery life, and premium comfort padding. Perfect for music lovers, professionals, and anyone who demands the best audio experience.",
-      productPrice: "199.99",
-      compareAtPrice: "249.99",
-      productImages: [
-        "https://images.unsplash.com/photo-1505740420928-5e560c06d30e?w=500&h=500&fit=crop",
-        "https://images.unsplash.com/photo-1484704849700-f032a568e944?w=500&h=500&fit=crop",
-        "https://images.unsplash.com/photo-1583394838336-acd977736f90?w=500&h=500&fit=crop"
-      ],
-      productVendor: "AudioTech Pro",
-      productType: "Electronics",
-      productTags: ["featured", "bestseller", "wireless", "premium"],
-      inStock: true,
-      stockQuantity: 25,
-      showQuantitySelector: true,
-      showDescription: true,
-      showVendor: true,
-      showProductType: true,
-      showTags: true,
-      showComparePrice: true,
-      showStockStatus: true,
-      addToCartButtonText: "Add to Cart",
-      addToCartButtonColor: "#007AFF",
-      quantityButtonColor: "#F0F0F0",
-      priceColor: "#000000",
-      compareAtPriceColor: "#999999",
-      descriptionColor: "#333333",
-      backgroundColor: "#FFFFFF",
-      showImageIndicators: true,
-      enableImageZoom: false
-    },
-    config: {
-      properties: [
-        { name: "productId", type: "text", label: "Product ID", description: "Unique identifier for the product" },
-        { name: "productTitle", type: "text", label: "Product Title", description: "Main product name" },
-        { name: "productDescription", type: "textarea", label: "Product Description", description: "Detailed product description" },
-        { name: "productPrice", type: "text", label: "Product Price", description: "Current selling price (without currency symbol)" },
-        { name: "compareAtPrice", type: "text", label: "Compare At Price", description: "Original/MSRP price for comparison" },
-        { name: "productImages", type: "image_array", label: "Product Images", description: "Multiple product images" },
-        { name: "productVendor", type: "text", label: "Brand/Vendor", description: "Product brand or vendor name" },
-        { name: "productType", type: "text", label: "Product Type", description: "Category or type of product" },
-        { name: "productTags", type: "text_array", label: "Product Tags", description: "Tags for filtering and categorization" },
-        { name: "inStock", type: "boolean", label: "In Stock" },
-        { name: "stockQuantity", type: "number", label: "Stock Quantity", min: 0, max: 999 } as any,
-        { name: "showQuantitySelector", type: "boolean", label: "Show Quantity Selector" },
-        { name: "showDescription", type: "boolean", label: "Show Description" },
-        { name: "showVendor", type: "boolean", label: "Show Vendor/Brand" },
-        { name: "showProductType", type: "boolean", label: "Show Product Type" },
-        { name: "showTags", type: "boolean", label: "Show Tags" },
-        { name: "showComparePrice", type: "boolean", label: "Show Compare Price" },
-        { name: "showStockStatus", type: "boolean", label: "Show Stock Status" },
-        { name: "addToCartButtonText", type: "text", label: "Add to Cart Button Text" },
-        { name: "addToCartButtonColor", type: "color", label: "Add to Cart Button Color" },
-        { name: "quantityButtonColor", type: "color", label: "Quantity Button Color" },
-        { name: "priceColor", type: "color", label: "Price Color" },
-        { name: "compareAtPriceColor", type: "color", label: "Compare Price Color" },
-        { name: "descriptionColor", type: "color", label: "Description Text Color" },
-        { name: "backgroundColor", type: "color", label: "Background Color" },
-        { name: "showImageIndicators", type: "boolean", label: "Show Image Indicators" },
-        { name: "enableImageZoom", type: "boolean", label: "Enable Image Zoom" }
-      ]
-    }
-  },
-  {
-    id: "button",
-    name: "Button",
-    type: "BUTTON",
-    category: "Interactive",
-    icon: "🔘",
-    description: "Call-to-action button",
-    defaultProps: {
-      text: "Shop Now",
-      link: "/products",
-      variant: "primary",
-      size: "medium",
-      fullWidth: false,
-      icon: "🛍️"
-    },
-    config: {
-      properties: [
-        { name: "text", type: "text", label: "Button Text" },
-        { name: "link", type: "text", label: "Link URL" },
-        { name: "variant", type: "select", label: "Style", options: ["primary", "secondary", "outline", "ghost"] },
-        { name: "size", type: "select", label: "Size", options: ["small", "medium", "large"] },
-        { name: "fullWidth", type: "boolean", label: "Full Width" },
-        { name: "icon", type: "text", label: "Icon (emoji or name)" }
-      ]
-    }
-  },
-  {
-    id: "spacer",
-    name: "Spacer",
-    type: "SPACER",
-    category: "Layout",
-    icon: "⬜",
-    description: "Empty space for layout control",
-    defaultProps: {
-      height: "24px"
-    },
-    config: {
-      properties: [
-        { name: "height", type: "select", label: "Height", options: ["8px", "16px", "24px", "32px", "48px", "64px"] }
-      ]
-    }
-  }
-];
-
 export const themePresets = [
   {
     id: "modern",
@@ -729,6 +277,29 @@ export const themePresets = [
   }
 ];
 
+// Fonts a theme can use; every preset font is one of them
+export const themeFonts = [
+  "Inter",
+  "SF Pro Display",
+  "Roboto",
+  "Helvetica Neue",
+  "Open Sans",
+  "Lato",
+  "Montserrat",
+  "Poppins"
+];
+
+// Mirrors the PageType enum in prisma/schema.prisma
+export const pageTypes = [
+  { value: "HOME", label: "Home", icon: "🏠" },
+  { value: "CATEGORY", label: "Category", icon: "🏷️" },
+  { value: "PRODUCT", label: "Product", icon: "📦" },
+  { value: "CART", label: "Cart", icon: "🛒" },
+  { value: "PROFILE", label: "Profile", icon: "👤" },
+  { value: "LANDING", label: "Landing", icon: "🎯" },
+  { value: "CUSTOM", label: "Custom", icon: "📄" }
+];
+
 export function generateId(): string {
   return Math.random().toString(36).substr(2, 9);
 }
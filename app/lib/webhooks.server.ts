@@ -0,0 +1,54 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "../db.server";
+import { logger } from "./logger.server";
+
+// Shopify stops retrying a delivery after 48 hours; ids are kept a day longer
+const WEBHOOK_EVENT_TTL_MS = 72 * 60 * 60 * 1000;
+
+interface WebhookDelivery {
+  webhookId: string;
+  shop: string;
+  topic: string;
+}
+
+// Runs a webhook handler at most once per webhook id. Shopify delivers a
+// webhook again when it does not get a 200 in time, so the same id can arrive
+// more than once. Returns false for deliveries that were already processed.
+export async function processWebhookOnce(delivery: WebhookDelivery, handler: () => Promise<void>): Promise<boolean> {
+  try {
+    await prisma.webhookEvent.create({
+      data: {
+        webhookId: delivery.webhookId,
+        shop: delivery.shop,
+        topic: delivery.topic
+      }
+    });
+  } catch (error) {
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002") {
+      logger.info("Skipping already processed webhook", { shop: delivery.shop, topic: delivery.topic, webhookId: delivery.webhookId });
+      return false;
+    }
+    throw error;
+  }
+
+  try {
+    await handler();
+  } catch (error) {
+    // Forget the delivery so Shopify's retry gets processed
+    await prisma.webhookEvent.delete({ where: { webhookId: delivery.webhookId } });
+    throw error;
+  }
+
+  return true;
+}
+
+// Forgets deliveries too old to be retried, so the table doesn't grow forever
+export async function pruneWebhookEvents(now: Date = new Date()) {
+  const { count } = await prisma.webhookEvent.deleteMany({
+    where: { processedAt: { lt: new Date(now.getTime() - WEBHOOK_EVENT_TTL_MS) } }
+  });
+  if (count > 0) {
+    logger.info("Pruned processed webhooks", { count });
+  }
+  return count;
+}
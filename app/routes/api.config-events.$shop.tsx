@@ -0,0 +1,82 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "@remix-run/node";
+import { subscribeConfigChanges } from "../lib/config-events.server";
+import { authorizePublicRequest, publicApiPreflight } from "../lib/client-keys.server";
+import { checkRateLimit, withRateLimit } from "../lib/rate-limit.server";
+import { logger, withRequestContext } from "../lib/logger.server";
+
+// Proxies close connections that stay silent for about a minute
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+
+export const loader = withRequestContext(withRateLimit(configEventsLoader));
+
+// Server-Sent Events stream of a shop's config changes. Each "config-changed"
+// event tells the app to fetch the live config again.
+async function configEventsLoader({ request, params }: LoaderFunctionArgs) {
+  const { shop } = params;
+
+  if (!shop) {
+    return new Response("Shop parameter required", { status: 400 });
+  }
+
+  // EventSource can't send headers, so apps pass their client key as ?key=
+  const access = await authorizePublicRequest(request, shop);
+  if (!access.ok) {
+    return access.response;
+  }
+  const limited = await checkRateLimit(request, shop, access.headers);
+  if (limited) {
+    return limited;
+  }
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      // Browsers reconnect after `retry` milliseconds when the stream drops
+      write(`retry: 5000\nevent: ready\ndata: ${JSON.stringify({ shop })}\n\n`);
+
+      const unsubscribe = subscribeConfigChanges(shop, change => {
+        write(`event: config-changed\ndata: ${JSON.stringify(change)}\n\n`);
+      });
+      const heartbeat = setInterval(() => write(": keep-alive\n\n"), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        request.signal.removeEventListener("abort", cleanup);
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener("abort", cleanup);
+      logger.debug("Config event stream opened");
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      ...access.headers,
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive"
+    }
+  });
+}
+
+export async function action({ request, params }: ActionFunctionArgs) {
+  return publicApiPreflight(request, params.shop);
+}
@@ -0,0 +1,47 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { authorizePublicRequest, publicApiPreflight } from "../lib/client-keys.server";
+import { readFontFile } from "../lib/fonts.server";
+import { checkRateLimit, withRateLimit } from "../lib/rate-limit.server";
+import { withRequestContext } from "../lib/logger.server";
+
+export const loader = withRequestContext(withRateLimit(fontFileLoader));
+
+// Serves an uploaded font file listed in the live config's font manifest. A
+// replaced file gets a new URL, so a file never changes once served.
+async function fontFileLoader({ request, params }: LoaderFunctionArgs) {
+  const { shop, variantId } = params;
+
+  if (!shop || !variantId) {
+    return json({ error: "Shop and font parameters required" }, { status: 400 });
+  }
+
+  // Stylesheets can't send headers, so browsers pass the client key as ?key=
+  const access = await authorizePublicRequest(request, shop);
+  if (!access.ok) {
+    return access.response;
+  }
+  const limited = await checkRateLimit(request, shop, access.headers);
+  if (limited) {
+    return limited;
+  }
+
+  const font = await readFontFile(shop, variantId);
+  if (!font) {
+    return json({ error: "Font not found" }, { status: 404, headers: access.headers });
+  }
+
+  return new Response(font.data, {
+    headers: {
+      ...access.headers,
+      "Content-Type": font.mimeType,
+      "Content-Length": String(font.data.length),
+      "Cache-Control": "private, max-age=31536000, immutable",
+      ETag: `"${font.variant.checksum}"`
+    }
+  });
+}
+
+// Files are read-only; anything but GET lands here and only preflights are answered
+export async function action({ request, params }: ActionFunctionArgs) {
+  return publicApiPreflight(request, params.shop);
+}
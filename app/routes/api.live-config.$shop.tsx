@@ -1,268 +1,340 @@
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
 import { prisma } from "../db.server";
-import { authenticate } from "../shopify.server";
+import { unauthenticated } from "../shopify.server";
 import { shopifyApi } from '@shopify/shopify-api';
-import { componentLibrary } from "../lib/utils";
+import { getDraftSnapshots, getPublishedSnapshots } from "../lib/template-versions.server";
+import type { TemplateSnapshotComponent } from "../lib/template-diff";
+import { getComponentDefinition } from "../lib/component-registry";
+import { migrateProps, resolveProps } from "../lib/component-schema";
+import { getShopifyData, type CatalogFreshness } from "../lib/shopify-cache.server";
+import { startCatalogSync } from "../lib/catalog-sync.server";
+import { getDemoCatalog } from "../lib/demo-catalog.server";
+import { resolveDataSource, type DataSourceCatalog, type ResolvedDataSource } from "../lib/data-sources";
+import { diffLiveConfig, type LiveConfig } from "../lib/live-config-delta";
+import { getLiveConfigFingerprint, hashJson, hashLiveConfig, recordLiveConfigVersion } from "../lib/live-config-versions.server";
+import { authorizePublicRequest, hasPreviewKey, publicApiPreflight } from "../lib/client-keys.server";
+import { checkRateLimit, withRateLimit } from "../lib/rate-limit.server";
+import { toLiveTheme } from "../lib/themes.server";
+import { getNextScheduleChange, resolveEffectiveTheme } from "../lib/theme-schedule";
+import { DEFAULT_THEME_COLORS, resolveThemeTokens, type ThemeColors } from "../lib/theme-tokens";
+import { getFontManifest } from "../lib/fonts.server";
+import { logger, withRequestContext } from "../lib/logger.server";
 
-const GET_PRODUCTS_QUERY = `
-  query {
-    products(first: 10) {
-      edges {
-        node {
-          id
-          title
-          handle
-          vendor
-          images(first: 1) {
-            edges {
-              node {
-                url
-                altText
-              }
-            }
-          }
-          variants(first: 1) {
-            edges {
-              node {
-                id
-                title
-                price
-              }
-            }
-          }
+// Mobile app shape of a catalog product. The flat image and price fields are
+// what older app versions read; newer ones use the full images, options and variants.
+function toMobileProduct(product: any) {
+  return {
+    id: product.id,
+    title: product.title,
+    handle: product.handle,
+    image: product.images?.[0]?.url || "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=400&fit=crop",
+    price: product.variants?.[0]?.price?.amount || "29.99",
+    compareAtPrice: product.variants?.[0]?.compareAtPrice?.amount,
+    vendor: product.vendor || "",
+    images: product.images || [],
+    options: product.options || [],
+    variants: product.variants || []
+  };
+}
+
+// "syncing" means the snapshot served is missing or out of date and a sync is
+// under way; "unavailable" means the catalog could not be read or synced, e.g.
+// because the shop has no offline token; "demo" means demo products are served instead
+interface LiveCatalogStatus {
+  freshness: CatalogFreshness | "syncing" | "unavailable" | "demo";
+  syncedAt: Date | null;
+  demoCatalog?: string;
+}
+
+type MobilePage = { components: ReturnType<typeof toMobileComponent>[] };
+
+// Ids of the products the pages show: those their data sources embed and any a
+// prop names directly, such as a product detail page's product
+function referencedProductIds(pages: MobilePage[]) {
+  const ids = new Set<string>();
+  for (const page of pages) {
+    for (const component of page.components) {
+      component.data?.products.forEach(product => ids.add(product.id));
+      for (const value of Object.values(component.props || {})) {
+        if (typeof value === "string") {
+          ids.add(value);
+        } else if (Array.isArray(value)) {
+          value.filter((id): id is string => typeof id === "string").forEach(id => ids.add(id));
         }
       }
     }
   }
-`;
+  return ids;
+}
+
+// If-None-Match may list several tags, and weak ones match too for GET
+function matchesEtag(ifNoneMatch: string | null, etag: string) {
+  if (!ifNoneMatch) {
+    return false;
+  }
+  return ifNoneMatch.split(",").some(tag => {
+    const candidate = tag.trim().replace(/^W\//, "");
+    return candidate === "*" || candidate === etag;
+  });
+}
+
+// Transform a published snapshot component to the mobile app format. Props are
+// upgraded to the current schema version and checked against the schema;
+// invalid or missing values get defaults. Components that show products get
+// them embedded as `data`, resolved from their data source. Colors bound to a
+// theme token are sent as the effective theme's color.
+function toMobileComponent(comp: TemplateSnapshotComponent, index: number, pageId: string, catalog: DataSourceCatalog, themeColors: ThemeColors) {
+  const definition = getComponentDefinition(comp.componentId);
+  let props: Record<string, unknown> = comp.props;
+  let data: ResolvedDataSource | null = null;
+  
+  if (definition) {
+    const migrated = migrateProps(definition, comp.props || {}, comp.schemaVersion ?? 1);
+    const resolved = resolveProps(definition, migrated.props);
+    if (resolved.errors.length > 0) {
+      logger.warn("Invalid component props, using defaults", { component: definition.name, pageId, errors: resolved.errors.map(error => error.message) });
+    }
+    props = resolveThemeTokens(definition.config.properties, resolved.props, themeColors);
+    data = resolveDataSource(definition, props, catalog);
+    if (data && data.missingProductIds.length > 0) {
+      logger.warn("Component shows products missing from the catalog", { component: definition.name, pageId, productIds: data.missingProductIds });
+    }
+    if (data?.missingCollectionId) {
+      logger.warn("Component shows a collection missing from the catalog", { component: definition.name, pageId, collectionId: data.missingCollectionId });
+    }
+  } else {
+    logger.warn("Unknown component, serving props as saved", { componentId: comp.componentId, pageId });
+  }
+  
+  return {
+    // Older snapshots don't keep the component's id, so derive one from the position
+    id: comp.id ?? `${pageId}-${index}`,
+    componentId: comp.componentId,
+    type: comp.type,
+    props,
+    ...(data ? { data: { source: data.source, collectionId: data.collectionId, products: data.products } } : {}),
+    order: comp.order
+  };
+}
+
+export const loader = withRequestContext(withRateLimit(liveConfigLoader));
 
-export async function loader({ request, params }: LoaderFunctionArgs) {
+async function liveConfigLoader({ request, params }: LoaderFunctionArgs) {
   const { shop } = params;
   
   if (!shop) {
     return json({ error: "Shop parameter required" }, { status: 400 });
   }
 
+  const access = await authorizePublicRequest(request, shop);
+  if (!access.ok) {
+    return access.response;
+  }
+  const limited = await checkRateLimit(request, shop, access.headers);
+  if (limited) {
+    return limited;
+  }
+  const corsHeaders = access.headers;
+
+  // `draft=1` serves the saved drafts instead of the published versions, for
+  // preview builds; they send the app's preview key as well
+  const draft = new URL(request.url).searchParams.get("draft") === "1";
+  if (draft && !hasPreviewKey(request, access.mobileApp)) {
+    return json({ error: "A valid preview key is required for drafts" }, { status: 403, headers: corsHeaders });
+  }
+
     try {
-    // First try to get cached real Shopify data from main app builder
-    let shopifyProducts = [];
+    // Products come from the synced catalog. A missing or out of date snapshot
+    // is served as it is while a sync runs in the background, with the offline
+    // token stored when the app was installed.
+    let shopifyProducts: any[] = [];
+    let shopifyCollections: any[] = [];
+    let catalogStatus: LiveCatalogStatus = { freshness: "missing", syncedAt: null };
     
     try {
-      const { getShopifyData } = await import("../lib/shopify-cache");
-      const cachedData = getShopifyData(shop);
+      const cachedData = await getShopifyData(shop);
+      
+      const syncing = cachedData?.freshness !== "fresh" &&
+        startCatalogSync(shop, async () => (await unauthenticated.admin(shop)).admin);
+      if (syncing) {
+        logger.info("Catalog snapshot out of date, syncing in the background", { freshness: cachedData?.freshness ?? "missing" });
+      }
       
-      if (cachedData && cachedData.products.length > 0) {
-        console.log(`✅ Using cached real Shopify data for ${shop}`);
-        shopifyProducts = cachedData.products.map((product: any) => ({
-          id: product.id,
-          title: product.title,
-          handle: product.handle,
-          image: product.images?.[0]?.url || "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=400&fit=crop",
-          price: product.variants?.[0]?.price?.amount || "29.99",
-          vendor: product.vendor || "",
-        }));
-        console.log(`📱 Live config serving ${shopifyProducts.length} real products with real images`);
+      if (cachedData) {
+        catalogStatus = { freshness: syncing ? "syncing" : cachedData.freshness, syncedAt: cachedData.lastUpdated };
+        shopifyProducts = cachedData.products.map(toMobileProduct);
+        shopifyCollections = cachedData.collections;
+        logger.debug("Using catalog snapshot", { freshness: cachedData.freshness, products: shopifyProducts.length });
       } else {
-        console.log(`⚠️ No cached data available for ${shop}, trying authentication...`);
-        
-        // Fallback: try direct authentication (probably won't work but worth trying)
-        try {
-          const { admin, session } = await authenticate.admin(request);
-          if (session && session.shop === shop) {
-            console.log("✅ Direct authentication succeeded for live config");
-            const productsResponse = await admin.graphql(GET_PRODUCTS_QUERY);
-            const productsData = await productsResponse.json();
-            
-            if (productsData.data?.products?.edges) {
-              shopifyProducts = productsData.data.products.edges.map((edge: any) => {
-                const firstVariant = edge.node.variants?.edges?.[0]?.node;
-                const firstImage = edge.node.images?.edges?.[0]?.node;
-                return {
-                  id: edge.node.id,
-                  title: edge.node.title,
-                  handle: edge.node.handle,
-                  image: firstImage?.url || "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=400&fit=crop",
-                  price: firstVariant?.price || "29.99",
-                  vendor: edge.node.vendor || "",
-                };
-              });
-            }
-          }
-        } catch (authError) {
-          console.log("⚠️ Direct authentication failed:", (authError as Error).message);
-        }
+        catalogStatus = { freshness: syncing ? "syncing" : "unavailable", syncedAt: null };
       }
-    } catch (cacheError) {
-      console.log("⚠️ Error accessing cache:", cacheError);
+    } catch (catalogError) {
+      logger.warn("Catalog unavailable", { error: catalogError });
+      catalogStatus = { freshness: "unavailable", syncedAt: null };
     }
     
-    // If still no real data, use real TryOnGoEye products for tryongoeye.myshopify.com
-    if (shopifyProducts.length === 0) {
-      if (shop === "tryongoeye.myshopify.com") {
-        console.log("📦 Using real TryOnGoEye products for live config");
-        shopifyProducts = [
-          {
-            id: "gid://shopify/Product/8758188720407",
-            title: "Computer Blue Light Blocking Glasses",
-            handle: "computer-blue-light-blocking-glasses", 
-            image: "https://goeye.in/cdn/shop/files/Artboard1_1_540x.png?v=1703680115",
-            price: "29.99",
-            compareAtPrice: "39.99",
-            vendor: "TryOnGoEye Store"
-          },
-          {
-            id: "gid://shopify/Product/8758188753175", 
-            title: "Premium Reading Glasses",
-            handle: "premium-reading-glasses",
-            image: "https://goeye.in/cdn/shop/files/Artboard2_1_540x.png?v=1703680115",
-            price: "24.99",
-            compareAtPrice: "34.99",
-            vendor: "TryOnGoEye Store"
-          },
-          {
-            id: "gid://shopify/Product/8758188785943",
-            title: "Designer Sunglasses Collection",
-            handle: "designer-sunglasses-collection",
-            image: "https://goeye.in/cdn/shop/files/Artboard3_1_540x.png?v=1703680115", 
-            price: "49.99",
-            compareAtPrice: "69.99",
-            vendor: "TryOnGoEye Store"
-          },
-          {
-            id: "gid://shopify/Product/8758188818711",
-            title: "Anti-Glare Gaming Glasses",
-            handle: "anti-glare-gaming-glasses",
-            image: "https://goeye.in/cdn/shop/files/Artboard4_1_540x.png?v=1703680115", 
-            price: "34.99",
-            vendor: "TryOnGoEye Store"
-          }
-        ];
-      } else {
-        console.log("📦 No cached data available, creating realistic demo products");
-        shopifyProducts = [
-          {
-            id: "gid://shopify/Product/001",
-            title: "Wireless Earbuds Pro",
-            handle: "wireless-earbuds-pro", 
-            image: "https://images.unsplash.com/photo-1590658165737-15a047b7692f?w=400&h=400&fit=crop&crop=center",
-            price: "129.99",
-            vendor: shop.split('.')[0] + " Store"
-          },
-          {
-            id: "gid://shopify/Product/002", 
-            title: "Smart Watch Series X",
-            handle: "smart-watch-series-x",
-            image: "https://images.unsplash.com/photo-1523275335684-37898b6baf30?w=400&h=400&fit=crop&crop=center",
-            price: "249.99",
-            vendor: shop.split('.')[0] + " Store"
-          },
-          {
-            id: "gid://shopify/Product/003",
-            title: "Premium Phone Case",
-            handle: "premium-phone-case",
-            image: "https://images.unsplash.com/photo-1601593346740-925612772716?w=400&h=400&fit=crop&crop=center", 
-            price: "39.99",
-            vendor: shop.split('.')[0] + " Store"
-          },
-          {
-            id: "gid://shopify/Product/004",
-            title: "Bluetooth Speaker Mini",
-            handle: "bluetooth-speaker-mini",
-            image: "https://images.unsplash.com/photo-1608043152269-423dbba4e7e1?w=400&h=400&fit=crop&crop=center", 
-            price: "79.99",
-            vendor: shop.split('.')[0] + " Store"
-          }
-        ];
-      }
+    // Demo products stand in for a missing catalog in demo mode, and never otherwise
+    const demoCatalog = getDemoCatalog();
+    if (shopifyProducts.length === 0 && demoCatalog) {
+      logger.info("Serving the demo catalog", { demoCatalog: demoCatalog.name });
+      shopifyProducts = demoCatalog.products;
+      catalogStatus = { freshness: "demo", syncedAt: null, demoCatalog: demoCatalog.name };
     }
 
-    // Get the specific live-preview template for this shop
+    // Get the app's pages; devices only ever see their published snapshots,
+    // preview builds may ask for the drafts
     const mobileApp = await prisma.mobileApp.findUnique({
       where: { shop: shop },
       include: {
-        pages: {
-          include: {
-            components: {
-              include: {
-                component: true
-              },
-              orderBy: {
-                order: 'asc'
-              }
-            }
-          },
-          orderBy: { updatedAt: 'desc' }
-        }
+        pages: true,
+        themes: true
       }
     });
 
-    if (!mobileApp || !mobileApp.pages.length) {
+    if (!mobileApp) {
       return json({ 
         error: "No mobile app or templates found for this shop",
         hasApp: false 
+      }, { status: 404, headers: corsHeaders });
+    }
+
+    const publishedSnapshots = draft ? await getDraftSnapshots(mobileApp.id) : await getPublishedSnapshots(mobileApp.id);
+    const catalog: DataSourceCatalog = { products: shopifyProducts, collections: shopifyCollections };
+
+    // Worked out per request, so a scheduled theme starts and ends on time even
+    // if no scheduler run happened in between
+    const now = new Date();
+    const effectiveTheme = resolveEffectiveTheme(mobileApp.themes, mobileApp.activeThemeId, now);
+    const themeColors: ThemeColors = effectiveTheme.theme || DEFAULT_THEME_COLORS;
+
+    // Every published page of the app, in navigation order, for multi-page mobile apps
+    const pages = mobileApp.pages
+      .filter(page => publishedSnapshots.has(page.id))
+      .sort((a, b) => a.order - b.order)
+      .map(page => {
+        const published = publishedSnapshots.get(page.id)!;
+        return {
+          id: page.id,
+          name: published.snapshot.page.name,
+          slug: published.snapshot.page.slug,
+          type: page.type,
+          isHomePage: page.isHomePage,
+          order: page.order,
+          version: published.version,
+          components: published.snapshot.components.map((comp, index) => toMobileComponent(comp, index, page.id, catalog, themeColors)),
+          updatedAt: published.publishedAt
+        };
       });
+
+    // The template served at the top level is chosen explicitly in the builder
+    if (!mobileApp.activeTemplateId) {
+      logger.warn("No active template set");
+      return json({ 
+        error: "No active template is set for this shop. Choose one in the app builder.",
+        hasApp: true 
+      }, { status: 404, headers: corsHeaders });
     }
 
-    // Look for the specific live-preview template first, then fall back to latest
-    let targetTemplate = mobileApp.pages.find(page => page.name === 'live-preview-1751483946613');
-    
-    // If the specific template doesn't exist, use the latest template
+    const targetTemplate = pages.find(page => page.id === mobileApp.activeTemplateId);
     if (!targetTemplate) {
-      targetTemplate = mobileApp.pages[0];
-      console.log(`⚠️ Template live-preview-1751483946613 not found, using latest: ${targetTemplate.name}`);
-    } else {
-      console.log(`✅ Found specific template: ${targetTemplate.name}`);
+      logger.warn("Active template has not been published", { pageId: mobileApp.activeTemplateId });
+      return json({ 
+        error: "The active template has not been published yet",
+        hasApp: true 
+      }, { status: 404, headers: corsHeaders });
     }
 
-    // Transform database components to mobile app format
-    const components = targetTemplate.components.map(comp => {
-      // Find the corresponding component library entry by type and name
-      const componentLibEntry = componentLibrary.find(c => 
-        c.type === comp.component.type && c.name === comp.component.name
-      );
-      
-      return {
-        id: comp.id,
-        componentId: componentLibEntry?.id || comp.component.name.toLowerCase().replace(/\s+/g, '-'),
-        type: comp.component.type,
-        props: comp.props,
-        order: comp.order
-      };
-    });
+    logger.debug("Serving active template", { pageId: targetTemplate.id, version: targetTemplate.version });
+
+    const homePage = pages.find(page => page.isHomePage) || pages[0];
+    const productIds = referencedProductIds(pages);
 
     const config = {
       id: targetTemplate.id,
       name: targetTemplate.name,
       slug: targetTemplate.slug,
       shop: shop,
-      components: components,
-      products: shopifyProducts,
+      version: targetTemplate.version,
+      components: targetTemplate.components,
+      pages: pages,
+      homePageId: homePage.id,
+      // Only the products the pages show, not the whole catalog
+      products: shopifyProducts.filter(product => productIds.has(product.id)),
+      // Colors and font the app is styled with; null when no theme is active
+      theme: effectiveTheme.theme ? toLiveTheme(effectiveTheme.theme, effectiveTheme.source, effectiveTheme.until) : null,
+      // When a schedule next starts or ends; devices should fetch the config again then
+      themeChangesAt: getNextScheduleChange(mobileApp.themes, now),
+      // Uploaded fonts any theme of the app uses, so a scheduled theme's font is
+      // already downloaded when it starts. Families not listed are system fonts.
+      fonts: await getFontManifest(mobileApp, {
+        families: [...new Set(mobileApp.themes.map(theme => theme.fontFamily))],
+        baseUrl: process.env.SHOPIFY_APP_URL || new URL(request.url).origin
+      }),
+      // Where `products` came from and how current it is
+      catalogStatus,
       updatedAt: targetTemplate.updatedAt,
       hasApp: true
     };
 
-    // Add CORS headers for cross-origin requests
-    return json(config, {
+    // Hash the config as devices receive it, with dates already serialized
+    const body: LiveConfig = JSON.parse(JSON.stringify(config));
+    const hash = hashLiveConfig(body);
+    const etag = `"${hash}"`;
+
+    // Devices may keep the config but must check it is current before using it
+    const cacheHeaders = {
+      ...corsHeaders,
+      "Cache-Control": "no-cache"
+    };
+
+    // A device holding this config already had its version recorded when it was sent
+    if (matchesEtag(request.headers.get("If-None-Match"), etag)) {
+      return new Response(null, { status: 304, headers: { ...cacheHeaders, ETag: etag } });
+    }
+
+    // Config versions number what devices were sent; drafts are always sent whole
+    const configVersion = draft ? null : await recordLiveConfigVersion(shop, body, hash);
+
+    // `since=<configVersion>` asks for the changes since a config the device already has
+    const since = parseInt(new URL(request.url).searchParams.get("since") || "", 10);
+    if (configVersion !== null && Number.isInteger(since)) {
+      if (since === configVersion) {
+        return new Response(null, { status: 304, headers: { ...cacheHeaders, ETag: etag } });
+      }
+
+      const previous = await getLiveConfigFingerprint(shop, since);
+      if (previous) {
+        logger.debug("Serving config delta", { since, configVersion });
+        return json({
+          ...diffLiveConfig(previous, body, hashJson),
+          configVersion,
+          since,
+          delta: true
+        }, { headers: { ...cacheHeaders, ETag: etag } });
+      }
+      // Too old to diff against; the full config below replaces it
+    }
+
+    return json({ ...body, configVersion, delta: false, draft }, {
       headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type",
-        "Cache-Control": "no-cache, no-store, must-revalidate"
+        ...cacheHeaders,
+        ETag: etag
       }
     });
 
   } catch (error) {
-    console.error("Error fetching live config:", error);
+    logger.error("Failed to build live config", { error });
     return json({ 
       error: "Failed to fetch configuration",
       hasApp: false 
     }, { 
       status: 500,
-      headers: {
-        "Access-Control-Allow-Origin": "*",
-        "Access-Control-Allow-Methods": "GET, POST, PUT, DELETE, OPTIONS",
-        "Access-Control-Allow-Headers": "Content-Type"
-      }
+      headers: corsHeaders
     });
   }
-} 
\ No newline at end of file
+} 
+
+// The config is read-only; anything but GET lands here and only preflights are answered
+export async function action({ request, params }: ActionFunctionArgs) {
+  return publicApiPreflight(request, params.shop);
+}
@@ -2,9 +2,10 @@ import { json, type LoaderFunctionArgs } from "@remix-run/node";
 import { useLoaderData, Link } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
 import { formatDate } from "../lib/utils";
+import { getThrottledCounts } from "../lib/rate-limit.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
+  const { session } = await authenticate.admin(request);
   
   // Mock data - replace with actual database queries
   const mockData = {
@@ -19,7 +20,10 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     ]
   };
   
-  return json(mockData);
+  // Requests from installed apps refused by the rate limiter in the last 24 hours
+  const throttled = await getThrottledCounts(session.shop);
+  
+  return json({ ...mockData, throttled });
 };
 
 export default function AppIndex() {
@@ -170,6 +174,37 @@ export default function AppIndex() {
         </div>
       </div>
 
+      {/* Rate Limiting */}
+      <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold mb-2">🚦 Throttled Requests</h2>
+            <p className="text-sm text-gray-500">
+              Requests from your installed app refused in the last 24 hours for going over the rate limit
+            </p>
+          </div>
+          <p className={`text-2xl font-bold ${data.throttled.total > 0 ? 'text-orange-600' : 'text-gray-900'}`}>
+            {data.throttled.total.toLocaleString()}
+          </p>
+        </div>
+        {data.throttled.total > 0 && (
+          <div className="grid grid-cols-3 gap-4 mt-4 text-sm">
+            <div>
+              <p className="text-gray-600">Per device IP</p>
+              <p className="font-semibold">{data.throttled.byScope.ip.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Per client key</p>
+              <p className="font-semibold">{data.throttled.byScope.clientKey.toLocaleString()}</p>
+            </div>
+            <div>
+              <p className="text-gray-600">Whole shop</p>
+              <p className="font-semibold">{data.throttled.byScope.shop.toLocaleString()}</p>
+            </div>
+          </div>
+        )}
+      </div>
+
       {/* Quick Actions */}
       <div className="mb-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Quick Actions</h2>
@@ -1,9 +1,39 @@
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
 import { json, type LoaderFunctionArgs, type ActionFunctionArgs } from "@remix-run/node";
 import { useLoaderData, useFetcher, Link } from "@remix-run/react";
 import { authenticate } from "../shopify.server";
-import { componentLibrary, generateId, cn, formatPrice } from "../lib/utils";
+import { generateId, cn, formatPrice, formatDate, pageTypes } from "../lib/utils";
+import { componentLibrary, findComponentDefinition } from "../lib/component-registry";
+import { migrateProps, type ComponentDefinition, type PropertyDefinition } from "../lib/component-schema";
+import { migrateAllTemplates, type TemplateMigrationReport } from "../lib/component-migrations.server";
+import { validatePageComponents, type ComponentValidationError } from "../lib/template-validation";
+import type { PageType } from "@prisma/client";
 import { prisma } from "../db.server";
+import { findPageForShop, getOrCreateMobileApp, getPageComponentRowIds, getUniquePageSlug, slugify } from "../lib/mobile-app.server";
+import { getLatestVersionNumber, getVersionHistory, publishPage, rollbackPage } from "../lib/template-versions.server";
+import { publishConfigChange } from "../lib/config-events.server";
+import { createSection, deleteSection, listSections, sectionLinkFields, syncLinkedSections } from "../lib/sections.server";
+import { parseTemplateBundle, type ShopifyReference, type TemplateBundle } from "../lib/template-bundle";
+import { exportTemplateBundle, importTemplateBundle } from "../lib/template-bundle.server";
+import { getCatalogCollections, getCatalogProducts, getCatalogStatus, searchCatalogProducts } from "../lib/shopify-cache.server";
+import { isCatalogSyncing, startCatalogSync, syncCatalog } from "../lib/catalog-sync.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+import { resolveEffectiveTheme } from "../lib/theme-schedule";
+import { DEFAULT_THEME_COLORS, THEME_TOKENS, isThemeToken, resolveThemeToken, resolveThemeTokens, type ThemeColors } from "../lib/theme-tokens";
+import { summarizeDiff, type TemplateDiffEntry } from "../lib/template-diff";
+import { checkComponentContrast, checkThemeContrast, formatRatio, type ContrastIssue } from "../lib/contrast";
+import { getFontManifest } from "../lib/fonts.server";
+import { fontFaceCss, fontStack } from "../lib/fonts";
+import { ensureClientKey } from "../lib/client-keys.server";
+import {
+  useCanvasHistory,
+  addComponentCommand,
+  removeComponentCommand,
+  moveComponentCommand,
+  updatePropsCommand,
+  replaceComponentsCommand,
+  type CanvasPage
+} from "../lib/canvas-history";
 import {
   DndContext,
   DragEndEvent,
@@ -23,136 +53,54 @@ import {
 } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 
-// Simplest possible GraphQL queries for testing
-const GET_PRODUCTS_QUERY = `
-  query {
-    products(first: 10) {
-      edges {
-        node {
-          id
-          title
-          handle
-          vendor
-          images(first: 1) {
-            edges {
-              node {
-                url
-                altText
-              }
-            }
-          }
-          variants(first: 1) {
-            edges {
-              node {
-                id
-                title
-                price
-              }
-            }
-          }
-        }
-      }
+// Products sent with the builder for previews; the product picker searches the rest
+const PREVIEW_PRODUCT_COUNT = 24;
+
+export const loader = withRequestContext(async ({ request }: LoaderFunctionArgs) => {
+  try {
+    const { admin, session } = await authenticate.admin(request);
+    addLogContext({ shop: session.shop });
+    
+    // The whole catalog is synced in the background when the snapshot is
+    // missing or out of date, and the page loads with what there is meanwhile;
+    // webhooks keep it current in between
+    const initialCatalogStatus = await getCatalogStatus(session.shop);
+    if (initialCatalogStatus.freshness !== "fresh" && startCatalogSync(session.shop, async () => admin)) {
+      logger.info("Syncing catalog from Shopify", { freshness: initialCatalogStatus.freshness });
     }
-  }
-`;
-
-const GET_COLLECTIONS_QUERY = `
-  query {
-    collections(first: 5) {
-      edges {
-        node {
-          id
-          title
-          handle
+
+    // Previews need the first products plus any product a saved page shows
+    const savedComponents = await prisma.pageComponent.findMany({
+      where: { page: { app: { shop: session.shop } } },
+      select: { props: true }
+    });
+    const referencedProductIds = new Set<string>();
+    for (const { props } of savedComponents) {
+      for (const value of Object.values(props as Record<string, unknown>)) {
+        if (Array.isArray(value)) {
+          value
+            .filter((id): id is string => typeof id === "string" && id.startsWith("gid://shopify/Product/"))
+            .forEach(id => referencedProductIds.add(id));
         }
       }
     }
-  }
-`;
 
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  console.log("🚀 LOADER FUNCTION CALLED - Starting...");
-  
-  try {
-    console.log("🔐 Attempting Shopify authentication...");
-    const { admin, session } = await authenticate.admin(request);
-    console.log("✅ Successfully authenticated with Shopify Admin API");
-    
-    console.log("🔍 Fetching products and collections from Shopify...");
-    console.log("📋 Products Query:", GET_PRODUCTS_QUERY);
-    console.log("📋 Collections Query:", GET_COLLECTIONS_QUERY);
-    
-    // Fetch real products and collections from Shopify
-    console.log("⏳ Making GraphQL requests...");
-    const [productsResponse, collectionsResponse] = await Promise.all([
-      admin.graphql(GET_PRODUCTS_QUERY),
-      admin.graphql(GET_COLLECTIONS_QUERY)
+    const [previewPage, referencedProducts, shopifyCollections] = await Promise.all([
+      searchCatalogProducts(session.shop, { pageSize: PREVIEW_PRODUCT_COUNT }),
+      getCatalogProducts(session.shop, Array.from(referencedProductIds)),
+      getCatalogCollections(session.shop)
     ]);
-    
-    console.log("📦 Received responses, parsing JSON...");
-    const productsData = await productsResponse.json();
-    const collectionsData = await collectionsResponse.json();
-
-    // Log the raw responses for debugging
-    console.log("🔍 Products Response Status:", productsResponse.status);
-    console.log("🔍 Collections Response Status:", collectionsResponse.status);
-    console.log("📄 Products Data:", JSON.stringify(productsData, null, 2));
-    console.log("📄 Collections Data:", JSON.stringify(collectionsData, null, 2));
-
-    // Check for GraphQL errors
-    if ((productsData as any).errors) {
-      console.error("❌ Products GraphQL Errors:", (productsData as any).errors);
-    }
-    if ((collectionsData as any).errors) {
-      console.error("❌ Collections GraphQL Errors:", (collectionsData as any).errors);
-    }
-    
-    // Check if data exists
-    console.log("🔍 Products edges count:", productsData.data?.products?.edges?.length || 0);
-    console.log("🔍 Collections edges count:", collectionsData.data?.collections?.edges?.length || 0);
-
-    // Transform Shopify data to our expected format
-    const shopifyProducts = productsData.data?.products?.edges?.map((edge: any) => {
-      const firstVariant = edge.node.variants?.edges?.[0]?.node;
-      const firstImage = edge.node.images?.edges?.[0]?.node;
-      return {
-        id: edge.node.id,
-        title: edge.node.title,
-        handle: edge.node.handle,
-        description: "",
-        images: [{ 
-          url: firstImage?.url || "https://images.unsplash.com/photo-1441986300917-64674bd600d8?w=400&h=400&fit=crop",
-          altText: firstImage?.altText || edge.node.title 
-        }],
-        variants: [{
-          id: firstVariant?.id || edge.node.id + "-variant",
-          title: firstVariant?.title || "Default",
-          price: {
-            amount: firstVariant?.price || "29.99",
-            currencyCode: "USD"
-          },
-          compareAtPrice: null
-        }],
-        vendor: edge.node.vendor || "",
-        productType: "",
-        tags: []
-      };
-    }) || [];
-
-    const shopifyCollections = collectionsData.data?.collections?.edges?.map((edge: any) => ({
-      id: edge.node.id,
-      title: edge.node.title,
-      handle: edge.node.handle,
-      description: "",
-      image: null,
-      productsCount: 5 // Default count since we can't query this field directly
-    })) || [];
-
-         console.log(`✅ Transformed ${shopifyProducts.length} products and ${shopifyCollections.length} collections`);
-
-     // Get saved templates from database
-     console.log("📋 Fetching saved templates for shop:", session.shop);
-     let savedTemplates: any[] = [];
+    const shopifyProducts = [
+      ...previewPage.products,
+      ...referencedProducts.filter(product => !previewPage.products.some(p => p.id === product.id))
+    ];
+
+     // Get the app's pages (saved templates) from database
+     let savedTemplates: SavedTemplate[] = [];
+     let sections: SavedSection[] = [];
+     // Theme tokens in color props preview with the theme the app shows right now,
+     // and so does text, in the theme's font
+     let previewTheme: PreviewTheme = { id: null, name: null, colors: DEFAULT_THEME_COLORS, fontFamily: null, fontFaces: "" };
      
      try {
        // Find the mobile app for this shop
@@ -160,8 +108,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
          where: { shop: session.shop },
          include: {
            pages: {
-             orderBy: { updatedAt: 'desc' }
-           }
+             include: {
+               _count: { select: { components: true } },
+               versions: {
+                 orderBy: { version: 'desc' },
+                 take: 1,
+                 select: { version: true, createdAt: true }
+               }
+             },
+             orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+           },
+           themes: true
          }
        });
        
@@ -170,14 +127,36 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
            id: page.id,
            name: page.name,
            slug: page.slug,
+           type: page.type,
+           isHomePage: page.isHomePage,
+           order: page.order,
+           componentCount: page._count.components,
+           publishedVersion: page.versions[0]?.version ?? null,
+           hasUnpublishedChanges: !page.versions[0] || page.updatedAt > page.versions[0].createdAt,
+           isActiveTemplate: page.id === mobileApp.activeTemplateId,
            updatedAt: page.updatedAt
          }));
-         console.log(`✅ Found ${savedTemplates.length} saved templates:`, savedTemplates.map(t => t.name));
-       } else {
-         console.log("ℹ️ No mobile app found for this shop yet");
+         sections = await listSections(mobileApp.id);
+         const { theme } = resolveEffectiveTheme(mobileApp.themes, mobileApp.activeThemeId);
+         if (theme) {
+           const { clientKey } = await ensureClientKey(mobileApp);
+           previewTheme = {
+             id: theme.id,
+             name: theme.name,
+             colors: {
+               primaryColor: theme.primaryColor,
+               secondaryColor: theme.secondaryColor,
+               backgroundColor: theme.backgroundColor,
+               textColor: theme.textColor
+             },
+             fontFamily: theme.fontFamily,
+             // Empty unless the font is one the merchant uploaded
+             fontFaces: fontFaceCss(await getFontManifest(mobileApp, { families: [theme.fontFamily], clientKey }))
+           };
+         }
        }
      } catch (error) {
-       console.error("❌ Error fetching templates:", error);
+       logger.error("Failed to load saved templates", { error });
        savedTemplates = [];
      }
 
@@ -207,21 +186,21 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
        }
      ];
 
-     console.log(`🚀 Returning ${finalProducts.length} products and ${finalCollections.length} collections to frontend`);
+     logger.debug("Builder data loaded", {
+       products: shopifyProducts.length,
+       totalProducts: previewPage.total,
+       collections: shopifyCollections.length,
+       templates: savedTemplates.length
+     });
 
-     // Cache real Shopify products for live config API
-     if (shopifyProducts.length > 0) {
-       try {
-         const { setShopifyData } = await import("../lib/shopify-cache");
-         setShopifyData(session.shop, shopifyProducts, shopifyCollections);
-       } catch (cacheError) {
-         console.log("⚠️ Failed to cache products:", cacheError);
-       }
-     }
+     const catalogStatus = { ...await getCatalogStatus(session.shop), syncing: isCatalogSyncing(session.shop) };
 
      return json({ 
        components: componentLibrary,
        savedTemplates,
+       sections,
+       catalogStatus,
+       previewTheme,
        shopifyProducts: finalProducts,
        shopifyCollections: finalCollections,
        debugInfo: {
@@ -236,14 +215,17 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
      });
 
    } catch (error) {
-     console.error("Error fetching Shopify data:", error);
+     logger.error("Failed to load builder data", { error });
      
       // Fallback if API fails
-      const savedTemplates: any[] = [];
+      const savedTemplates: SavedTemplate[] = [];
 
      return json({ 
        components: componentLibrary,
        savedTemplates,
+       sections: [] as SavedSection[],
+       catalogStatus: null,
+       previewTheme: { id: null, name: null, colors: DEFAULT_THEME_COLORS, fontFamily: null, fontFaces: "" } as PreviewTheme,
        shopifyProducts: [],
        shopifyCollections: [],
        error: "Failed to fetch Shopify data. Please check your connection.",
@@ -259,71 +241,63 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
        }
      });
    }
- };
+ });
 
-export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { admin, session } = await authenticate.admin(request);
   const shop = session.shop;
+  addLogContext({ shop });
   
   const formData = await request.formData();
   const intent = formData.get("intent");
   
-  console.log("🎯 ACTION CALLED:", intent);
-  console.log("🔍 FORM DATA KEYS:", Array.from(formData.keys()));
-  console.log("🔍 SHOP:", shop);
+  logger.debug("Builder action", { intent });
   
   if (intent === "save-template") {
     const templateName = formData.get("templateName") as string;
     const templateId = formData.get("templateId") as string;
     const pageComponentsJson = formData.get("pageComponents") as string;
     
-    console.log("💾 SAVING TEMPLATE:", {
-      templateName,
-      templateId,
-      hasComponents: !!pageComponentsJson,
-      shop: shop,
-      pageComponentsLength: pageComponentsJson ? pageComponentsJson.length : 0
-    });
-    
-    if (pageComponentsJson) {
-      try {
-        const parsed = JSON.parse(pageComponentsJson);
-        console.log("📝 PARSED COMPONENTS:", parsed.length, "components:", parsed);
-      } catch (e) {
-        console.error("❌ JSON PARSE ERROR:", e);
-      }
-    }
-    
     if (!templateName || !pageComponentsJson) {
-      console.error("❌ Missing template name or components");
+      logger.warn("Template save is missing a name or components", { templateId });
       return json({ 
         success: false, 
         message: "Missing template name or components" 
       });
     }
 
+    let submittedComponents: unknown;
     try {
-      const pageComponents = JSON.parse(pageComponentsJson);
-      console.log("📝 Parsed components:", pageComponents.length);
-      
-      // Get or create the mobile app for this shop
-      let mobileApp = await prisma.mobileApp.findUnique({
-        where: { shop: shop }
+      submittedComponents = JSON.parse(pageComponentsJson);
+    } catch (parseError) {
+      return json({ 
+        success: false, 
+        message: "Page components are not valid JSON" 
+      });
+    }
+    
+    // Reject unknown components and props that do not match their schema before touching the database
+    const { components: pageComponents, errors: validationErrors } = validatePageComponents(submittedComponents);
+    if (validationErrors.length > 0) {
+      logger.warn("Template save has invalid components", { templateId, errors: validationErrors.map(e => e.message) });
+      return json({ 
+        success: false, 
+        message: `Template has ${validationErrors.length} invalid setting(s): ${validationErrors.map(e => e.message).join("; ")}`,
+        validationErrors
       });
+    }
+
+    try {
+      // Get or create the mobile app for this shop
+      const mobileApp = await getOrCreateMobileApp(shop);
       
-      if (!mobileApp) {
-        console.log("📱 Creating new mobile app for shop:", shop);
-        mobileApp = await prisma.mobileApp.create({
-          data: {
-            shop: shop,
-            name: `${shop} Mobile App`,
-            bundleId: `com.${shop.replace(/[^a-zA-Z0-9]/g, '')}.app`,
-            status: 'DRAFT'
-          }
-        });
-      } else {
-        console.log("📱 Found existing mobile app:", mobileApp.id);
-      }
+      // Components may only stay linked to sections of this app
+      const appSections = await prisma.section.findMany({
+        where: { appId: mobileApp.id },
+        select: { id: true }
+      });
+      const sectionIds = new Set(appSections.map(section => section.id));
+      const rowIds = await getPageComponentRowIds(templateId || null, pageComponents.map(comp => comp.id));
       
       // Ensure all component definitions exist in database
       for (const comp of pageComponents) {
@@ -359,14 +333,10 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       
       // If templateId is provided, update existing template
       if (templateId) {
-        console.log("🔄 Updating existing template:", templateId);
-        
-        const existingTemplate = await prisma.appPage.findUnique({
-          where: { id: templateId }
-        });
+        const existingTemplate = await findPageForShop(shop, templateId);
         
         if (!existingTemplate) {
-          console.error("❌ Template not found:", templateId);
+          logger.warn("Template not found", { templateId });
           return json({ 
             success: false, 
             message: "Template not found." 
@@ -403,41 +373,52 @@ export const action = async ({ request }: ActionFunctionArgs) => {
             if (dbComponent) {
               await prisma.pageComponent.create({
                 data: {
+                  id: rowIds[i],
                   pageId: savedTemplate.id,
                   componentId: dbComponent.id, // Use database component ID
                   order: i,
-                  props: comp.props || comp.properties || {},
-                  styles: {}
+                  props: comp.props || {},
+                  schemaVersion: componentDef.version,
+                  styles: {},
+                  ...sectionLinkFields(comp, sectionIds)
                 }
               });
             }
           }
         }
         
+        // Linked sections on this page now update every other page that uses them
+        const syncedPages = await syncLinkedSections(savedTemplate.id);
+        if (syncedPages > 0) {
+          logger.info("Updated linked sections on other pages", { pageId: savedTemplate.id, pages: syncedPages });
+        }
+        publishConfigChange(shop, {
+          reason: "save",
+          pageId: savedTemplate.id,
+          version: await getLatestVersionNumber(savedTemplate.id)
+        });
+        
         // Auto-generate mobile app after updating template
         try {
-          console.log("🚀 Auto-generating mobile app...");
           const { execSync } = await import("child_process");
           const generateCommand = `node scripts/generateMobileApp.js ${shop}`;
           execSync(generateCommand, { cwd: process.cwd(), stdio: 'inherit' });
-          console.log("✅ Mobile app generated successfully");
         } catch (genError) {
-          console.error("⚠️ Mobile app generation failed:", genError);
+          logger.warn("Mobile app generation failed", { error: genError });
           // Don't fail the template save if mobile app generation fails
         }
 
-        console.log("✅ Template updated successfully:", savedTemplate.name);
+        logger.info("Template updated", { pageId: savedTemplate.id, components: pageComponents.length });
         return json({ 
           success: true, 
-          message: `Template "${templateName}" updated successfully! Mobile app updated.`,
+          message: `Template "${templateName}" updated successfully! Mobile app updated.` +
+            (syncedPages > 0 ? ` Linked sections were updated on ${syncedPages} other page(s).` : ""),
           templateId: savedTemplate.id,
           autoGenerated: true
         });
       } else {
         // Create new template
-        const slug = templateName.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '');
-        
-        console.log("📝 Creating new template with slug:", slug);
+        const slug = slugify(templateName);
         
         // Check if template name already exists
         const existingTemplate = await prisma.appPage.findUnique({
@@ -450,33 +431,32 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         });
 
         if (existingTemplate) {
-          console.error("❌ Template already exists:", templateName);
+          logger.warn("Template already exists", { slug });
           return json({ 
             success: false, 
             message: `Template "${templateName}" already exists. Please choose a different name or update the existing template.` 
           });
         }
         
-        // Create new template
+        // Create new template as the last page of the app; the first page becomes home
+        const pageCount = await prisma.appPage.count({
+          where: { appId: mobileApp.id }
+        });
+        
         savedTemplate = await prisma.appPage.create({
           data: {
             appId: mobileApp.id,
             name: templateName,
             slug: slug,
-            type: 'CUSTOM'
+            type: 'CUSTOM',
+            order: pageCount,
+            isHomePage: pageCount === 0
           }
         });
         
         // Create page components
         for (let i = 0; i < pageComponents.length; i++) {
           const comp = pageComponents[i];
-          console.log(`🧩 Creating component ${i + 1}/${pageComponents.length}:`, {
-            componentId: comp.componentId,
-            type: comp.type,
-            propsKeys: Object.keys(comp.props || {}),
-            propsSize: JSON.stringify(comp.props || {}).length
-          });
-          
           try {
             const componentDef = componentLibrary.find(c => c.id === comp.componentId);
             if (componentDef) {
@@ -495,56 +475,60 @@ export const action = async ({ request }: ActionFunctionArgs) => {
                 
                 await prisma.pageComponent.create({
                   data: {
+                    id: rowIds[i],
                     pageId: savedTemplate.id,
                     componentId: dbComponent.id, // Use database component ID
                     order: i,
-                    props: comp.props || comp.properties || {},
-                    styles: {}
+                    props: comp.props || {},
+                    schemaVersion: componentDef.version,
+                    styles: {},
+                    ...sectionLinkFields(comp, sectionIds)
                   }
                 });
-                console.log(`✅ Component ${i + 1} saved successfully`);
               } else {
-                console.error(`❌ Database component not found for: ${comp.componentId}`);
+                logger.warn("Database component not found", { componentId: comp.componentId });
               }
             } else {
-              console.error(`❌ Component definition not found for: ${comp.componentId}`);
+              logger.warn("Component definition not found", { componentId: comp.componentId });
             }
           } catch (compError) {
-            console.error(`❌ Failed to save component ${i + 1}:`, compError);
-            console.error(`❌ Component props:`, comp.props);
+            logger.error("Failed to save component", { componentId: comp.componentId, position: i + 1, error: compError });
             throw compError;
           }
         }
         
+        const syncedPages = await syncLinkedSections(savedTemplate.id);
+        if (syncedPages > 0) {
+          logger.info("Updated linked sections on other pages", { pageId: savedTemplate.id, pages: syncedPages });
+        }
+        publishConfigChange(shop, {
+          reason: "save",
+          pageId: savedTemplate.id,
+          version: await getLatestVersionNumber(savedTemplate.id)
+        });
+        
         // Auto-generate mobile app after saving template
         try {
-          console.log("🚀 Auto-generating mobile app...");
           const { execSync } = await import("child_process");
           const generateCommand = `node scripts/generateMobileApp.js ${shop}`;
           execSync(generateCommand, { cwd: process.cwd(), stdio: 'inherit' });
-          console.log("✅ Mobile app generated successfully");
         } catch (genError) {
-          console.error("⚠️ Mobile app generation failed:", genError);
+          logger.warn("Mobile app generation failed", { error: genError });
           // Don't fail the template save if mobile app generation fails
         }
 
-        console.log("✅ Template created successfully:", savedTemplate.name);
+        logger.info("Template created", { pageId: savedTemplate.id, components: pageComponents.length });
         return json({ 
           success: true, 
-          message: `Template "${templateName}" created successfully! Mobile app updated.`,
+          message: `Template "${templateName}" created successfully! Mobile app updated.` +
+            (syncedPages > 0 ? ` Linked sections were updated on ${syncedPages} other page(s).` : ""),
           templateId: savedTemplate.id,
           autoGenerated: true
         });
       }
     } catch (error) {
-      console.error("❌ Error saving template:", error);
       const errorDetails = error as Error;
-      console.error("❌ Error details:", {
-        name: errorDetails.name,
-        message: errorDetails.message,
-        stack: errorDetails.stack,
-        cause: (errorDetails as any).cause
-      });
+      logger.error("Failed to save template", { templateId, error, cause: (errorDetails as any).cause });
       return json({ 
         success: false, 
         message: `Failed to save template: ${errorDetails.message}` 
@@ -555,11 +539,9 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   if (intent === "load-template") {
     const templateId = formData.get("templateId") as string;
     
-    console.log("📂 LOADING TEMPLATE:", templateId);
-    
     try {
-      const template = await prisma.appPage.findUnique({
-        where: { id: templateId },
+      const template = await prisma.appPage.findFirst({
+        where: { id: templateId, app: { shop: shop } },
         include: {
           components: {
             include: {
@@ -573,39 +555,43 @@ export const action = async ({ request }: ActionFunctionArgs) => {
       });
       
       if (!template) {
-        console.error("❌ Template not found:", templateId);
+        logger.warn("Template not found", { templateId });
         return json({ success: false, message: "Template not found" });
       }
       
-      console.log("📋 Found template with", template.components.length, "components");
-      
       const templateData = {
         id: template.id,
         name: template.name,
         components: template.components.map(comp => {
           // Find the component library definition by matching database component name and type
-          const componentLibraryDef = componentLibrary.find(c => 
-            c.name === comp.component.name && c.type === comp.component.type
-          );
+          const componentLibraryDef = findComponentDefinition(comp.component);
+          
+          // Props saved with an older schema are upgraded before they reach the editor
+          let props = comp.props as Record<string, any>;
+          if (componentLibraryDef && comp.schemaVersion < componentLibraryDef.version) {
+            props = migrateProps(componentLibraryDef, props, comp.schemaVersion).props;
+            logger.debug("Upgraded component props", { component: componentLibraryDef.name, from: comp.schemaVersion, to: componentLibraryDef.version });
+          }
           
           return {
-            id: generateId(), // Generate new IDs for the loaded components
+            id: comp.id, // Saved again under the same id, see getPageComponentRowIds
             componentId: componentLibraryDef?.id || comp.componentId, // Use library ID if found, fallback to database ID
             type: comp.component.type,
-            props: comp.props as Record<string, any>,
-            order: comp.order
+            props,
+            order: comp.order,
+            sectionId: comp.sectionId ?? undefined,
+            sectionInstance: comp.sectionInstance ?? undefined
           };
         })
       };
       
-      console.log("✅ Template loaded successfully:", template.name);
       return json({ 
         success: true, 
         message: "Template loaded successfully!",
         template: templateData
       });
     } catch (error) {
-      console.error("❌ Error loading template:", error);
+      logger.error("Failed to load template", { templateId, error });
       return json({ 
         success: false, 
         message: "Failed to load template. Please try again." 
@@ -613,8 +599,379 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
   }
   
+  if (intent === "migrate-templates") {
+    try {
+      const report = await migrateAllTemplates(shop);
+      logger.info("Migrated templates", { upgraded: report.componentsUpgraded, scanned: report.componentsScanned });
+      return json({ 
+        success: true, 
+        message: `${report.componentsUpgraded} component(s) upgraded`,
+        migrationReport: report
+      });
+    } catch (error) {
+      logger.error("Failed to migrate templates", { error });
+      return json({ success: false, message: "Failed to migrate templates" });
+    }
+  }
+  
+  if (intent === "sync-catalog") {
+    try {
+      const { products, collections } = await syncCatalog(shop, admin);
+      return json({
+        success: true,
+        message: `Synced ${products.length} products and ${collections.length} collections`
+      });
+    } catch (error) {
+      logger.error("Failed to sync catalog", { error });
+      return json({ success: false, message: "Failed to sync the catalog from Shopify" });
+    }
+  }
+  
+  if (intent === "export-template") {
+    const pageId = formData.get("pageId") as string;
+    
+    try {
+      const bundle = await exportTemplateBundle(shop, pageId);
+      if (!bundle) {
+        return json({ success: false, message: "Page not found" });
+      }
+      
+      logger.info("Exported template", { pageId, components: bundle.components.length });
+      return json({ success: true, message: `Exported "${bundle.page.name}"`, bundle });
+    } catch (error) {
+      logger.error("Failed to export template", { pageId, error });
+      return json({ success: false, message: "Failed to export template" });
+    }
+  }
+  
+  if (intent === "import-template") {
+    let submittedBundle: unknown;
+    try {
+      submittedBundle = JSON.parse(formData.get("bundle") as string);
+    } catch (parseError) {
+      return json({ success: false, message: "The selected file is not valid JSON" });
+    }
+    
+    // Nothing is written unless every component matches the registry and its schema
+    const { bundle, components: bundleComponents, errors } = parseTemplateBundle(submittedBundle);
+    if (!bundle) {
+      return json({ success: false, message: `Cannot import this template:\n${errors.join("\n")}` });
+    }
+    
+    try {
+      const { page, missingReferences, importedTheme, errors: importErrors } = await importTemplateBundle(shop, admin, bundle, bundleComponents);
+      if (!page) {
+        return json({ success: false, message: `Cannot import this template:\n${importErrors.join("\n")}` });
+      }
+      logger.info("Imported template", { pageId: page.id, sourceShop: bundle.sourceShop, missingReferences: missingReferences.length });
+      return json({ 
+        success: true, 
+        message: `Imported "${page.name}" with ${bundleComponents.length} component(s)` +
+          (importedTheme ? `, and added the theme "${importedTheme.name}"` : ""),
+        createdPageId: page.id,
+        missingReferences
+      });
+    } catch (error) {
+      logger.error("Failed to import template", { error });
+      return json({ success: false, message: "Failed to import template" });
+    }
+  }
+  
+  if (intent === "create-section") {
+    const name = (formData.get("name") as string || "").trim();
+    
+    if (!name) {
+      return json({ success: false, message: "Section name is required" });
+    }
+    
+    let submittedComponents: unknown;
+    try {
+      submittedComponents = JSON.parse(formData.get("components") as string);
+    } catch (parseError) {
+      return json({ success: false, message: "Section components are not valid JSON" });
+    }
+    
+    const { components: sectionComponents, errors } = validatePageComponents(submittedComponents);
+    if (errors.length > 0 || sectionComponents.length === 0) {
+      return json({ 
+        success: false, 
+        message: errors.length > 0 ? `Section has invalid settings: ${errors.map(e => e.message).join("; ")}` : "Select at least one component"
+      });
+    }
+    
+    try {
+      const mobileApp = await getOrCreateMobileApp(shop);
+      const existingSection = await prisma.section.findUnique({
+        where: { appId_name: { appId: mobileApp.id, name } }
+      });
+      
+      if (existingSection) {
+        return json({ success: false, message: `A section named "${name}" already exists` });
+      }
+      
+      const section = await createSection(mobileApp.id, name, sectionComponents);
+      logger.info("Created section", { sectionId: section.id, components: sectionComponents.length });
+      return json({ success: true, message: `Section "${section.name}" saved` });
+    } catch (error) {
+      logger.error("Failed to create section", { error });
+      return json({ success: false, message: "Failed to save section" });
+    }
+  }
+  
+  if (intent === "delete-section") {
+    const sectionId = formData.get("sectionId") as string;
+    
+    try {
+      const section = await deleteSection(shop, sectionId);
+      if (!section) {
+        return json({ success: false, message: "Section not found" });
+      }
+      
+      logger.info("Deleted section", { sectionId: section.id });
+      return json({ success: true, message: `Section "${section.name}" deleted. Pages using it keep a detached copy.` });
+    } catch (error) {
+      logger.error("Failed to delete section", { error });
+      return json({ success: false, message: "Failed to delete section" });
+    }
+  }
+  
+  if (intent === "create-page") {
+    const pageName = ((formData.get("pageName") as string) || "").trim();
+    const pageType = (formData.get("pageType") as string) || "CUSTOM";
+    
+    if (!pageName) {
+      return json({ success: false, message: "Page name is required" });
+    }
+    if (!pageTypes.some(t => t.value === pageType)) {
+      return json({ success: false, message: `Unknown page type "${pageType}"` });
+    }
+    
+    try {
+      const mobileApp = await getOrCreateMobileApp(shop);
+      const pageCount = await prisma.appPage.count({
+        where: { appId: mobileApp.id }
+      });
+      
+      const page = await prisma.appPage.create({
+        data: {
+          appId: mobileApp.id,
+          name: pageName,
+          slug: await getUniquePageSlug(mobileApp.id, pageName),
+          type: pageType as PageType,
+          order: pageCount,
+          isHomePage: pageCount === 0
+        }
+      });
+      
+      logger.info("Page created", { pageId: page.id, type: page.type });
+      return json({ success: true, message: `Page "${page.name}" created`, createdPageId: page.id });
+    } catch (error) {
+      logger.error("Failed to create page", { error });
+      return json({ success: false, message: "Failed to create page" });
+    }
+  }
+  
+  if (intent === "rename-page") {
+    const pageId = formData.get("pageId") as string;
+    const pageName = ((formData.get("pageName") as string) || "").trim();
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    if (!pageName) {
+      return json({ success: false, message: "Page name is required" });
+    }
+    
+    // Devices keep the published name and slug until the page is published again
+    await prisma.appPage.update({
+      where: { id: page.id },
+      data: {
+        name: pageName,
+        slug: await getUniquePageSlug(page.appId, pageName, page.id)
+      }
+    });
+    
+    return json({ success: true, message: `Page renamed to "${pageName}"` });
+  }
+  
+  if (intent === "reorder-pages") {
+    const pageIds = JSON.parse((formData.get("pageIds") as string) || "[]") as string[];
+    const mobileApp = await prisma.mobileApp.findUnique({
+      where: { shop: shop },
+      include: { pages: { select: { id: true } } }
+    });
+    
+    if (!mobileApp) {
+      return json({ success: false, message: "No pages to reorder" });
+    }
+    
+    // Only accept a permutation of this app's own pages
+    const ownPageIds = new Set(mobileApp.pages.map(p => p.id));
+    if (pageIds.length !== ownPageIds.size || !pageIds.every(id => ownPageIds.has(id))) {
+      return json({ success: false, message: "Page list is out of date, please reload" });
+    }
+    
+    await prisma.$transaction(
+      pageIds.map((id, index) => prisma.appPage.update({
+        where: { id },
+        data: { order: index }
+      }))
+    );
+    
+    // Page order is served from the pages themselves, not their published versions
+    publishConfigChange(shop, { reason: "pages", pageId: null, version: null });
+    return json({ success: true, message: "Page order updated" });
+  }
+  
+  if (intent === "set-home-page") {
+    const pageId = formData.get("pageId") as string;
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    await prisma.$transaction([
+      prisma.appPage.updateMany({
+        where: { appId: page.appId, isHomePage: true },
+        data: { isHomePage: false }
+      }),
+      prisma.appPage.update({
+        where: { id: page.id },
+        data: { isHomePage: true }
+      })
+    ]);
+    
+    publishConfigChange(shop, { reason: "pages", pageId: page.id, version: null });
+    return json({ success: true, message: `"${page.name}" is now the home page` });
+  }
+  
+  if (intent === "set-active-template") {
+    const pageId = formData.get("pageId") as string;
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    await prisma.mobileApp.update({
+      where: { id: page.appId },
+      data: { activeTemplateId: page.id }
+    });
+    
+    logger.info("Active template set", { pageId: page.id });
+    publishConfigChange(shop, {
+      reason: "activate",
+      pageId: page.id,
+      version: await getLatestVersionNumber(page.id)
+    });
+    return json({ success: true, message: `"${page.name}" is now the active template served to the app` });
+  }
+  
+  if (intent === "delete-page") {
+    const pageId = formData.get("pageId") as string;
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    // Devices would be left without a template to load
+    const mobileApp = await prisma.mobileApp.findUnique({
+      where: { id: page.appId },
+      select: { activeTemplateId: true }
+    });
+    if (mobileApp?.activeTemplateId === page.id) {
+      return json({
+        success: false,
+        message: `"${page.name}" is the active template served to the app. Make another page the active template before deleting it.`
+      });
+    }
+    
+    await prisma.appPage.delete({
+      where: { id: page.id }
+    });
+    
+    // Close the gap in the ordering and make sure the app still has a home page
+    const remainingPages = await prisma.appPage.findMany({
+      where: { appId: page.appId },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }]
+    });
+    
+    await prisma.$transaction(
+      remainingPages.map((p, index) => prisma.appPage.update({
+        where: { id: p.id },
+        data: {
+          order: index,
+          ...(page.isHomePage && index === 0 ? { isHomePage: true } : {})
+        }
+      }))
+    );
+    
+    publishConfigChange(shop, { reason: "pages", pageId: page.id, version: null });
+    return json({ success: true, message: `Page "${page.name}" deleted` });
+  }
+  
+  if (intent === "publish-page") {
+    const pageId = formData.get("pageId") as string;
+    const note = (formData.get("note") as string) || "";
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    const published = await publishPage(page.id, note);
+    if (!published) {
+      return json({ success: false, message: "Failed to publish page" });
+    }
+    
+    logger.info("Published page", { pageId: page.id, version: published.version });
+    publishConfigChange(shop, { reason: "publish", pageId: page.id, version: published.version });
+    return json({
+      success: true,
+      message: `"${page.name}" published as v${published.version}`,
+      versions: await getVersionHistory(page.id)
+    });
+  }
+  
+  if (intent === "list-versions") {
+    const pageId = formData.get("pageId") as string;
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    return json({ success: true, versions: await getVersionHistory(page.id) });
+  }
+  
+  if (intent === "rollback-page") {
+    const pageId = formData.get("pageId") as string;
+    const versionId = formData.get("versionId") as string;
+    
+    const page = await findPageForShop(shop, pageId);
+    if (!page) {
+      return json({ success: false, message: "Page not found" });
+    }
+    
+    const rolledBack = await rollbackPage(page.id, versionId);
+    if (!rolledBack) {
+      return json({ success: false, message: "Version not found" });
+    }
+    
+    logger.info("Rolled back page", { pageId: page.id, version: rolledBack.version, note: rolledBack.note });
+    publishConfigChange(shop, { reason: "rollback", pageId: page.id, version: rolledBack.version });
+    return json({
+      success: true,
+      message: `"${page.name}" rolled back, now live as v${rolledBack.version}`,
+      versions: await getVersionHistory(page.id)
+    });
+  }
+  
   return json({ success: false, message: "Invalid action" });
-};
+});
 
 interface PageComponent {
   id: string;
@@ -622,10 +979,45 @@ interface PageComponent {
   type: string;
   props: Record<string, any>;
   order: number;
+  // Set while the component belongs to a use of a linked section
+  sectionId?: string;
+  sectionInstance?: string;
+}
+
+interface SavedSection {
+  id: string;
+  name: string;
+  components: { componentId: string; props: Record<string, any>; schemaVersion: number }[];
+  pageCount: number;
+  updatedAt: Date | string;
+}
+
+interface SavedTemplate {
+  id: string;
+  name: string;
+  slug: string;
+  type: string;
+  isHomePage: boolean;
+  order: number;
+  componentCount: number;
+  publishedVersion: number | null;
+  hasUnpublishedChanges: boolean;
+  isActiveTemplate: boolean;
+  updatedAt: Date | string;
+}
+
+interface PreviewTheme {
+  id: string | null;
+  name: string | null;
+  colors: ThemeColors;
+  // Null while the app has no theme, leaving the builder's own font
+  fontFamily: string | null;
+  // @font-face rules for the font, when it was uploaded
+  fontFaces: string;
 }
 
 interface ComponentItemProps {
-  component: typeof componentLibrary[0];
+  component: ComponentDefinition;
   isDragging?: boolean;
 }
 
@@ -650,14 +1042,17 @@ function ComponentItem({ component, isDragging = false }: ComponentItemProps) {
 
 interface DroppableComponentProps {
   component: PageComponent;
-  onSelect: (component: PageComponent) => void;
+  onSelect: (component: PageComponent, event: { shiftKey: boolean }) => void;
   isSelected: boolean;
+  hasErrors?: boolean;
+  // Name of the linked section the component belongs to
+  sectionName?: string;
   shopifyProducts: any[];
   shopifyCollections: any[];
   onToggleDrawer?: () => void;
 }
 
-function DroppableComponent({ component, onSelect, isSelected, shopifyProducts, shopifyCollections, onToggleDrawer }: DroppableComponentProps) {
+function DroppableComponent({ component, onSelect, isSelected, hasErrors = false, sectionName, shopifyProducts, shopifyCollections, onToggleDrawer }: DroppableComponentProps) {
   const {
     attributes,
     listeners,
@@ -684,10 +1079,11 @@ function DroppableComponent({ component, onSelect, isSelected, shopifyProducts,
         style={style}
         {...attributes}
         {...listeners}
-        onClick={() => onSelect(component)}
+        onClick={(e) => onSelect(component, e)}
         className={cn(
           "cursor-pointer transition-all overflow-hidden",
           isSelected && "ring-2 ring-blue-500",
+          hasErrors && "ring-2 ring-red-500",
           isDragging && "opacity-50"
         )}
       >
@@ -709,10 +1105,11 @@ function DroppableComponent({ component, onSelect, isSelected, shopifyProducts,
       style={style}
       {...attributes}
       {...listeners}
-      onClick={() => onSelect(component)}
+      onClick={(e) => onSelect(component, e)}
       className={cn(
         "border-2 border-dashed border-gray-300 rounded-lg p-4 mb-4 cursor-pointer transition-all",
         isSelected && "border-blue-500 bg-blue-50",
+        hasErrors && "border-red-500 border-solid",
         isDragging && "opacity-50"
       )}
     >
@@ -720,6 +1117,11 @@ function DroppableComponent({ component, onSelect, isSelected, shopifyProducts,
         <div className="flex items-center gap-2">
           <span className="text-lg">{componentDef?.icon}</span>
           <span className="font-medium">{componentDef?.name}</span>
+          {sectionName && (
+            <span className="px-1.5 py-0.5 text-[10px] font-semibold bg-purple-100 text-purple-700 rounded" title="Linked section">
+              🔗 {sectionName}
+            </span>
+          )}
         </div>
         <div className="text-xs text-gray-500">#{component.order}</div>
       </div>
@@ -743,27 +1145,23 @@ function ComponentPreview({ component, shopifyProducts, shopifyCollections, onTo
   shopifyCollections: any[];
   onToggleDrawer?: () => void;
 }) {
+  const { previewTheme } = useLoaderData<typeof loader>();
   const componentDef = componentLibrary.find(c => c.id === component.componentId);
   
   if (!componentDef) return <div>Unknown component</div>;
 
+  // Previews draw with literal colors, so theme tokens in props and defaults are resolved first
+  component = {
+    ...component,
+    props: resolveThemeTokens(componentDef.config.properties, { ...componentDef.defaultProps, ...component.props }, previewTheme.colors)
+  };
+
   switch (componentDef.type) {
     case "MOBILE_HEADER":
       // Get component definition for fallbacks
       const headerDef = componentLibrary.find(c => c.id === "mobile-header");
       const getHeaderProp = (propName: string) => {
-        const value = component.props[propName] !== undefined ? component.props[propName] : headerDef?.defaultProps[propName];
-        // Debug key properties including logo image properties
-        if (propName === "logoText" || propName === "showOfferButton" || propName === "showLogoImage" || propName === "logoImage") {
-          console.log(`🎨 ComponentPreview - ${propName}:`, {
-            componentProps: component.props[propName],
-            defaultValue: headerDef?.defaultProps[propName],
-            finalValue: value,
-            shouldShowImage: component.props["showLogoImage"] && component.props["logoImage"],
-            allProps: component.props
-          });
-        }
-        return value;
+        return component.props[propName] !== undefined ? component.props[propName] : headerDef?.defaultProps[propName];
       };
 
       return (
@@ -1300,8 +1698,7 @@ function ComponentPreview({ component, shopifyProducts, shopifyCollections, onTo
     
     case "HERO_SLIDER":
       // Count configured slides
-      const slideCount = (component.props.slides?.length || 0) + 
-        [component.props.slide1Url, component.props.slide2Url, component.props.slide3Url, component.props.slide4Url, component.props.slide5Url]
+      const slideCount = [component.props.slide1Url, component.props.slide2Url, component.props.slide3Url, component.props.slide4Url, component.props.slide5Url]
         .filter(url => url && url.trim()).length;
       
       return (
@@ -1447,37 +1844,538 @@ function ComponentPreview({ component, shopifyProducts, shopifyCollections, onTo
         </div>
       );
     
-    default:
-      return <div className="text-gray-500 text-sm">Component preview not available</div>;
-  }
-}
-
-interface PropertyEditorProps {
-  component: PageComponent | null;
-  onUpdate: (componentId: string, props: Record<string, any>) => void;
-}
-
-function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
-  const { shopifyProducts, shopifyCollections } = useLoaderData<typeof loader>();
-  const [localTextValues, setLocalTextValues] = useState<Record<string, string>>({});
-  const [localNumberValues, setLocalNumberValues] = useState<Record<string, string>>({});
-  const [localColorValues, setLocalColorValues] = useState<Record<string, string>>({});
-  const [localBooleanValues, setLocalBooleanValues] = useState<Record<string, boolean>>({});
-  
-  // Reset local values when component changes
-  useEffect(() => {
-    setLocalTextValues({});
+    case "DIVIDER":
+      return (
+        <div className="w-full flex justify-center" style={{ paddingTop: component.props.spacing, paddingBottom: component.props.spacing }}>
+          <div
+            style={{
+              width: component.props.width,
+              borderTopStyle: component.props.style,
+              borderTopColor: component.props.color,
+              borderTopWidth: `${component.props.thickness}px`
+            }}
+          />
+        </div>
+      );
+    
+    case "FAQ":
+      // Only questions that have been filled in are shown
+      const faqItems = [1, 2, 3, 4, 5]
+        .map(n => ({ question: component.props[`question${n}`], answer: component.props[`answer${n}`] }))
+        .filter(item => item.question && item.question.trim());
+      
+      return (
+        <div className="w-full p-4" style={{ backgroundColor: component.props.backgroundColor }}>
+          {component.props.title && (
+            <h3 className="font-bold text-lg mb-3" style={{ color: component.props.questionColor }}>{component.props.title}</h3>
+          )}
+          <div className="divide-y border-t border-b">
+            {faqItems.map((item, index) => (
+              <div key={index} className="py-3">
+                <div className="flex items-center justify-between text-sm font-medium" style={{ color: component.props.questionColor }}>
+                  <span>{item.question}</span>
+                  <span className="text-gray-400">{component.props.expandFirst && index === 0 ? "−" : "+"}</span>
+                </div>
+                {component.props.expandFirst && index === 0 && (
+                  <div
+                    className="text-sm mt-2"
+                    style={{ color: component.props.answerColor }}
+                    dangerouslySetInnerHTML={{ __html: item.answer || "" }}
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+          {faqItems.length === 0 && (
+            <p className="text-xs text-gray-500 text-center py-2">Add a question to show the FAQ</p>
+          )}
+        </div>
+      );
+    
+    case "TESTIMONIAL":
+      return (
+        <div
+          className={cn("w-full p-6", component.props.alignment === "center" ? "text-center" : "text-left")}
+          style={{ backgroundColor: component.props.backgroundColor, color: component.props.textColor }}
+        >
+          {component.props.showRating && (
+            <div className="text-lg mb-2" style={{ color: component.props.ratingColor }}>
+              {"★".repeat(component.props.rating || 0)}{"☆".repeat(5 - (component.props.rating || 0))}
+            </div>
+          )}
+          <div className="text-sm italic mb-4" dangerouslySetInnerHTML={{ __html: `“${component.props.quote || ""}”` }} />
+          <div className={cn("flex items-center gap-3", component.props.alignment === "center" && "justify-center")}>
+            {component.props.showAuthorImage && component.props.authorImage && (
+              <img src={component.props.authorImage} alt={component.props.authorName} className="w-10 h-10 rounded-full object-cover" />
+            )}
+            <div>
+              <div className="text-sm font-semibold">{component.props.authorName}</div>
+              {component.props.authorTitle && (
+                <div className="text-xs opacity-70">{component.props.authorTitle}</div>
+              )}
+            </div>
+          </div>
+        </div>
+      );
+    
+    case "VIDEO":
+      return (
+        <div className="w-full">
+          <div
+            className="relative w-full bg-black overflow-hidden"
+            style={{
+              aspectRatio: component.props.aspectRatio?.replace(":", "/") || "16/9",
+              borderRadius: component.props.borderRadius
+            }}
+          >
+            {component.props.posterImage && (
+              <img src={component.props.posterImage} alt={component.props.title || "Video"} className="absolute inset-0 w-full h-full object-cover opacity-80" />
+            )}
+            <div className="absolute inset-0 flex flex-col items-center justify-center text-white">
+              <div className="w-12 h-12 rounded-full bg-black bg-opacity-60 flex items-center justify-center text-xl">▶</div>
+              {!component.props.videoUrl && (
+                <p className="text-xs mt-2 bg-black bg-opacity-60 px-2 py-1 rounded">No video URL set</p>
+              )}
+            </div>
+            {component.props.showControls && (
+              <div className="absolute bottom-0 left-0 right-0 h-6 bg-gradient-to-t from-black to-transparent" />
+            )}
+          </div>
+          {component.props.title && (
+            <p className="text-sm text-gray-700 px-4 py-2">{component.props.title}</p>
+          )}
+        </div>
+      );
+    
+    case "MAP":
+      return (
+        <div className="w-full p-4">
+          {component.props.title && (
+            <h3 className="font-bold text-lg mb-3">{component.props.title}</h3>
+          )}
+          <div
+            className={cn(
+              "w-full rounded-lg flex items-center justify-center relative overflow-hidden",
+              component.props.mapType === "satellite" ? "bg-green-800" : "bg-green-100"
+            )}
+            style={{ height: component.props.height || 250 }}
+          >
+            <div className="absolute inset-0 opacity-30" style={{ backgroundImage: "linear-gradient(#fff 1px, transparent 1px), linear-gradient(90deg, #fff 1px, transparent 1px)", backgroundSize: "24px 24px" }} />
+            <span className="text-3xl relative">📍</span>
+            <span className="absolute bottom-2 right-2 text-xs text-gray-600 bg-white bg-opacity-80 px-1 rounded">Zoom {component.props.zoom}</span>
+          </div>
+          {component.props.showAddress && component.props.address && (
+            <p className="text-sm text-gray-600 mt-2">{component.props.address}</p>
+          )}
+          {component.props.showDirectionsButton && (
+            <button className="mt-2 w-full py-2 text-sm font-medium border border-gray-300 rounded">
+              {component.props.directionsButtonText}
+            </button>
+          )}
+        </div>
+      );
+    
+    case "SOCIAL_FEED":
+      const postCount = component.props.postsToShow || 6;
+      
+      return (
+        <div className="w-full p-4">
+          <div className="flex items-center justify-between mb-3">
+            <div>
+              {component.props.title && <h3 className="font-bold text-lg">{component.props.title}</h3>}
+              <p className="text-xs text-gray-500">@{component.props.username} on {component.props.platform}</p>
+            </div>
+            {component.props.showFollowButton && (
+              <button
+                className="px-3 py-1 text-xs font-semibold text-white rounded-full"
+                style={{ backgroundColor: component.props.followButtonColor }}
+              >
+                {component.props.followButtonText}
+              </button>
+            )}
+          </div>
+          <div className="grid gap-1" style={{ gridTemplateColumns: `repeat(${component.props.columns || 3}, 1fr)` }}>
+            {Array.from({ length: postCount }, (_, i) => (
+              <div key={i} className="aspect-square bg-gradient-to-br from-pink-200 to-purple-200 flex items-center justify-center text-gray-500 text-xs">
+                Post {i + 1}
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    
+    case "FORM":
+      const formFields = [
+        { show: component.props.showNameField, label: "Name" },
+        { show: component.props.showEmailField, label: "Email" },
+        { show: component.props.showPhoneField, label: "Phone" }
+      ].filter(field => field.show);
+      
+      return (
+        <div className="w-full p-4" style={{ backgroundColor: component.props.backgroundColor }}>
+          {component.props.title && (
+            <h3 className="font-bold text-lg mb-1">{component.props.title}</h3>
+          )}
+          {component.props.description && (
+            <p className="text-sm text-gray-600 mb-3">{component.props.description}</p>
+          )}
+          <div className="space-y-2">
+            {formFields.map(field => (
+              <div key={field.label} className="w-full px-3 py-2 text-sm text-gray-400 border border-gray-300 rounded">
+                {field.label}
+              </div>
+            ))}
+            {component.props.showMessageField && (
+              <div className="w-full px-3 py-2 h-16 text-sm text-gray-400 border border-gray-300 rounded">Message</div>
+            )}
+            <button
+              className="w-full py-2 text-sm font-medium text-white rounded"
+              style={{ backgroundColor: component.props.submitButtonColor }}
+            >
+              {component.props.submitButtonText}
+            </button>
+          </div>
+        </div>
+      );
+    
+    case "PRODUCT_LIST":
+      let listProducts = shopifyProducts;
+      
+      if (component.props.dataSource === "collection" && component.props.collectionId) {
+        const selectedCollection = shopifyCollections.find(c => c.id === component.props.collectionId);
+        if (selectedCollection) {
+          listProducts = shopifyProducts.slice(0, selectedCollection.productsCount);
+        }
+      } else if (component.props.dataSource === "products" && component.props.productIds?.length > 0) {
+        listProducts = shopifyProducts.filter(p => component.props.productIds.includes(p.id));
+      }
+      
+      const listImageSize = { small: 48, medium: 64, large: 96 }[component.props.imageSize as string] || 64;
+      
+      return (
+        <div className="w-full p-4">
+          {component.props.title && (
+            <h3 className="font-bold text-lg mb-3">{component.props.title}</h3>
+          )}
+          <div className={cn(component.props.showDividers && "divide-y")}>
+            {listProducts.slice(0, component.props.itemsToShow || 4).map((product: any, index: number) => (
+              <div key={index} className="flex items-center gap-3 py-2">
+                <img
+                  src={product.images?.[0]?.url || product.imageUrl}
+                  alt={product.title}
+                  className="rounded object-cover flex-shrink-0"
+                  style={{ width: listImageSize, height: listImageSize }}
+                />
+                <div className="flex-1 min-w-0">
+                  <h4 className="font-medium text-sm truncate">{product.title}</h4>
+                  {component.props.showVendor && product.vendor && (
+                    <p className="text-xs text-gray-500">{product.vendor}</p>
+                  )}
+                  {component.props.showPrice && (
+                    <p className="text-sm text-blue-600 font-semibold">
+                      {formatPrice(product.variants?.[0]?.price?.amount || "0")}
+                    </p>
+                  )}
+                </div>
+                {component.props.showAddToCart && (
+                  <button className="px-3 py-1 text-xs font-medium bg-blue-600 text-white rounded">
+                    {component.props.addToCartButtonText}
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          {listProducts.length === 0 && (
+            <p className="text-xs text-gray-500 text-center py-2">No products to show</p>
+          )}
+        </div>
+      );
+    
+    default:
+      return <div className="text-gray-500 text-sm">Component preview not available</div>;
+  }
+}
+
+// Formats an ISO date for a datetime-local input, which expects local time without a zone
+function toDateTimeLocalValue(value: unknown): string {
+  const date = new Date(typeof value === "string" ? value : "");
+  if (Number.isNaN(date.getTime())) {
+    return "";
+  }
+  const local = new Date(date.getTime() - date.getTimezoneOffset() * 60000);
+  return local.toISOString().slice(0, 16);
+}
+
+interface CatalogSearchResult {
+  products: any[];
+  query: string;
+  page: number;
+  pageCount: number;
+  total: number;
+}
+
+interface ProductPickerProps {
+  selectedIds: string[];
+  // Products the builder already has, used to name the selected ones
+  knownProducts: any[];
+  onChange: (productIds: string[]) => void;
+  // Called with a product when it is picked, so previews can show it
+  onPick?: (product: any) => void;
+}
+
+// Searches the synced catalog page by page instead of listing every product
+function ProductPicker({ selectedIds, knownProducts, onChange, onPick }: ProductPickerProps) {
+  const searchFetcher = useFetcher<CatalogSearchResult>();
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const { load } = searchFetcher;
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      load(`/app/catalog/products?q=${encodeURIComponent(query)}&page=${page}`);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [load, query, page]);
+
+  const result = searchFetcher.data;
+  const products = result?.products || [];
+  const productTitle = (id: string) =>
+    [...products, ...knownProducts].find((product: any) => product.id === id)?.title || "Product not in catalog";
+
+  return (
+    <div>
+      <input
+        type="search"
+        className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 mb-2 text-sm"
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setPage(1);
+        }}
+        placeholder="Search by title, handle or vendor..."
+      />
+      <div className={cn("max-h-60 overflow-y-auto border border-gray-300 rounded-md", searchFetcher.state !== "idle" && "opacity-60")}>
+        {products.map((product: any) => (
+          <label key={product.id} className="flex items-center p-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0">
+            <input
+              type="checkbox"
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-3"
+              checked={selectedIds.includes(product.id)}
+              onChange={(e) => {
+                if (e.target.checked) {
+                  onPick?.(product);
+                  onChange([...selectedIds, product.id]);
+                } else {
+                  onChange(selectedIds.filter(id => id !== product.id));
+                }
+              }}
+            />
+            <div className="flex items-center space-x-3 flex-1 min-w-0">
+              {product.images[0]?.url ? (
+                <img 
+                  src={product.images[0].url} 
+                  alt={product.title}
+                  className="w-8 h-8 object-cover rounded"
+                />
+              ) : (
+                <div className="w-8 h-8 bg-gray-100 rounded" />
+              )}
+              <div className="flex-1 min-w-0">
+                <div className="text-sm font-medium text-gray-900 truncate">{product.title}</div>
+                <div className="text-xs text-blue-600">
+                  {formatPrice(product.variants[0]?.price?.amount || "0", product.variants[0]?.price?.currencyCode)}
+                  {product.variants.length > 1 && <span className="text-gray-500"> • {product.variants.length} variants</span>}
+                </div>
+              </div>
+            </div>
+          </label>
+        ))}
+        {result && products.length === 0 && (
+          <p className="p-3 text-xs text-gray-500 text-center">
+            {result.query ? `No products match "${result.query}"` : "The catalog has no products yet"}
+          </p>
+        )}
+        {!result && (
+          <p className="p-3 text-xs text-gray-500 text-center">Loading products...</p>
+        )}
+      </div>
+      {result && result.pageCount > 1 && (
+        <div className="flex items-center justify-between mt-2 text-xs text-gray-600">
+          <button
+            type="button"
+            onClick={() => setPage(result.page - 1)}
+            disabled={result.page <= 1}
+            className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50"
+          >
+            ← Prev
+          </button>
+          <span>Page {result.page} of {result.pageCount} • {result.total} products</span>
+          <button
+            type="button"
+            onClick={() => setPage(result.page + 1)}
+            disabled={result.page >= result.pageCount}
+            className="px-2 py-1 border border-gray-300 rounded disabled:opacity-50"
+          >
+            Next →
+          </button>
+        </div>
+      )}
+      <div className="mt-2 text-xs text-gray-500">
+        {selectedIds.length} product(s) selected
+      </div>
+      {selectedIds.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {selectedIds.map(id => (
+            <span key={id} className="inline-flex items-center gap-1 px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded">
+              {productTitle(id)}
+              <button
+                type="button"
+                onClick={() => onChange(selectedIds.filter(selectedId => selectedId !== id))}
+                className="hover:text-blue-900"
+                title="Remove"
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ColorPropertyInputProps {
+  // A hex color or a theme token
+  value: string;
+  theme: { name: string | null; colors: ThemeColors };
+  onChange: (value: string) => void;
+}
+
+// Color field that can bind to a theme token instead of holding a literal color
+function ColorPropertyInput({ value, theme, onChange }: ColorPropertyInputProps) {
+  const boundToken = isThemeToken(value) ? value : null;
+  
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={!!boundToken}
+          // Unbinding keeps the color the component shows now
+          onChange={(e) => onChange(e.target.checked ? "theme.primary" : resolveThemeToken(boundToken!, theme.colors))}
+        />
+        Use theme color
+      </label>
+      {boundToken ? (
+        <div className="grid grid-cols-2 gap-2">
+          {THEME_TOKENS.map(({ token, label }) => (
+            <button
+              key={token}
+              type="button"
+              onClick={() => onChange(token)}
+              className={cn(
+                "flex items-center gap-2 px-2 py-1.5 border rounded-lg text-sm transition-colors",
+                token === boundToken ? "border-blue-500 bg-blue-50" : "border-gray-300 hover:bg-gray-50"
+              )}
+            >
+              <span
+                className="w-5 h-5 rounded border border-gray-300"
+                style={{ backgroundColor: resolveThemeToken(token, theme.colors) }}
+              />
+              {label}
+            </button>
+          ))}
+          <p className="col-span-2 text-xs text-gray-500">
+            Follows {theme.name ? `the "${theme.name}" theme` : "the default colors"} and changes with the active theme
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center space-x-3">
+          <input
+            type="color"
+            className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+          />
+          <input
+            type="text"
+            className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono text-sm"
+            value={value}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder="#000000"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Inline contrast warning under a color field, with the closest passing color
+// one click away. A field bound to a theme color points at the theme instead.
+function ContrastHint({ issue, themeId, onApply }: { issue: ContrastIssue; themeId: string | null; onApply: (color: string) => void }) {
+  const themeColor = THEME_TOKENS.find(({ token }) => token === issue.token);
+
+  return (
+    <div className="flex items-center justify-between gap-2 p-2 bg-yellow-50 border border-yellow-200 rounded-lg text-xs text-yellow-800">
+      <span>
+        ⚠️ Low contrast on {issue.background}: {formatRatio(issue.ratio)}, needs {formatRatio(issue.required)}
+        {themeColor && <> — uses the theme's {themeColor.label.toLowerCase()} color</>}
+      </span>
+      {themeColor ? (
+        <Link
+          to={themeId ? `/app/themes#theme-${themeId}` : "/app/themes"}
+          className="px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100 shrink-0"
+        >
+          Fix in theme
+        </Link>
+      ) : (
+        <button
+          type="button"
+          onClick={() => onApply(issue.suggestion)}
+          className="flex items-center gap-1 px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100 shrink-0"
+          title="Closest color that passes"
+        >
+          <span className="w-3 h-3 rounded border" style={{ backgroundColor: issue.suggestion }} />
+          Use {issue.suggestion}
+        </button>
+      )}
+    </div>
+  );
+}
+
+// Input types the browser edits as text, with an undo history of their own
+const TEXT_INPUT_TYPES = new Set(["text", "search", "url", "tel", "email", "password", "number"]);
+
+function isTextEditable(target: EventTarget | null) {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target instanceof HTMLInputElement) return TEXT_INPUT_TYPES.has(target.type);
+  return target instanceof HTMLTextAreaElement || target.isContentEditable;
+}
+
+interface PropertyEditorProps {
+  component: PageComponent | null;
+  onUpdate: (componentId: string, props: Record<string, any>) => void;
+  // Errors from the last save, keyed by property name
+  fieldErrors?: Record<string, string>;
+  onProductPicked?: (product: any) => void;
+}
+
+function PropertyEditor({ component, onUpdate, fieldErrors = {}, onProductPicked }: PropertyEditorProps) {
+  const { shopifyProducts, shopifyCollections, previewTheme } = useLoaderData<typeof loader>();
+  const [localTextValues, setLocalTextValues] = useState<Record<string, string>>({});
+  const [localNumberValues, setLocalNumberValues] = useState<Record<string, string>>({});
+  const [localColorValues, setLocalColorValues] = useState<Record<string, string>>({});
+  const [localBooleanValues, setLocalBooleanValues] = useState<Record<string, boolean>>({});
+  
+  // Reset local values when component changes
+  useEffect(() => {
+    setLocalTextValues({});
     setLocalNumberValues({});
     setLocalColorValues({});
     setLocalBooleanValues({});
   }, [component?.id]);
   
-  // Debug: Log what data we're receiving
-  console.log("🔍 PropertyEditor - Shopify Products:", shopifyProducts);
-  console.log("🔍 PropertyEditor - Shopify Collections:", shopifyCollections);
-  console.log("🔍 PropertyEditor - Products count:", shopifyProducts?.length || 0);
-  console.log("🔍 PropertyEditor - Collections count:", shopifyCollections?.length || 0);
-  
   if (!component) {
     return (
       <div className="p-6 text-center text-gray-500">
@@ -1492,64 +2390,28 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
     return <div className="p-6">Component definition not found</div>;
   }
 
+  // Keyed by the foreground field, the one the warning shows under
+  const contrastIssues = new Map(
+    checkComponentContrast(componentDef, component.props, previewTheme.colors).map(issue => [issue.field, issue])
+  );
+
   const handlePropertyChange = (propertyName: string, value: any) => {
-    console.log("🔧 PropertyEditor - Property Change:", {
-      componentId: component.id,
-      componentType: component.componentId,
-      propertyName,
-      oldValue: component.props[propertyName],
-      newValue: value,
-      allProps: component.props,
-      isLogoImage: propertyName === 'logoImage'
-    });
-    
-    // Additional debug for logo image
-    if (propertyName === 'logoImage') {
-      console.log("🖼️ LOGO IMAGE PROPERTY UPDATE:", {
-        oldUrl: component.props[propertyName],
-        newUrl: value,
-        updateData: {
-          ...component.props,
-          [propertyName]: value
-        }
-      });
-    }
-    
     onUpdate(component.id, {
       ...component.props,
       [propertyName]: value
     });
   };
 
-  const handleProductsChange = (productIds: string[]) => {
-    handlePropertyChange("productIds", productIds);
-  };
-
   // Helper functions for local text input handling
   const handleTextInputChange = (propertyName: string, value: string) => {
-    console.log("📝 Local Text Input Change:", {
-      propertyName,
-      value,
-      componentId: component.id,
-      isLogoImage: propertyName === 'logoImage'
-    });
-    
     // Update local state immediately for responsive UI
     setLocalTextValues(prev => ({ ...prev, [propertyName]: value }));
     
     // Update the actual component props
     handlePropertyChange(propertyName, value);
-    
-    // Additional debug for logo image
-    if (propertyName === 'logoImage') {
-      console.log("🖼️ Logo Image URL Set:", {
-        url: value,
-        willShowPreview: !!value
-      });
-    }
   };
 
-  const getTextInputValue = (propertyName: string, componentDef: any) => {
+  const getTextInputValue = (propertyName: string, componentDef: ComponentDefinition) => {
     // Use local value if it exists, otherwise use component prop, otherwise use default
     if (localTextValues[propertyName] !== undefined) {
       return localTextValues[propertyName];
@@ -1562,12 +2424,6 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
 
   // Helper functions for number input handling
   const handleNumberInputChange = (propertyName: string, value: string) => {
-    console.log("🔢 Local Number Input Change:", {
-      propertyName,
-      value,
-      componentId: component.id
-    });
-    
     // Update local state immediately for responsive UI
     setLocalNumberValues(prev => ({ ...prev, [propertyName]: value }));
     
@@ -1576,7 +2432,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
     handlePropertyChange(propertyName, numValue);
   };
 
-  const getNumberInputValue = (propertyName: string, componentDef: any) => {
+  const getNumberInputValue = (propertyName: string, componentDef: ComponentDefinition) => {
     // Use local value if it exists, otherwise use component prop, otherwise use default
     if (localNumberValues[propertyName] !== undefined) {
       return localNumberValues[propertyName];
@@ -1589,12 +2445,6 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
 
   // Helper functions for color input handling
   const handleColorInputChange = (propertyName: string, value: string) => {
-    console.log("🎨 Local Color Input Change:", {
-      propertyName,
-      value,
-      componentId: component.id
-    });
-    
     // Update local state immediately for responsive UI
     setLocalColorValues(prev => ({ ...prev, [propertyName]: value }));
     
@@ -1602,7 +2452,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
     handlePropertyChange(propertyName, value);
   };
 
-  const getColorInputValue = (propertyName: string, componentDef: any) => {
+  const getColorInputValue = (propertyName: string, componentDef: ComponentDefinition) => {
     // Use local value if it exists, otherwise use component prop, otherwise use default
     if (localColorValues[propertyName] !== undefined) {
       return localColorValues[propertyName];
@@ -1615,12 +2465,6 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
 
   // Helper functions for boolean input handling
   const handleBooleanInputChange = (propertyName: string, value: boolean) => {
-    console.log("☑️ Local Boolean Input Change:", {
-      propertyName,
-      value,
-      componentId: component.id
-    });
-    
     // Update local state immediately for responsive UI
     setLocalBooleanValues(prev => ({ ...prev, [propertyName]: value }));
     
@@ -1628,7 +2472,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
     handlePropertyChange(propertyName, value);
   };
 
-  const getBooleanInputValue = (propertyName: string, componentDef: any) => {
+  const getBooleanInputValue = (propertyName: string, componentDef: ComponentDefinition) => {
     // Use local value if it exists, otherwise use component prop, otherwise use default
     if (localBooleanValues[propertyName] !== undefined) {
       return localBooleanValues[propertyName];
@@ -1640,7 +2484,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
   };
 
   // Check if a property should be shown based on conditions
-  const shouldShowProperty = (property: any) => {
+  const shouldShowProperty = (property: PropertyDefinition) => {
     if (!property.condition) {
       return true;
     }
@@ -1660,20 +2504,6 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
       currentValue = componentDef.defaultProps[conditionField];
     }
     
-    // Debug logging for logoImage property specifically
-    if (property.name === "logoImage") {
-      console.log("🔍 shouldShowProperty DEBUG for logoImage:", {
-        propertyName: property.name,
-        conditionField,
-        conditionValue,
-        currentValue,
-        localBooleanValue: localBooleanValues[conditionField],
-        componentProps: component.props[conditionField],
-        defaultProps: componentDef.defaultProps[conditionField],
-        result: currentValue === conditionValue
-      });
-    }
-    
     return currentValue === conditionValue;
   };
 
@@ -1691,15 +2521,18 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
         <div className="p-4 space-y-6">
         
         {componentDef.config.properties.filter(shouldShowProperty).map((property) => (
-          <div key={property.name} className="space-y-2">
+          <div key={property.name} className={cn("space-y-2", fieldErrors[property.name] && "pl-3 border-l-2 border-red-500")}>
             <label className="block text-sm font-semibold text-gray-800">
               {property.label}
             </label>
             {property.description && (
               <p className="text-xs text-gray-500">{property.description}</p>
             )}
+            {fieldErrors[property.name] && (
+              <p className="text-xs text-red-600 font-medium">⚠️ {fieldErrors[property.name]}</p>
+            )}
             
-            {property.type === "text" && (
+            {property.type === "text" && !property.list && (
               <input
                 type="text"
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
@@ -1721,7 +2554,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
               </label>
             )}
             
-            {property.type === "select" && (property as any).options && (
+            {property.type === "select" && (
               <select
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors bg-white"
                 value={component.props[property.name] || componentDef.defaultProps[property.name] || ""}
@@ -1730,7 +2563,7 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
                 {!component.props[property.name] && !componentDef.defaultProps[property.name] && (
                   <option value="">Select an option</option>
                 )}
-                {(property as any).options.map((option: string) => (
+                {property.options.map((option) => (
                   <option key={option} value={option}>
                     {option.charAt(0).toUpperCase() + option.slice(1)}
                   </option>
@@ -1792,40 +2625,12 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
             )}
 
             {property.type === "shopify_products" && (
-              <div>
-                <div className="max-h-40 overflow-y-auto border border-gray-300 rounded-md">
-                  {(shopifyProducts || []).map((product: any) => (
-                    <label key={product.id} className="flex items-center p-2 hover:bg-gray-50 border-b border-gray-100 last:border-b-0">
-                      <input
-                        type="checkbox"
-                        className="rounded border-gray-300 text-blue-600 focus:ring-blue-500 mr-3"
-                        checked={(component.props[property.name] || []).includes(product.id)}
-                        onChange={(e) => {
-                          const currentIds = component.props[property.name] || [];
-                          const newIds = e.target.checked
-                            ? [...currentIds, product.id]
-                            : currentIds.filter((id: string) => id !== product.id);
-                          handleProductsChange(newIds);
-                        }}
-                      />
-                      <div className="flex items-center space-x-3 flex-1">
-                        <img 
-                          src={product.images[0]?.url} 
-                          alt={product.title}
-                          className="w-8 h-8 object-cover rounded"
-                        />
-                        <div className="flex-1">
-                          <div className="text-sm font-medium text-gray-900 truncate">{product.title}</div>
-                          <div className="text-xs text-blue-600">{formatPrice(product.variants[0]?.price?.amount || "0", product.variants[0]?.price?.currencyCode)}</div>
-                        </div>
-                      </div>
-                    </label>
-                  ))}
-                </div>
-                <div className="mt-2 text-xs text-gray-500">
-                  {(component.props[property.name] || []).length} product(s) selected
-                </div>
-              </div>
+              <ProductPicker
+                selectedIds={component.props[property.name] || []}
+                knownProducts={shopifyProducts || []}
+                onChange={(productIds) => handlePropertyChange(property.name, productIds)}
+                onPick={onProductPicked}
+              />
             )}
             
             {property.type === "number" && (
@@ -1834,12 +2639,70 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                 value={getNumberInputValue(property.name, componentDef)}
                 onChange={(e) => handleNumberInputChange(property.name, e.target.value)}
-                min={(property as any).min}
-                max={(property as any).max}
+                min={property.min}
+                max={property.max}
                 placeholder={`Enter ${property.label.toLowerCase()}...`}
               />
             )}
             
+            {property.type === "text" && property.list && (
+              <input
+                type="text"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                value={(component.props[property.name] ?? componentDef.defaultProps[property.name] ?? []).join(", ")}
+                onChange={(e) => handlePropertyChange(
+                  property.name,
+                  e.target.value.split(",").map(item => item.trim()).filter(Boolean)
+                )}
+                placeholder="Comma separated, e.g. new, bestseller"
+              />
+            )}
+            
+            {property.type === "datetime" && (
+              <input
+                type="datetime-local"
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                value={toDateTimeLocalValue(component.props[property.name] ?? componentDef.defaultProps[property.name])}
+                onChange={(e) => {
+                  if (e.target.value) {
+                    handlePropertyChange(property.name, new Date(e.target.value).toISOString());
+                  }
+                }}
+              />
+            )}
+            
+            {property.type === "image" && !property.list && (
+              <div className="space-y-2">
+                <input
+                  type="text"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  value={getTextInputValue(property.name, componentDef)}
+                  onChange={(e) => handleTextInputChange(property.name, e.target.value)}
+                  placeholder="https://..."
+                />
+                {getTextInputValue(property.name, componentDef) && (
+                  <img
+                    src={getTextInputValue(property.name, componentDef)}
+                    alt={property.label}
+                    className="w-full h-24 object-cover rounded-lg border border-gray-200"
+                  />
+                )}
+              </div>
+            )}
+            
+            {property.type === "image" && property.list && (
+              <textarea
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono text-xs"
+                rows={4}
+                value={(component.props[property.name] ?? componentDef.defaultProps[property.name] ?? []).join("\n")}
+                onChange={(e) => handlePropertyChange(
+                  property.name,
+                  e.target.value.split("\n").map(url => url.trim()).filter(Boolean)
+                )}
+                placeholder="One image URL per line"
+              />
+            )}
+            
             {property.type === "richtext" && (
               <textarea
                 className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
@@ -1851,23 +2714,18 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
             )}
 
             {property.type === "color" && (
-              <div className="space-y-2">
-                <div className="flex items-center space-x-3">
-                  <input
-                    type="color"
-                    className="w-12 h-10 border border-gray-300 rounded-lg cursor-pointer"
-                    value={getColorInputValue(property.name, componentDef)}
-                    onChange={(e) => handleColorInputChange(property.name, e.target.value)}
-                  />
-                  <input
-                    type="text"
-                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono text-sm"
-                    value={getColorInputValue(property.name, componentDef)}
-                    onChange={(e) => handleColorInputChange(property.name, e.target.value)}
-                    placeholder="#000000"
-                  />
-                </div>
-              </div>
+              <ColorPropertyInput
+                value={getColorInputValue(property.name, componentDef)}
+                theme={previewTheme}
+                onChange={(value) => handleColorInputChange(property.name, value)}
+              />
+            )}
+            {property.type === "color" && contrastIssues.has(property.name) && (
+              <ContrastHint
+                issue={contrastIssues.get(property.name)!}
+                themeId={previewTheme.id}
+                onApply={(color) => handleColorInputChange(property.name, color)}
+              />
             )}
 
             {property.type === "shopify_image" && (
@@ -1927,22 +2785,14 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
                       });
                       
                       // Handle image selection
-                      modal.querySelectorAll('.image-option').forEach((imageDiv, index) => {
+                      modal.querySelectorAll('.image-option').forEach((imageDiv) => {
                         imageDiv.addEventListener('click', (e) => {
                           e.preventDefault();
                           e.stopPropagation();
                           
-                          console.log("🖼️ Modal Image Clicked:", {
-                            index,
-                            target: e.target,
-                            currentTarget: e.currentTarget
-                          });
-                          
                           const url = (e.currentTarget as HTMLElement).getAttribute('data-url');
-                          console.log("🔗 Extracted URL:", url);
-                          
+
                           if (url) {
-                            console.log("✅ Setting logo image URL:", url);
                             handleTextInputChange(property.name, url);
                             setTimeout(() => {
                               document.body.removeChild(modal);
@@ -1969,15 +2819,307 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
                       onClick={() => handleTextInputChange(property.name, "")}
                       className="absolute top-2 right-2 bg-red-500 text-white rounded-full w-6 h-6 flex items-center justify-center text-sm hover:bg-red-600 transition-colors"
                     >
-                      ×
+                      ×
+                    </button>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface PageListProps {
+  pages: SavedTemplate[];
+  activePageId: string | null;
+  onSelect: (pageId: string) => void;
+  onPageAction: (intent: string, fields: Record<string, string>) => void;
+  onExport: (pageId: string) => void;
+}
+
+function PageList({ pages, activePageId, onSelect, onPageAction, onExport }: PageListProps) {
+  const [newPageName, setNewPageName] = useState("");
+  const [newPageType, setNewPageType] = useState("CUSTOM");
+
+  const movePage = (index: number, direction: -1 | 1) => {
+    const reordered = arrayMove(pages, index, index + direction);
+    onPageAction("reorder-pages", { pageIds: JSON.stringify(reordered.map(p => p.id)) });
+  };
+
+  const createPage = () => {
+    if (!newPageName.trim()) return;
+    onPageAction("create-page", { pageName: newPageName.trim(), pageType: newPageType });
+    setNewPageName("");
+    setNewPageType("CUSTOM");
+  };
+
+  return (
+    <div className="mb-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Pages</h3>
+      
+      {pages.length > 0 && !pages.some(p => p.isActiveTemplate) && (
+        <p className="text-xs text-orange-600 mb-2">
+          No active template selected. Mark a page with ⭐ to serve it to the mobile app.
+        </p>
+      )}
+      
+      {pages.length === 0 ? (
+        <p className="text-xs text-gray-500 mb-2">No pages yet. Create your first page below.</p>
+      ) : (
+        <ul className="space-y-1 mb-3">
+          {pages.map((page, index) => {
+            const pageType = pageTypes.find(t => t.value === page.type);
+            return (
+              <li
+                key={page.id}
+                className={cn(
+                  "group flex items-center gap-2 px-2 py-1.5 rounded-md text-sm border",
+                  page.id === activePageId
+                    ? "bg-blue-50 border-blue-300"
+                    : "bg-white border-transparent hover:bg-gray-50"
+                )}
+              >
+                <button
+                  type="button"
+                  onClick={() => onSelect(page.id)}
+                  className="flex-1 flex items-center gap-2 text-left truncate"
+                  title={`${pageType?.label || page.type} page • ${page.componentCount} component(s)`}
+                >
+                  <span>{pageType?.icon || "📄"}</span>
+                  <span className="truncate font-medium">{page.name}</span>
+                  {page.isHomePage && (
+                    <span className="px-1.5 py-0.5 bg-green-100 text-green-800 rounded text-[10px] font-semibold">HOME</span>
+                  )}
+                  {page.isActiveTemplate && (
+                    <span className="px-1.5 py-0.5 bg-yellow-100 text-yellow-800 rounded text-[10px] font-semibold" title="Served as the app's active template">ACTIVE</span>
+                  )}
+                  {page.publishedVersion ? (
+                    <span
+                      className={cn("text-[10px]", page.hasUnpublishedChanges ? "text-orange-600" : "text-gray-500")}
+                      title={page.hasUnpublishedChanges ? "Draft has unpublished changes" : "Published"}
+                    >
+                      v{page.publishedVersion}{page.hasUnpublishedChanges ? "*" : ""}
+                    </span>
+                  ) : (
+                    <span className="text-[10px] text-orange-600" title="Never published">Draft</span>
+                  )}
+                </button>
+                
+                <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 transition-opacity">
+                  <button
+                    type="button"
+                    title="Move up"
+                    disabled={index === 0}
+                    onClick={() => movePage(index, -1)}
+                    className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ↑
+                  </button>
+                  <button
+                    type="button"
+                    title="Move down"
+                    disabled={index === pages.length - 1}
+                    onClick={() => movePage(index, 1)}
+                    className="px-1 text-gray-500 hover:text-gray-900 disabled:opacity-30"
+                  >
+                    ↓
+                  </button>
+                  <button
+                    type="button"
+                    title="Rename"
+                    onClick={() => {
+                      const pageName = prompt("Rename page", page.name);
+                      if (pageName && pageName.trim() && pageName.trim() !== page.name) {
+                        onPageAction("rename-page", { pageId: page.id, pageName: pageName.trim() });
+                      }
+                    }}
+                    className="px-1 text-gray-500 hover:text-gray-900"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    type="button"
+                    title="Export as JSON"
+                    onClick={() => onExport(page.id)}
+                    className="px-1 text-gray-500 hover:text-gray-900"
+                  >
+                    ⬇️
+                  </button>
+                  {!page.isActiveTemplate && (
+                    <button
+                      type="button"
+                      title="Set as active template"
+                      onClick={() => onPageAction("set-active-template", { pageId: page.id })}
+                      className="px-1 text-gray-500 hover:text-gray-900"
+                    >
+                      ⭐
+                    </button>
+                  )}
+                  {!page.isHomePage && (
+                    <button
+                      type="button"
+                      title="Set as home page"
+                      onClick={() => onPageAction("set-home-page", { pageId: page.id })}
+                      className="px-1 text-gray-500 hover:text-gray-900"
+                    >
+                      🏠
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    title={page.isActiveTemplate ? "The active template can't be deleted; make another page active first" : "Delete page"}
+                    disabled={page.isActiveTemplate}
+                    onClick={() => {
+                      if (confirm(`Delete page "${page.name}" and all of its components?`)) {
+                        onPageAction("delete-page", { pageId: page.id });
+                      }
+                    }}
+                    className="px-1 text-gray-500 hover:text-red-600 disabled:opacity-30 disabled:hover:text-gray-500"
+                  >
+                    🗑️
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      
+      <div className="flex gap-1">
+        <input
+          type="text"
+          value={newPageName}
+          onChange={(e) => setNewPageName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") createPage();
+          }}
+          className="flex-1 min-w-0 px-2 py-1.5 border border-gray-300 rounded-md text-sm"
+          placeholder="New page name..."
+        />
+        <select
+          value={newPageType}
+          onChange={(e) => setNewPageType(e.target.value)}
+          className="px-1 py-1.5 border border-gray-300 rounded-md text-xs"
+        >
+          {pageTypes.map(t => (
+            <option key={t.value} value={t.value}>{t.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={createPage}
+          disabled={!newPageName.trim()}
+          className="px-2 py-1.5 bg-blue-600 text-white rounded-md text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          +
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface TemplateVersionSummary {
+  id: string;
+  version: number;
+  note: string | null;
+  createdAt: Date | string;
+  componentCount: number;
+  isLive: boolean;
+  diff: TemplateDiffEntry[];
+}
+
+interface VersionHistoryProps {
+  pageName: string;
+  versions: TemplateVersionSummary[] | null;
+  isBusy: boolean;
+  onRollback: (versionId: string) => void;
+  onClose: () => void;
+}
+
+function VersionHistory({ pageName, versions, isBusy, onRollback, onClose }: VersionHistoryProps) {
+  const [expandedVersionId, setExpandedVersionId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg p-6 w-full max-w-lg max-h-[80vh] overflow-y-auto">
+        <div className="flex items-center justify-between mb-4">
+          <h3 className="text-xl font-bold">Version History – {pageName}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-2xl">&times;</button>
+        </div>
+        
+        {!versions ? (
+          <p className="text-sm text-gray-500">Loading versions...</p>
+        ) : versions.length === 0 ? (
+          <p className="text-sm text-gray-500">This page has never been published.</p>
+        ) : (
+          <ul className="space-y-3">
+            {versions.map((version) => (
+              <li key={version.id} className="border border-gray-200 rounded-lg p-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">v{version.version}</span>
+                      {version.isLive && (
+                        <span className="px-2 py-0.5 bg-green-100 text-green-800 rounded-full text-xs font-medium">Live</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {formatDate(new Date(version.createdAt))} • {version.componentCount} component(s)
+                    </div>
+                    {version.note && (
+                      <div className="text-sm text-gray-700 mt-1">{version.note}</div>
+                    )}
+                  </div>
+                  {!version.isLive && (
+                    <button
+                      onClick={() => {
+                        if (confirm(`Make v${version.version} live again? Devices will receive it on their next refresh.`)) {
+                          onRollback(version.id);
+                        }
+                      }}
+                      disabled={isBusy}
+                      className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    >
+                      ⏪ Rollback
                     </button>
-                  </div>
+                  )}
+                </div>
+                
+                <button
+                  onClick={() => setExpandedVersionId(expandedVersionId === version.id ? null : version.id)}
+                  className="mt-2 text-xs text-blue-600 hover:text-blue-800"
+                >
+                  {summarizeDiff(version.diff)}
+                  {version.diff.length > 0 && (expandedVersionId === version.id ? " ▲" : " ▼")}
+                </button>
+                
+                {expandedVersionId === version.id && version.diff.length > 0 && (
+                  <ul className="mt-2 space-y-1 text-xs">
+                    {version.diff.map((entry, index) => (
+                      <li
+                        key={index}
+                        className={cn(
+                          "px-2 py-1 rounded",
+                          entry.kind === "added" && "bg-green-50 text-green-800",
+                          entry.kind === "removed" && "bg-red-50 text-red-800",
+                          entry.kind === "changed" && "bg-yellow-50 text-yellow-800"
+                        )}
+                      >
+                        {entry.kind === "added" && `+ ${entry.componentName} (position ${entry.position})`}
+                        {entry.kind === "removed" && `− ${entry.componentName} (position ${entry.position})`}
+                        {entry.kind === "changed" && `~ ${entry.componentName}: ${entry.changedProps.join(", ")}`}
+                      </li>
+                    ))}
+                  </ul>
                 )}
-              </div>
-            )}
-          </div>
-        ))}
-        </div>
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
     </div>
   );
@@ -1985,10 +3127,66 @@ function PropertyEditor({ component, onUpdate }: PropertyEditorProps) {
 
 export default function AppBuilder() {
   const loaderData = useLoaderData<typeof loader>();
-  const { components, savedTemplates, shopifyProducts, shopifyCollections } = loaderData;
+  const { components, savedTemplates, sections, catalogStatus, shopifyProducts, shopifyCollections, previewTheme } = loaderData;
+  const catalogFetcher = useFetcher<{ success: boolean; message: string }>();
+  // Products picked in this session that the loader did not send, so previews can show them
+  const [pickedProducts, setPickedProducts] = useState<any[]>([]);
+  const previewProducts = useMemo(
+    () => [...(shopifyProducts || []), ...pickedProducts.filter(picked => !(shopifyProducts || []).some((p: any) => p.id === picked.id))],
+    [shopifyProducts, pickedProducts]
+  );
+  const handleProductPicked = useCallback((product: any) => {
+    setPickedProducts(prev => prev.some(p => p.id === product.id) ? prev : [...prev, product]);
+  }, []);
   const fetcher = useFetcher();
+  const pageFetcher = useFetcher<{ success: boolean; message: string; createdPageId?: string }>();
   const [pageComponents, setPageComponents] = useState<PageComponent[]>([]);
-  const [selectedComponent, setSelectedComponent] = useState<PageComponent | null>(null);
+  const [selectedComponentId, setSelectedComponentId] = useState<string | null>(null);
+  const selectedComponent = pageComponents.find(c => c.id === selectedComponentId) || null;
+  // Shift-clicking a second component selects the run between it and the selected one
+  const [selectionEndId, setSelectionEndId] = useState<string | null>(null);
+  useEffect(() => {
+    setSelectionEndId(null);
+  }, [selectedComponentId]);
+  const selectedRun = useMemo(() => {
+    const start = pageComponents.findIndex(c => c.id === selectedComponentId);
+    const end = selectionEndId ? pageComponents.findIndex(c => c.id === selectionEndId) : start;
+    return start === -1 || end === -1
+      ? []
+      : pageComponents.slice(Math.min(start, end), Math.max(start, end) + 1);
+  }, [pageComponents, selectedComponentId, selectionEndId]);
+  const selectComponent = useCallback((component: PageComponent, event: { shiftKey: boolean }) => {
+    if (event.shiftKey && selectedComponentId && selectedComponentId !== component.id) {
+      setSelectionEndId(component.id);
+    } else {
+      setSelectedComponentId(component.id);
+    }
+  }, [selectedComponentId]);
+  const [activePageId, setActivePageId] = useState<string | null>(null);
+  // Serialized components as last loaded/saved, used to detect unsaved changes
+  const [savedSnapshot, setSavedSnapshot] = useState<string>("[]");
+  // Per-field problems reported by the last save-template request
+  const [validationErrors, setValidationErrors] = useState<ComponentValidationError[]>([]);
+  useEffect(() => {
+    setValidationErrors([]);
+  }, [activePageId]);
+  const selectedFieldErrors = Object.fromEntries(
+    validationErrors
+      .filter(e => e.componentKey === selectedComponentId && e.field)
+      .map(e => [e.field as string, e.message])
+  );
+  
+  // Every canvas change goes through the history so it can be undone
+  const handleCanvasPageChange = useCallback((page: CanvasPage) => {
+    setActivePageId(page.pageId);
+    setSavedSnapshot(page.savedSnapshot);
+  }, []);
+  const history = useCanvasHistory(setPageComponents, handleCanvasPageChange);
+  const hasUnsavedChanges = JSON.stringify(pageComponents) !== savedSnapshot;
+  const activePage = savedTemplates.find((t: any) => t.id === activePageId) || null;
+  const migrationFetcher = useFetcher<{ success: boolean; message: string; migrationReport?: TemplateMigrationReport }>();
+  const versionFetcher = useFetcher<{ success: boolean; message?: string; versions?: TemplateVersionSummary[] }>();
+  const [showVersionHistory, setShowVersionHistory] = useState(false);
   
 
   const [activeId, setActiveId] = useState<string | null>(null);
@@ -2002,61 +3200,327 @@ export default function AppBuilder() {
   const [isLivePreview, setIsLivePreview] = useState(false);
   const [autoSaveTimeout, setAutoSaveTimeout] = useState<NodeJS.Timeout | null>(null);
   
-  // Auto-load the live preview template on component mount
+  const loadPage = useCallback((pageId: string) => {
+    const formData = new FormData();
+    formData.append("intent", "load-template");
+    formData.append("templateId", pageId);
+    fetcher.submit(formData, { method: "POST" });
+  }, [fetcher]);
+
+  // Switch the canvas to another page, guarding unsaved edits on the current one
+  const switchPage = useCallback((pageId: string) => {
+    if (pageId === activePageId) return;
+    if (hasUnsavedChanges && !confirm("You have unsaved changes on this page. Switch pages and discard them?")) {
+      return;
+    }
+    loadPage(pageId);
+  }, [activePageId, hasUnsavedChanges, loadPage]);
+
+  const submitPageAction = useCallback((intent: string, fields: Record<string, string>) => {
+    if (intent === "create-page" && hasUnsavedChanges && !confirm("You have unsaved changes on this page. Create a new page and discard them?")) {
+      return;
+    }
+    const formData = new FormData();
+    formData.append("intent", intent);
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    pageFetcher.submit(formData, { method: "POST" });
+  }, [pageFetcher, hasUnsavedChanges]);
+
+  // Auto-load the home page (or the first page) on component mount
   useEffect(() => {
     const autoLoadTemplate = async () => {
-      // Check if we have the live preview template and no components loaded
-      if (pageComponents.length === 0 && savedTemplates.length > 0) {
-        const livePreviewTemplate = savedTemplates.find((t: any) => t.name === 'live-preview-1751483946613');
-        
-        if (livePreviewTemplate) {
-          console.log('🔄 Auto-loading live preview template:', livePreviewTemplate.name);
-          
-          const formData = new FormData();
-          formData.append("intent", "load-template");
-          formData.append("templateId", livePreviewTemplate.id);
-          fetcher.submit(formData, { method: "POST" });
-        }
+      if (!activePageId && pageComponents.length === 0 && savedTemplates.length > 0) {
+        const homePage = savedTemplates.find((t: any) => t.isHomePage) || savedTemplates[0];
+        loadPage(homePage.id);
       }
     };
 
     // Small delay to ensure everything is loaded
     const timeout = setTimeout(autoLoadTemplate, 1000);
     return () => clearTimeout(timeout);
-  }, [savedTemplates, pageComponents.length, fetcher]);
+  }, [savedTemplates, pageComponents.length, activePageId, loadPage]);
+
+  // React to page management actions (create, rename, reorder, delete, set home)
+  const handledPageAction = useRef<unknown>(null);
+  useEffect(() => {
+    if (pageFetcher.state !== "idle" || !pageFetcher.data || handledPageAction.current === pageFetcher.data) return;
+    handledPageAction.current = pageFetcher.data;
+    
+    if (!pageFetcher.data.success) {
+      alert(pageFetcher.data.message);
+      return;
+    }
+    
+    // A freshly created page opens on an empty canvas
+    if (pageFetcher.data.createdPageId) {
+      history.execute(replaceComponentsCommand("Create page", pageComponents, [], {
+        before: { pageId: activePageId, savedSnapshot },
+        after: { pageId: pageFetcher.data.createdPageId, savedSnapshot: "[]" }
+      }));
+      setSelectedComponentId(null);
+    }
+  }, [pageFetcher.state, pageFetcher.data, history, pageComponents, activePageId, savedSnapshot]);
+
+  const submitVersionAction = useCallback((intent: string, fields: Record<string, string> = {}) => {
+    if (!activePage) return;
+    const formData = new FormData();
+    formData.append("intent", intent);
+    formData.append("pageId", activePage.id);
+    Object.entries(fields).forEach(([key, value]) => formData.append(key, value));
+    versionFetcher.submit(formData, { method: "POST" });
+  }, [versionFetcher, activePage]);
+
+  const handlePublish = useCallback(() => {
+    if (!activePage) return;
+    if (hasUnsavedChanges) {
+      alert("Save your changes first - only the saved draft can be published.");
+      return;
+    }
+    // Contrast problems don't block publishing, but the merchant sees them first
+    const contrastReport = [
+      ...(previewTheme.name ? checkThemeContrast(previewTheme.colors).map(issue => ({ source: `Theme "${previewTheme.name}"`, issue })) : []),
+      ...pageComponents.flatMap(comp => {
+        const definition = componentLibrary.find(c => c.id === comp.componentId);
+        return definition
+          ? checkComponentContrast(definition, comp.props, previewTheme.colors).map(issue => ({ source: definition.name, issue }))
+          : [];
+      })
+    ];
+    if (contrastReport.length > 0) {
+      const lines = contrastReport.map(({ source, issue }) =>
+        `- ${source}: ${issue.label} is ${formatRatio(issue.ratio)}, needs ${formatRatio(issue.required)} (try ${issue.suggestion})`
+      );
+      if (!confirm(`Contrast check found ${contrastReport.length} color pair(s) below WCAG AA:\n\n${lines.join("\n")}\n\nPublish anyway?`)) return;
+    }
+    const note = prompt(`Publish "${activePage.name}" to the live app. Release note (optional):`, "");
+    if (note === null) return;
+    submitVersionAction("publish-page", { note });
+  }, [activePage, hasUnsavedChanges, submitVersionAction, previewTheme, pageComponents]);
+
+  const openVersionHistory = useCallback(() => {
+    setShowVersionHistory(true);
+    submitVersionAction("list-versions");
+  }, [submitVersionAction]);
+
+  // Report publish and rollback results
+  const handledVersionAction = useRef<unknown>(null);
+  useEffect(() => {
+    if (versionFetcher.state !== "idle" || !versionFetcher.data || handledVersionAction.current === versionFetcher.data) return;
+    handledVersionAction.current = versionFetcher.data;
+    
+    if (versionFetcher.data.message) {
+      alert(versionFetcher.data.message);
+    }
+  }, [versionFetcher.state, versionFetcher.data]);
+
+  const migrateTemplates = useCallback(() => {
+    if (!confirm("Upgrade the saved components of every page to the latest component versions?")) return;
+    const formData = new FormData();
+    formData.append("intent", "migrate-templates");
+    migrationFetcher.submit(formData, { method: "POST" });
+  }, [migrationFetcher]);
+
+  // Report what the bulk migration changed
+  const handledMigration = useRef<unknown>(null);
+  useEffect(() => {
+    if (migrationFetcher.state !== "idle" || !migrationFetcher.data || handledMigration.current === migrationFetcher.data) return;
+    handledMigration.current = migrationFetcher.data;
+    
+    const report = migrationFetcher.data.migrationReport;
+    if (!report) {
+      alert(migrationFetcher.data.message);
+      return;
+    }
+    
+    const lines = [
+      `Scanned ${report.componentsScanned} component(s) on ${report.pagesScanned} page(s), upgraded ${report.componentsUpgraded}.`,
+      ...report.changes.map(change =>
+        `• ${change.pageName} – ${change.componentName}: v${change.fromVersion} → v${change.toVersion}` +
+        (change.changedProps.length > 0 ? ` (${change.changedProps.join(", ")})` : "")
+      ),
+      ...(report.unknownComponents.length > 0
+        ? [`Skipped unknown components: ${report.unknownComponents.join(", ")}`]
+        : [])
+    ];
+    alert(lines.join("\n"));
+  }, [migrationFetcher.state, migrationFetcher.data]);
+
+  const handledCatalogSync = useRef<unknown>(null);
+  useEffect(() => {
+    if (catalogFetcher.state !== "idle" || !catalogFetcher.data || handledCatalogSync.current === catalogFetcher.data) return;
+    handledCatalogSync.current = catalogFetcher.data;
+    
+    if (!catalogFetcher.data.success) {
+      alert(catalogFetcher.data.message);
+    }
+  }, [catalogFetcher.state, catalogFetcher.data]);
+
+  const bundleFetcher = useFetcher<{ success: boolean; message: string; bundle?: TemplateBundle; createdPageId?: string; missingReferences?: ShopifyReference[] }>();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const exportTemplate = useCallback((pageId: string) => {
+    const formData = new FormData();
+    formData.append("intent", "export-template");
+    formData.append("pageId", pageId);
+    bundleFetcher.submit(formData, { method: "POST" });
+  }, [bundleFetcher]);
+
+  const importTemplate = useCallback(async (file: File) => {
+    const formData = new FormData();
+    formData.append("intent", "import-template");
+    formData.append("bundle", await file.text());
+    bundleFetcher.submit(formData, { method: "POST" });
+  }, [bundleFetcher]);
+
+  // Download exports, report imports and open the imported page
+  const handledBundleAction = useRef<unknown>(null);
+  useEffect(() => {
+    if (bundleFetcher.state !== "idle" || !bundleFetcher.data || handledBundleAction.current === bundleFetcher.data) return;
+    handledBundleAction.current = bundleFetcher.data;
+    const result = bundleFetcher.data;
+    
+    if (!result.success) {
+      alert(result.message);
+      return;
+    }
+    
+    if (result.bundle) {
+      const blob = new Blob([JSON.stringify(result.bundle, null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `${result.bundle.page.slug || "template"}.template.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      return;
+    }
+    
+    const missing = result.missingReferences || [];
+    alert([
+      result.message,
+      ...(missing.length > 0
+        ? [
+            "",
+            `${missing.length} product/collection reference(s) do not exist in this shop and need to be picked again:`,
+            ...missing.map(ref => `• ${ref.componentName} #${ref.componentIndex + 1} – ${ref.field}: ${ref.kind} ${ref.id}`)
+          ]
+        : [])
+    ].join("\n"));
+    
+    if (result.createdPageId && (!hasUnsavedChanges || confirm("Open the imported page and discard your unsaved changes?"))) {
+      loadPage(result.createdPageId);
+    }
+  }, [bundleFetcher.state, bundleFetcher.data, hasUnsavedChanges, loadPage]);
+
+  const sectionFetcher = useFetcher<{ success: boolean; message: string }>();
+
+  const saveSelectionAsSection = useCallback(() => {
+    if (selectedRun.length === 0) return;
+    const name = prompt(`Save ${selectedRun.length} component(s) as a reusable section. Section name:`, "");
+    if (!name?.trim()) return;
+    
+    const formData = new FormData();
+    formData.append("intent", "create-section");
+    formData.append("name", name.trim());
+    formData.append("components", JSON.stringify(selectedRun.map(({ componentId, type, props }) => ({ componentId, type, props }))));
+    sectionFetcher.submit(formData, { method: "POST" });
+  }, [selectedRun, sectionFetcher]);
+
+  const deleteSavedSection = useCallback((section: SavedSection) => {
+    if (!confirm(`Delete section "${section.name}"? Pages that use it keep their components as a detached copy.`)) return;
+    const formData = new FormData();
+    formData.append("intent", "delete-section");
+    formData.append("sectionId", section.id);
+    sectionFetcher.submit(formData, { method: "POST" });
+  }, [sectionFetcher]);
+
+  const handledSectionAction = useRef<unknown>(null);
+  useEffect(() => {
+    if (sectionFetcher.state !== "idle" || !sectionFetcher.data || handledSectionAction.current === sectionFetcher.data) return;
+    handledSectionAction.current = sectionFetcher.data;
+    alert(sectionFetcher.data.message);
+  }, [sectionFetcher.state, sectionFetcher.data]);
+
+  // Linked uses keep pointing at the section, so saving edits to them updates every page using it
+  const insertSection = useCallback((section: SavedSection, linked: boolean) => {
+    const sectionInstance = generateId();
+    const inserted: PageComponent[] = [];
+    
+    for (const comp of section.components) {
+      const componentDef = componentLibrary.find(c => c.id === comp.componentId);
+      if (!componentDef) continue;
+      inserted.push({
+        id: generateId(),
+        componentId: comp.componentId,
+        type: componentDef.type,
+        props: { ...comp.props },
+        order: pageComponents.length + inserted.length,
+        ...(linked ? { sectionId: section.id, sectionInstance } : {})
+      });
+    }
+    
+    history.execute(replaceComponentsCommand(
+      `Insert ${linked ? "linked" : "copy of"} section "${section.name}"`,
+      pageComponents,
+      [...pageComponents, ...inserted]
+    ));
+  }, [pageComponents, history]);
+
+  const detachSection = useCallback((sectionInstance: string) => {
+    const detached = pageComponents.map(c => c.sectionInstance === sectionInstance
+      ? { ...c, sectionId: undefined, sectionInstance: undefined }
+      : c
+    );
+    history.execute(replaceComponentsCommand("Detach section", pageComponents, detached));
+  }, [pageComponents, history]);
+
+  // The active page was deleted, clear the canvas so the home page gets auto-loaded.
+  // Its history is dropped too, as undoing into a deleted page could not be saved.
+  useEffect(() => {
+    if (activePageId && !savedTemplates.some((t: any) => t.id === activePageId)) {
+      setActivePageId(null);
+      setPageComponents([]);
+      setSavedSnapshot("[]");
+      setSelectedComponentId(null);
+      history.reset();
+    }
+  }, [savedTemplates, activePageId, history]);
   
   // Handle drawer toggle
   const handleToggleDrawer = useCallback(() => {
-    console.log("🎯 handleToggleDrawer called, current state:", isDrawerOpen);
     setIsDrawerOpen(prev => !prev);
-  }, [isDrawerOpen]);
+  }, []);
   
   // Handle template loading
+  const handledTemplateLoad = useRef<unknown>(null);
   useEffect(() => {
-    if (fetcher.data && (fetcher.data as any).success && (fetcher.data as any).template) {
+    if (!fetcher.data || handledTemplateLoad.current === fetcher.data) return;
+    if ((fetcher.data as any).success && (fetcher.data as any).template) {
+      handledTemplateLoad.current = fetcher.data;
       const template = (fetcher.data as any).template;
-      setPageComponents(template.components);
-      setSelectedComponent(null);
+      const loadedPage = { pageId: template.id, savedSnapshot: JSON.stringify(template.components) };
+      
+      if (!activePageId && pageComponents.length === 0) {
+        // Nothing to go back to on the very first load
+        setPageComponents(template.components);
+        handleCanvasPageChange(loadedPage);
+      } else {
+        history.execute(replaceComponentsCommand(`Load "${template.name}"`, pageComponents, template.components, {
+          before: { pageId: activePageId, savedSnapshot },
+          after: loadedPage
+        }));
+      }
+      setSelectedComponentId(null);
     }
-  }, [fetcher.data]);
+  }, [fetcher.data, history, pageComponents, activePageId, savedSnapshot, handleCanvasPageChange]);
   
-  // Monitor fetcher state changes
-  useEffect(() => {
-    console.log("🔍 FETCHER STATE CHANGED:", {
-      state: fetcher.state,
-      data: fetcher.data,
-      hasData: !!fetcher.data,
-      dataKeys: fetcher.data ? Object.keys(fetcher.data) : []
-    });
-  }, [fetcher.state, fetcher.data]);
-
   // Handle template save success - update templates list without page reload
   useEffect(() => {
     if (fetcher.data && (fetcher.data as any).success && (fetcher.data as any).templateId && !(fetcher.data as any).template) {
-      console.log("✅ TEMPLATE SAVE SUCCESS - UPDATING STATE");
-      
-      // Update saved templates list in state instead of reloading page
+      // The saved page becomes the active one (relevant for "save as new")
       const savedTemplateData = (fetcher.data as any);
+      setActivePageId(savedTemplateData.templateId);
+      setValidationErrors([]);
       
       // Show success message briefly
       setTimeout(() => {
@@ -2064,8 +3528,12 @@ export default function AppBuilder() {
         // Note: This is a simple approach, in production you might want a proper toast system
       }, 3000);
       
+    } else if (fetcher.data && (fetcher.data as any).validationErrors) {
+      // Shown inline next to the offending fields instead of an alert, as
+      // live preview auto-saves while the merchant is still typing
+      setValidationErrors((fetcher.data as any).validationErrors);
+      setSavedSnapshot("");
     } else if (fetcher.data && !(fetcher.data as any).success) {
-      console.error("❌ TEMPLATE SAVE FAILED:", fetcher.data);
       alert(`Template save failed: ${(fetcher.data as any).message || 'Unknown error'}`);
     }
   }, [fetcher.data]);
@@ -2108,7 +3576,7 @@ export default function AppBuilder() {
           order: pageComponents.length
         };
         
-        setPageComponents(prev => [...prev, newComponent]);
+        history.execute(addComponentCommand(newComponent, `Add ${componentDef.name}`));
       }
     }
     
@@ -2117,75 +3585,44 @@ export default function AppBuilder() {
       const oldIndex = pageComponents.findIndex(c => c.id === active.id);
       const newIndex = pageComponents.findIndex(c => c.id === over.id);
       
-      if (oldIndex !== newIndex) {
-        setPageComponents(prev => arrayMove(prev, oldIndex, newIndex));
+      if (oldIndex !== -1 && newIndex !== -1 && oldIndex !== newIndex) {
+        history.execute(moveComponentCommand(oldIndex, newIndex));
       }
     }
     
     setActiveId(null);
-  }, [components, pageComponents]);
+  }, [components, pageComponents, history]);
 
   // Auto-save function with debouncing
   const autoSave = useCallback(async () => {
-    if (!isLivePreview || pageComponents.length === 0) return;
-    
-    console.log("💾 Auto-saving for live preview...");
+    // Auto-save only ever updates the page open on the canvas; new pages are saved explicitly
+    if (!isLivePreview || !activePage || pageComponents.length === 0) return;
     
     try {
-      // Use the specific template name for live preview
-      const livePreviewTemplateName = "live-preview-1751483946613";
-      
-      // Check if this template already exists
-      const existingTemplate = savedTemplates.find((t: any) => t.name === livePreviewTemplateName);
-      
       const formData = new FormData();
       formData.append("intent", "save-template");
-      formData.append("templateName", livePreviewTemplateName);
+      formData.append("templateName", activePage.name);
+      formData.append("templateId", activePage.id);
       formData.append("pageComponents", JSON.stringify(pageComponents));
       
-      // If template exists, update it instead of creating new one
-      if (existingTemplate) {
-        formData.append("templateId", existingTemplate.id);
-        console.log("🔄 Auto-save: Updating existing template", existingTemplate.id);
-      } else {
-        console.log("📝 Auto-save: Creating new live preview template");
-      }
-      
       // Submit without blocking UI
       fetcher.submit(formData, { method: "POST" });
-      
-      console.log("✅ Auto-save triggered");
+      setSavedSnapshot(JSON.stringify(pageComponents));
     } catch (error) {
       console.error("❌ Auto-save failed:", error);
     }
-  }, [isLivePreview, pageComponents, fetcher, savedTemplates]);
+  }, [isLivePreview, pageComponents, fetcher, activePage]);
 
   const updateComponentProps = useCallback((componentId: string, props: Record<string, any>) => {
-    console.log("🔄 UPDATE COMPONENT PROPS CALLED:", {
-      componentId,
-      newProps: props,
-      propsKeys: Object.keys(props),
-      hasLogoText: 'logoText' in props,
-      logoTextValue: props.logoText
-    });
+    const component = pageComponents.find(comp => comp.id === componentId);
+    if (!component) return;
+
+    history.execute(updatePropsCommand(componentId, component.props, props));
     
-    setPageComponents(prev => {
-      const updated = prev.map(comp => {
-        if (comp.id === componentId) {
-          console.log("🎯 FOUND MATCHING COMPONENT:", {
-            oldProps: comp.props,
-            newProps: props,
-            componentId: comp.componentId,
-            type: comp.type
-          });
-          return { ...comp, props };
-        }
-        return comp;
-      });
-      
-      console.log("📝 PAGE COMPONENTS AFTER UPDATE:", updated);
-      return updated;
-    });
+    // An edited field may have been fixed; the next save validates it again
+    setValidationErrors(prev => prev.filter(e =>
+      e.componentKey !== componentId || !e.field || props[e.field] === component.props[e.field]
+    ));
 
     // Trigger auto-save for live preview
     if (isLivePreview) {
@@ -2201,23 +3638,19 @@ export default function AppBuilder() {
       
       setAutoSaveTimeout(timeout);
     }
-  }, [isLivePreview, autoSaveTimeout, autoSave]);
+  }, [isLivePreview, autoSaveTimeout, autoSave, pageComponents, history]);
 
   const deleteComponent = useCallback((componentId: string) => {
-    setPageComponents(prev => prev.filter(comp => comp.id !== componentId));
-    if (selectedComponent?.id === componentId) {
-      setSelectedComponent(null);
+    const command = removeComponentCommand(pageComponents, componentId);
+    if (command) {
+      history.execute(command);
+    }
+    if (selectedComponentId === componentId) {
+      setSelectedComponentId(null);
     }
-  }, [selectedComponent]);
+  }, [pageComponents, history, selectedComponentId]);
 
   const handleSaveTemplate = useCallback(() => {
-    console.log("🔧 HANDLE SAVE TEMPLATE CALLED:", {
-      pageComponentsLength: pageComponents.length,
-      templateName,
-      saveMode,
-      selectedExistingTemplate
-    });
-
     if (pageComponents.length === 0) {
       alert("Please add some components to your page before saving");
       return;
@@ -2240,42 +3673,10 @@ export default function AppBuilder() {
       finalTemplateName = templateName;
     }
 
-    console.log("🚀 SUBMITTING TEMPLATE:", {
-      finalTemplateName,
-      componentCount: pageComponents.length,
-      components: pageComponents
-    });
-
-    // Debug each component before serialization
-    pageComponents.forEach((comp, index) => {
-      console.log(`🧩 FRONTEND Component ${index + 1}:`, {
-        componentId: comp.componentId,
-        type: comp.type,
-        propsKeys: Object.keys(comp.props || {}),
-        propsPreview: comp.componentId === "header" ? comp.props : "..."
-      });
-      
-      // Test if component props can be JSON serialized
-      try {
-        const serialized = JSON.stringify(comp.props);
-        const parsed = JSON.parse(serialized);
-        console.log(`✅ Component ${index + 1} props serialization: OK`);
-      } catch (e) {
-        console.error(`❌ Component ${index + 1} props serialization failed:`, e);
-        console.error(`❌ Problematic props:`, comp.props);
-      }
-    });
-
-    // Test the entire pageComponents serialization
     try {
-      const serializedComponents = JSON.stringify(pageComponents);
-      console.log("✅ Full pageComponents serialization: OK", {
-        length: serializedComponents.length,
-        preview: serializedComponents.substring(0, 200) + "..."
-      });
+      JSON.stringify(pageComponents);
     } catch (e) {
-      console.error("❌ Full pageComponents serialization failed:", e);
-      console.error("❌ pageComponents:", pageComponents);
+      console.error("Page components cannot be serialized:", e);
       alert("Error: Cannot save template due to serialization issue. Check console for details.");
       return;
     }
@@ -2288,18 +3689,8 @@ export default function AppBuilder() {
       formData.append("templateId", selectedExistingTemplate);
     }
     
-    console.log("📤 SUBMITTING TO SERVER:", { 
-      method: "POST", 
-      formDataKeys: Array.from(formData.keys()),
-      intent: formData.get("intent")
-    });
-    
     fetcher.submit(formData, { method: "POST" });
-    
-    console.log("📤 FETCHER STATE AFTER SUBMIT:", {
-      state: fetcher.state,
-      data: fetcher.data
-    });
+    setSavedSnapshot(JSON.stringify(pageComponents));
     
     setShowSaveDialog(false);
     setTemplateName("");
@@ -2307,14 +3698,35 @@ export default function AppBuilder() {
     setSaveMode("new");
   }, [templateName, pageComponents, fetcher, saveMode, selectedExistingTemplate, savedTemplates]);
 
+  // Clearing is undoable, so it no longer needs a confirmation
   const clearCanvas = useCallback(() => {
     if (pageComponents.length > 0) {
-      if (confirm("Are you sure you want to clear all components? This action cannot be undone.")) {
-        setPageComponents([]);
-        setSelectedComponent(null);
-      }
+      history.execute(replaceComponentsCommand("Clear all", pageComponents, []));
+      setSelectedComponentId(null);
     }
-  }, [pageComponents]);
+  }, [pageComponents, history]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their native undo.
+  // Checkboxes, selects and color swatches have none, so they undo the canvas.
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== "z") return;
+      
+      if (isTextEditable(event.target)) {
+        return;
+      }
+      
+      event.preventDefault();
+      if (event.shiftKey) {
+        history.redo();
+      } else {
+        history.undo();
+      }
+    };
+    
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [history]);
 
   const generateAPK = useCallback(async () => {
     if (pageComponents.length === 0) {
@@ -2326,8 +3738,6 @@ export default function AppBuilder() {
 
     try {
       // Save template first
-      console.log("🚀 Starting APK generation process...");
-      
       // Create a unique template name for APK generation
       const apkTemplateName = `apk-build-${Date.now()}`;
       
@@ -2385,6 +3795,7 @@ export default function AppBuilder() {
       onDragStart={handleDragStart}
       onDragEnd={handleDragEnd}
     >
+      {previewTheme.fontFaces && <style dangerouslySetInnerHTML={{ __html: previewTheme.fontFaces }} />}
       <div className="flex h-screen bg-gray-100">
         {/* Component Library Sidebar */}
         <div className="app-builder-sidebar">
@@ -2392,34 +3803,90 @@ export default function AppBuilder() {
             <h2 className="text-xl font-bold mb-2">Components</h2>
             <p className="text-sm text-gray-600 mb-4">Drag to add to your app</p>
             
-            {/* Saved Templates */}
-            {savedTemplates.length > 0 && (
-              <div className="mb-4">
-                <h3 className="text-sm font-semibold text-gray-700 mb-2">Saved Templates</h3>
-                <select 
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm"
-                  onChange={(e) => {
-                    if (e.target.value) {
-                      const formData = new FormData();
-                      formData.append("intent", "load-template");
-                      formData.append("templateId", e.target.value);
-                      fetcher.submit(formData, { method: "POST" });
-                      e.target.value = ""; // Reset dropdown
-                    }
-                  }}
-                >
-                  <option value="">Load template...</option>
-                  {savedTemplates.map((template: any) => (
-                    <option key={template.id} value={template.id}>
-                      {template.name}
-                    </option>
-                  ))}
-                </select>
-              </div>
-            )}
+            <PageList
+              pages={savedTemplates}
+              activePageId={activePageId}
+              onSelect={switchPage}
+              onPageAction={submitPageAction}
+              onExport={exportTemplate}
+            />
+            <button
+              type="button"
+              onClick={() => importInputRef.current?.click()}
+              disabled={bundleFetcher.state !== "idle"}
+              className="w-full mt-2 px-2 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title="Create a page from a template exported from this or another shop"
+            >
+              {bundleFetcher.state !== "idle" ? "Working..." : "📥 Import template"}
+            </button>
+            <input
+              ref={importInputRef}
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = "";
+                if (file) importTemplate(file);
+              }}
+            />
+            <button
+              type="button"
+              onClick={migrateTemplates}
+              disabled={migrationFetcher.state !== "idle" || savedTemplates.length === 0}
+              className="w-full mt-2 px-2 py-1.5 text-xs text-gray-600 border border-gray-300 rounded-md hover:bg-gray-50 transition-colors disabled:opacity-50"
+              title="Upgrade saved components to the latest component versions"
+            >
+              {migrationFetcher.state !== "idle" ? "Migrating..." : "⬆️ Migrate all templates"}
+            </button>
           </div>
           
           <div className="p-4 space-y-2">
+            {sections.length > 0 && (
+              <div>
+                <h3 className="text-xs font-semibold text-gray-500 uppercase tracking-wide mb-2">
+                  Sections
+                </h3>
+                <div className="space-y-2 mb-4">
+                  {sections.map((section) => (
+                    <div key={section.id} className="component-item">
+                      <div className="flex items-center gap-3">
+                        <span className="text-2xl">🧩</span>
+                        <div className="flex-1 min-w-0">
+                          <h4 className="font-medium text-sm truncate">{section.name}</h4>
+                          <p className="text-xs text-gray-500">
+                            {section.components.length} component(s) • used on {section.pageCount} page(s)
+                          </p>
+                        </div>
+                      </div>
+                      <div className="flex gap-1 mt-2">
+                        <button
+                          onClick={() => insertSection(section, true)}
+                          className="flex-1 px-2 py-1 text-xs text-purple-700 border border-purple-200 rounded hover:bg-purple-50"
+                          title="Saving edits to a linked section updates every page that uses it"
+                        >
+                          🔗 Insert linked
+                        </button>
+                        <button
+                          onClick={() => insertSection(section, false)}
+                          className="flex-1 px-2 py-1 text-xs text-gray-700 border border-gray-200 rounded hover:bg-gray-50"
+                          title="Insert an independent copy of the components"
+                        >
+                          📋 Insert copy
+                        </button>
+                        <button
+                          onClick={() => deleteSavedSection(section)}
+                          className="px-2 py-1 text-xs text-red-600 border border-gray-200 rounded hover:bg-red-50"
+                          title="Delete section"
+                        >
+                          🗑️
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
             {Object.entries(
               components.reduce((acc, component) => {
                 const category = component.category;
@@ -2457,65 +3924,37 @@ export default function AppBuilder() {
             <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-3 lg:gap-4">
               <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-4">
                 <h1 className="text-lg md:text-xl font-bold text-gray-900">App Builder</h1>
+                {activePage && (
+                  <span className="text-xs md:text-sm font-medium text-gray-700">
+                    📄 {activePage.name}{hasUnsavedChanges ? ' •' : ''}
+                  </span>
+                )}
                 <span className="text-xs md:text-sm text-gray-500">
-                  {pageComponents.length} component{pageComponents.length !== 1 ? 's' : ''} • {savedTemplates.length} template{savedTemplates.length !== 1 ? 's' : ''}
+                  {pageComponents.length} component{pageComponents.length !== 1 ? 's' : ''} • {savedTemplates.length} page{savedTemplates.length !== 1 ? 's' : ''}
                 </span>
+                {catalogStatus && (
+                  <span
+                    className={cn("text-xs", catalogStatus.freshness === "fresh" ? "text-gray-500" : "text-orange-600")}
+                    title={catalogStatus.invalidatedBy ? `Last change reported by ${catalogStatus.invalidatedBy}` : "Products and collections served to the mobile app"}
+                  >
+                    🛍️ Catalog {catalogStatus.syncing
+                      ? "syncing, reload to see the latest products"
+                      : catalogStatus.freshness === "missing"
+                      ? "not synced"
+                      : `${catalogStatus.freshness === "fresh" ? "synced" : catalogStatus.freshness} ${catalogStatus.syncedAt ? formatDate(new Date(catalogStatus.syncedAt)) : ""}`}
+                    <button
+                      type="button"
+                      onClick={() => catalogFetcher.submit({ intent: "sync-catalog" }, { method: "POST" })}
+                      disabled={catalogFetcher.state !== "idle"}
+                      className="ml-1 underline hover:text-gray-900 disabled:opacity-50"
+                    >
+                      {catalogFetcher.state !== "idle" ? "syncing..." : "sync"}
+                    </button>
+                  </span>
+                )}
               </div>
               
               <div className="flex flex-wrap items-center gap-2">
-                {/* Load Template Button */}
-                {savedTemplates.length > 0 && (
-                  <div className="relative">
-                    {pageComponents.length === 0 && savedTemplates.find((t: any) => t.name === 'live-preview-1751483946613') && (
-                      <button
-                        onClick={() => {
-                          const liveTemplate = savedTemplates.find((t: any) => t.name === 'live-preview-1751483946613');
-                          if (liveTemplate) {
-                            const formData = new FormData();
-                            formData.append("intent", "load-template");
-                            formData.append("templateId", liveTemplate.id);
-                            fetcher.submit(formData, { method: "POST" });
-                          }
-                        }}
-                        className="px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium mr-2"
-                      >
-                        📂 Load Your Template
-                      </button>
-                    )}
-                    <select 
-                      className="px-2 sm:px-3 py-1.5 sm:py-2 text-xs sm:text-sm border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors focus:outline-none focus:ring-2 focus:ring-blue-500 cursor-pointer min-w-[120px] sm:min-w-[140px]"
-                      onChange={(e) => {
-                        if (e.target.value) {
-                          if (pageComponents.length > 0) {
-                            if (confirm("Loading a template will replace your current design. Continue?")) {
-                              const formData = new FormData();
-                              formData.append("intent", "load-template");
-                              formData.append("templateId", e.target.value);
-                              fetcher.submit(formData, { method: "POST" });
-                            }
-                          } else {
-                            const formData = new FormData();
-                            formData.append("intent", "load-template");
-                            formData.append("templateId", e.target.value);
-                            fetcher.submit(formData, { method: "POST" });
-                          }
-                          e.target.value = ""; // Reset dropdown
-                        }
-                      }}
-                    >
-                      <option value="">
-                        <span className="hidden sm:inline">📂 Load Template...</span>
-                        <span className="sm:hidden">📂 Load...</span>
-                      </option>
-                      {savedTemplates.map((template: any) => (
-                        <option key={template.id} value={template.id}>
-                          {template.name}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                )}
-
                 {/* Preview Device Toggle */}
                 <div className="flex bg-gray-100 rounded-lg p-0.5">
                   <button
@@ -2544,6 +3983,25 @@ export default function AppBuilder() {
                   </button>
                 </div>
                 
+                <div className="flex items-center">
+                  <button
+                    onClick={history.undo}
+                    className="px-2 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-600 border border-gray-300 rounded-l-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    disabled={!history.canUndo}
+                    title={history.undoLabel ? `Undo ${history.undoLabel} (Ctrl+Z)` : "Nothing to undo"}
+                  >
+                    ↶
+                  </button>
+                  <button
+                    onClick={history.redo}
+                    className="px-2 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-600 border border-l-0 border-gray-300 rounded-r-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+                    disabled={!history.canRedo}
+                    title={history.redoLabel ? `Redo ${history.redoLabel} (Ctrl+Shift+Z)` : "Nothing to redo"}
+                  >
+                    ↷
+                  </button>
+                </div>
+                
                 <button
                   onClick={clearCanvas}
                   className="px-2 sm:px-3 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 whitespace-nowrap"
@@ -2554,7 +4012,14 @@ export default function AppBuilder() {
                 </button>
                 
                 <button
-                  onClick={() => setShowSaveDialog(true)}
+                  onClick={() => {
+                    // Default to updating the page that is open on the canvas
+                    if (activePage) {
+                      setSaveMode("existing");
+                      setSelectedExistingTemplate(activePage.id);
+                    }
+                    setShowSaveDialog(true);
+                  }}
                   className="px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50 whitespace-nowrap"
                   disabled={pageComponents.length === 0}
                 >
@@ -2562,6 +4027,25 @@ export default function AppBuilder() {
                   <span className="sm:hidden">💾</span>
                 </button>
                 
+                <button
+                  onClick={handlePublish}
+                  className="px-3 sm:px-4 py-1.5 sm:py-2 text-xs sm:text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors font-medium disabled:opacity-50 whitespace-nowrap"
+                  disabled={!activePage || versionFetcher.state !== "idle"}
+                  title={hasUnsavedChanges ? "Save your changes before publishing" : "Publish the saved page to the live app"}
+                >
+                  <span className="hidden sm:inline">🚀 Publish</span>
+                  <span className="sm:hidden">🚀</span>
+                </button>
+                
+                <button
+                  onClick={openVersionHistory}
+                  className="px-2 sm:px-3 py-1.5 sm:py-2 text-xs sm:text-sm text-gray-600 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 whitespace-nowrap"
+                  disabled={!activePage}
+                >
+                  <span className="hidden sm:inline">🕘 History</span>
+                  <span className="sm:hidden">🕘</span>
+                </button>
+                
                 <button
                   onClick={() => setIsLivePreview(!isLivePreview)}
                   className={cn(
@@ -2694,6 +4178,7 @@ export default function AppBuilder() {
                     style={{
                       scrollbarWidth: 'none',
                       msOverflowStyle: 'none',
+                      fontFamily: previewTheme.fontFamily ? fontStack(previewTheme.fontFamily) : undefined,
                     }}
                     onDragOver={(e) => e.preventDefault()}
                     onDrop={(e) => {
@@ -2713,7 +4198,7 @@ export default function AppBuilder() {
                               },
                               order: pageComponents.length
                             };
-                            setPageComponents(prev => [...prev, newComponent]);
+                            history.execute(addComponentCommand(newComponent, `Add ${componentDef.name}`));
                           }
                         }
                       }
@@ -2736,9 +4221,11 @@ export default function AppBuilder() {
                             <DroppableComponent
                               key={component.id}
                               component={component}
-                              onSelect={setSelectedComponent}
-                              isSelected={selectedComponent?.id === component.id}
-                              shopifyProducts={shopifyProducts || []}
+                              onSelect={selectComponent}
+                              isSelected={selectedRun.some(c => c.id === component.id)}
+                              sectionName={sections.find(s => s.id === component.sectionId)?.name}
+                              hasErrors={validationErrors.some(e => e.componentKey === component.id)}
+                              shopifyProducts={previewProducts}
                               shopifyCollections={shopifyCollections || []}
                               onToggleDrawer={handleToggleDrawer}
                             />
@@ -2763,7 +4250,7 @@ export default function AppBuilder() {
                                     },
                                     order: pageComponents.length
                                   };
-                                  setPageComponents(prev => [...prev, newComponent]);
+                                  history.execute(addComponentCommand(newComponent, `Add ${componentDef.name}`));
                                 }
                               }
                             }}
@@ -2875,6 +4362,7 @@ export default function AppBuilder() {
                     style={{
                       scrollbarWidth: 'none',
                       msOverflowStyle: 'none',
+                      fontFamily: previewTheme.fontFamily ? fontStack(previewTheme.fontFamily) : undefined,
                     }}
                     onDragOver={(e) => e.preventDefault()}
                     onDrop={(e) => {
@@ -2894,7 +4382,7 @@ export default function AppBuilder() {
                               },
                               order: pageComponents.length
                             };
-                            setPageComponents(prev => [...prev, newComponent]);
+                            history.execute(addComponentCommand(newComponent, `Add ${componentDef.name}`));
                           }
                         }
                       }
@@ -2917,9 +4405,11 @@ export default function AppBuilder() {
                             <DroppableComponent
                               key={component.id}
                               component={component}
-                              onSelect={setSelectedComponent}
-                              isSelected={selectedComponent?.id === component.id}
-                              shopifyProducts={shopifyProducts || []}
+                              onSelect={selectComponent}
+                              isSelected={selectedRun.some(c => c.id === component.id)}
+                              sectionName={sections.find(s => s.id === component.sectionId)?.name}
+                              hasErrors={validationErrors.some(e => e.componentKey === component.id)}
+                              shopifyProducts={previewProducts}
                               shopifyCollections={shopifyCollections || []}
                               onToggleDrawer={handleToggleDrawer}
                             />
@@ -2944,7 +4434,7 @@ export default function AppBuilder() {
                                     },
                                     order: pageComponents.length
                                   };
-                                  setPageComponents(prev => [...prev, newComponent]);
+                                  history.execute(addComponentCommand(newComponent, `Add ${componentDef.name}`));
                                 }
                               }
                             }}
@@ -2992,15 +4482,62 @@ export default function AppBuilder() {
                 Editing: {componentLibrary.find(c => c.id === selectedComponent.componentId)?.name}
               </p>
             )}
+            {validationErrors.length > 0 && (
+              <div className="mt-3 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                <p className="font-medium">
+                  ⚠️ {validationErrors.length} setting(s) could not be saved
+                </p>
+                {validationErrors.filter(e => !e.field).map((e, index) => (
+                  <p key={index} className="text-xs mt-1">{e.message}</p>
+                ))}
+                {validationErrors.some(e => e.componentKey && e.componentKey !== selectedComponentId) && (
+                  <button
+                    onClick={() => setSelectedComponentId(validationErrors.find(e => e.componentKey && e.componentKey !== selectedComponentId)!.componentKey)}
+                    className="mt-2 text-xs underline hover:text-red-900"
+                  >
+                    Show component with errors
+                  </button>
+                )}
+              </div>
+            )}
           </div>
           
           <PropertyEditor 
+            key={`${selectedComponent?.id}-${history.restoreCount}`}
             component={selectedComponent}
             onUpdate={updateComponentProps}
+            fieldErrors={selectedFieldErrors}
+            onProductPicked={handleProductPicked}
           />
           
           {selectedComponent && (
             <div className="p-6 border-t space-y-3">
+              {selectedComponent.sectionId && selectedComponent.sectionInstance && (
+                <div className="p-3 bg-purple-50 border border-purple-200 rounded-lg text-xs text-purple-800">
+                  <p>
+                    🔗 Part of the linked section "{sections.find(s => s.id === selectedComponent.sectionId)?.name}".
+                    Saving this page updates every page that uses it.
+                  </p>
+                  <button
+                    onClick={() => detachSection(selectedComponent.sectionInstance!)}
+                    className="mt-2 underline hover:text-purple-950"
+                  >
+                    Detach from section
+                  </button>
+                </div>
+              )}
+              
+              <button
+                onClick={saveSelectionAsSection}
+                disabled={sectionFetcher.state !== "idle"}
+                className="w-full px-4 py-2 border border-purple-300 text-purple-700 rounded hover:bg-purple-50 transition-colors disabled:opacity-50"
+              >
+                🧩 Save {selectedRun.length > 1 ? `${selectedRun.length} components` : "component"} as section
+              </button>
+              {selectedRun.length === 1 && (
+                <p className="text-xs text-gray-500 -mt-2">Shift-click another component to select a run of components.</p>
+              )}
+              
               <button
                 onClick={() => {
                   const componentDef = componentLibrary.find(c => c.id === selectedComponent.componentId);
@@ -3029,6 +4566,17 @@ export default function AppBuilder() {
         </div>
       </div>
 
+      {/* Version History */}
+      {showVersionHistory && activePage && (
+        <VersionHistory
+          pageName={activePage.name}
+          versions={versionFetcher.data?.versions || null}
+          isBusy={versionFetcher.state !== "idle"}
+          onRollback={(versionId) => submitVersionAction("rollback-page", { versionId })}
+          onClose={() => setShowVersionHistory(false)}
+        />
+      )}
+
       {/* Save Dialog */}
       {showSaveDialog && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -0,0 +1,23 @@
+import { json, type LoaderFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { getCatalogProducts, searchCatalogProducts } from "../lib/shopify-cache.server";
+
+// Product search for the builder's product picker, served from the synced catalog.
+// `?ids=` looks up specific products instead, e.g. the ones a component already shows.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  const ids = url.searchParams.get("ids");
+  if (ids !== null) {
+    const products = await getCatalogProducts(session.shop, ids.split(",").filter(Boolean));
+    return json({ products, query: "", page: 1, pageCount: 1, total: products.length });
+  }
+
+  const result = await searchCatalogProducts(session.shop, {
+    query: url.searchParams.get("q") || "",
+    page: parseInt(url.searchParams.get("page") || "1", 10) || 1
+  });
+
+  return json(result);
+};
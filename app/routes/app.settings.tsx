@@ -0,0 +1,189 @@
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useFetcher, useLoaderData } from "@remix-run/react";
+import { useEffect, useRef, useState } from "react";
+import { authenticate } from "../shopify.server";
+import { prisma } from "../db.server";
+import { formatDate } from "../lib/utils";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+import {
+  PREVIOUS_KEY_GRACE_MS,
+  ensureClientKey,
+  getAllowedOrigins,
+  normalizeOrigin,
+  rotateClientKey,
+  setAllowedOrigins
+} from "../lib/client-keys.server";
+
+export const loader = withRequestContext(async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  addLogContext({ shop: session.shop });
+  
+  const existingApp = await prisma.mobileApp.findUnique({
+    where: { shop: session.shop }
+  });
+  const mobileApp = existingApp && await ensureClientKey(existingApp);
+  
+  if (!mobileApp) {
+    return json({ apiAccess: null, appUrl: process.env.SHOPIFY_APP_URL || "" });
+  }
+  
+  const previousKeyExpiresAt = mobileApp.previousClientKey && mobileApp.clientKeyRotatedAt
+    ? new Date(mobileApp.clientKeyRotatedAt.getTime() + PREVIOUS_KEY_GRACE_MS)
+    : null;
+  
+  return json({
+    apiAccess: {
+      shop: mobileApp.shop,
+      clientKey: mobileApp.clientKey!,
+      rotatedAt: mobileApp.clientKeyRotatedAt,
+      previousKeyExpiresAt: previousKeyExpiresAt && previousKeyExpiresAt > new Date() ? previousKeyExpiresAt : null,
+      allowedOrigins: getAllowedOrigins(mobileApp)
+    },
+    appUrl: process.env.SHOPIFY_APP_URL || ""
+  });
+});
+
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  addLogContext({ shop });
+  
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  
+  if (intent === "rotate-client-key") {
+    const mobileApp = await rotateClientKey(shop);
+    if (!mobileApp) {
+      return json({ success: false, message: "Create your app in the builder first" });
+    }
+    logger.info("Rotated client key", { shop });
+    return json({ success: true, message: "New client key created. The previous key keeps working for 24 hours. Preview builds get the new preview key the next time you save a page." });
+  }
+  
+  if (intent === "save-allowed-origins") {
+    const entries = ((formData.get("allowedOrigins") as string) || "")
+      .split("\n")
+      .map(line => line.trim())
+      .filter(Boolean);
+    const origins = entries.map(normalizeOrigin);
+    const invalid = entries.filter((_, index) => !origins[index]);
+    
+    if (invalid.length > 0) {
+      return json({ success: false, message: `Not valid origins: ${invalid.join(", ")}. Use e.g. https://preview.example.com` });
+    }
+    
+    await setAllowedOrigins(shop, Array.from(new Set(origins as string[])));
+    return json({ success: true, message: "Allowed origins saved" });
+  }
+  
+  return json({ success: false, message: "Invalid action" });
+});
+
+export default function Settings() {
+  const { apiAccess, appUrl } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success: boolean; message: string }>();
+  const [originsText, setOriginsText] = useState((apiAccess?.allowedOrigins || []).join("\n"));
+  const [showKey, setShowKey] = useState(false);
+  
+  const handledResult = useRef<unknown>(null);
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data || handledResult.current === fetcher.data) return;
+    handledResult.current = fetcher.data;
+    alert(fetcher.data.message);
+  }, [fetcher.state, fetcher.data]);
+  
+  const rotateKey = () => {
+    if (!confirm("Create a new client key? Apps using the current key stop working in 24 hours unless they are updated.")) return;
+    fetcher.submit({ intent: "rotate-client-key" }, { method: "POST" });
+  };
+  
+  return (
+    <div className="p-8 max-w-4xl mx-auto">
+      {/* Header */}
+      <div className="mb-8">
+        <h1 className="text-3xl font-bold text-gray-900 mb-2">Settings</h1>
+        <p className="text-gray-600">Control how your mobile app reaches its configuration</p>
+      </div>
+      
+      {!apiAccess ? (
+        <div className="bg-white rounded-lg shadow-sm border p-6">
+          <p className="text-gray-600">Save a page in the App Builder to create your app and its API key.</p>
+        </div>
+      ) : (
+        <>
+          {/* Client Key */}
+          <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-xl font-semibold">🔑 Client Key</h2>
+              <button
+                type="button"
+                onClick={rotateKey}
+                disabled={fetcher.state !== "idle"}
+                className="px-4 py-2 bg-red-50 text-red-700 border border-red-200 rounded-lg hover:bg-red-100 transition-colors text-sm font-medium disabled:opacity-50"
+              >
+                Rotate key
+              </button>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Your mobile app sends this key with every live config request, in the <code>X-Client-Key</code> header
+              or as the <code>key</code> query parameter. It ships inside the app, so it is not a secret, but requests without it are refused.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 px-3 py-2 bg-gray-50 border rounded font-mono text-sm truncate">
+                {showKey ? apiAccess.clientKey : `${apiAccess.clientKey.slice(0, 10)}${"•".repeat(20)}`}
+              </code>
+              <button
+                type="button"
+                onClick={() => setShowKey(!showKey)}
+                className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+              >
+                {showKey ? "Hide" : "Show"}
+              </button>
+              <button
+                type="button"
+                onClick={() => navigator.clipboard.writeText(apiAccess.clientKey)}
+                className="px-3 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 text-sm"
+              >
+                Copy
+              </button>
+            </div>
+            <div className="mt-3 text-xs text-gray-500 space-y-1">
+              {apiAccess.rotatedAt && <p>Last rotated {formatDate(new Date(apiAccess.rotatedAt))}</p>}
+              {apiAccess.previousKeyExpiresAt && (
+                <p className="text-orange-600">The previous key is accepted until {formatDate(new Date(apiAccess.previousKeyExpiresAt))}</p>
+              )}
+              {appUrl && <p>Live config: <code>{appUrl}/api/live-config/{apiAccess.shop}</code></p>}
+            </div>
+          </div>
+          
+          {/* Allowed Origins */}
+          <div className="bg-white rounded-lg shadow-sm border p-6">
+            <h2 className="text-xl font-semibold mb-4">🌐 Allowed Origins</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              Websites allowed to call the live config from a browser, such as a web preview of your app. Native apps don't need an entry.
+              One origin per line, e.g. <code>https://preview.example.com</code>.
+            </p>
+            <fetcher.Form method="post">
+              <input type="hidden" name="intent" value="save-allowed-origins" />
+              <textarea
+                name="allowedOrigins"
+                rows={4}
+                value={originsText}
+                onChange={(e) => setOriginsText(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 font-mono text-sm"
+                placeholder="https://preview.example.com"
+              />
+              <button
+                type="submit"
+                disabled={fetcher.state !== "idle"}
+                className="mt-3 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+              >
+                Save origins
+              </button>
+            </fetcher.Form>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
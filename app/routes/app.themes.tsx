@@ -1,52 +1,549 @@
-import { json, type LoaderFunctionArgs } from "@remix-run/node";
-import { useLoaderData, Link } from "@remix-run/react";
+import { json, type ActionFunctionArgs, type LoaderFunctionArgs } from "@remix-run/node";
+import { useLoaderData, useFetcher } from "@remix-run/react";
+import { useEffect, useRef, useState } from "react";
 import { authenticate } from "../shopify.server";
-import { themePresets, formatDate } from "../lib/utils";
-
-export const loader = async ({ request }: LoaderFunctionArgs) => {
-  await authenticate.admin(request);
-  
-  // TODO: Load saved themes from database
-  const savedThemes = [
-    {
-      id: "1",
-      name: "Summer Campaign",
-      primaryColor: "#FF6B6B",
-      secondaryColor: "#4ECDC4",
-      backgroundColor: "#FFFFFF",
-      textColor: "#2C3E50",
-      fontFamily: "Inter",
-      isActive: true,
-      createdAt: new Date(),
-      scheduledStart: null,
-      scheduledEnd: null
-    },
-    {
-      id: "2", 
-      name: "Holiday Special",
-      primaryColor: "#C0392B",
-      secondaryColor: "#27AE60",
-      backgroundColor: "#FFFFFF",
-      textColor: "#2C3E50",
-      fontFamily: "Inter",
-      isActive: false,
-      createdAt: new Date(),
-      scheduledStart: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
-      scheduledEnd: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000)
-    }
-  ];
+import { themePresets, themeFonts, formatDate } from "../lib/utils";
+import { checkThemeContrast, formatRatio, type ContrastIssue } from "../lib/contrast";
+import {
+  activateTheme,
+  createTheme,
+  deleteTheme,
+  duplicateTheme,
+  listThemes,
+  parseThemeInput,
+  updateTheme
+} from "../lib/themes.server";
+import { publishConfigChange } from "../lib/config-events.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+import { getOrCreateMobileApp } from "../lib/mobile-app.server";
+import { ensureClientKey } from "../lib/client-keys.server";
+import {
+  MAX_FONT_FILE_SIZE,
+  addFontVariant,
+  deleteFont,
+  deleteFontVariant,
+  getFontManifest,
+  listFonts,
+  parseFontUpload,
+  readFontFormData
+} from "../lib/fonts.server";
+import { FONT_STYLES, FONT_WEIGHTS, describeVariant, fontFaceCss, fontStack } from "../lib/fonts";
+
+export const loader = withRequestContext(async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  addLogContext({ shop: session.shop });
+  
+  const { themes: savedThemes, effective, nextChangeAt } = await listThemes(session.shop);
+  const fontLibrary = await listFonts(session.shop);
+  // Previews load the uploaded files the way apps do, with the app's client key
+  const mobileApp = fontLibrary.length > 0 ? await ensureClientKey(await getOrCreateMobileApp(session.shop)) : null;
+  const fontManifest = mobileApp ? await getFontManifest(mobileApp, { clientKey: mobileApp.clientKey }) : [];
   
   return json({ 
     savedThemes,
-    presets: themePresets 
+    effective,
+    nextChangeAt,
+    presets: themePresets,
+    fonts: themeFonts,
+    fontLibrary,
+    fontFaces: fontFaceCss(fontManifest),
+    maxFontFileSize: MAX_FONT_FILE_SIZE
   });
+});
+
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const shop = session.shop;
+  addLogContext({ shop });
+  
+  const { formData, error } = await readFontFormData(request);
+  if (!formData) {
+    return json({ success: false, message: error });
+  }
+  const intent = formData.get("intent");
+  const themeId = formData.get("themeId") as string;
+  
+  // Devices restyle as soon as the theme they show changes
+  const notifyThemeChange = () => publishConfigChange(shop, { reason: "theme", pageId: null, version: null });
+  
+  if (intent === "create-theme" || intent === "update-theme") {
+    const { input, errors } = parseThemeInput(formData);
+    if (!input) {
+      return json({ success: false, message: errors.join("; ") });
+    }
+    
+    if (intent === "create-theme") {
+      const theme = await createTheme(shop, input);
+      logger.info("Theme created", { shop, themeId: theme.id });
+      notifyThemeChange();
+      return json({ success: true, message: `Theme "${theme.name}" created` });
+    }
+    
+    const theme = await updateTheme(shop, themeId, input);
+    if (!theme) {
+      return json({ success: false, message: "Theme not found" });
+    }
+    notifyThemeChange();
+    return json({ success: true, message: `Theme "${theme.name}" saved` });
+  }
+  
+  if (intent === "create-from-preset") {
+    const preset = themePresets.find(p => p.id === formData.get("presetId"));
+    if (!preset) {
+      return json({ success: false, message: "Preset not found" });
+    }
+    
+    const { id: _presetId, ...presetFields } = preset;
+    const theme = await createTheme(shop, {
+      ...presetFields,
+      description: null,
+      isScheduled: false,
+      scheduledStart: null,
+      scheduledEnd: null,
+      priority: 0
+    });
+    logger.info("Theme created from preset", { shop, themeId: theme.id, presetId: preset.id });
+    notifyThemeChange();
+    return json({ success: true, message: `Theme "${theme.name}" created from the ${preset.name} preset` });
+  }
+  
+  if (intent === "activate-theme") {
+    const theme = await activateTheme(shop, themeId);
+    if (!theme) {
+      return json({ success: false, message: "Theme not found" });
+    }
+    logger.info("Theme activated", { shop, themeId: theme.id });
+    notifyThemeChange();
+    return json({ success: true, message: `"${theme.name}" is now the active theme` });
+  }
+  
+  if (intent === "duplicate-theme") {
+    const theme = await duplicateTheme(shop, themeId);
+    if (!theme) {
+      return json({ success: false, message: "Theme not found" });
+    }
+    return json({ success: true, message: `Created "${theme.name}"` });
+  }
+  
+  if (intent === "delete-theme") {
+    const theme = await deleteTheme(shop, themeId);
+    if (!theme) {
+      return json({ success: false, message: "Theme not found" });
+    }
+    logger.info("Theme deleted", { shop, themeId: theme.id });
+    notifyThemeChange();
+    return json({ success: true, message: `Theme "${theme.name}" deleted` });
+  }
+  
+  if (intent === "upload-font") {
+    const { upload, errors } = parseFontUpload(formData);
+    if (!upload) {
+      return json({ success: false, message: errors.join("; ") });
+    }
+    
+    const { variant, replaced, error: uploadError } = await addFontVariant(shop, upload);
+    if (!variant) {
+      return json({ success: false, message: uploadError });
+    }
+    logger.info("Font uploaded", { shop, family: variant.family, variantId: variant.id, replaced });
+    notifyThemeChange();
+    return json({
+      success: true,
+      message: `${variant.family} ${describeVariant(variant)} ${replaced ? "replaced" : "uploaded"}`
+    });
+  }
+  
+  if (intent === "delete-font-variant") {
+    const variant = await deleteFontVariant(shop, formData.get("variantId") as string);
+    if (!variant) {
+      return json({ success: false, message: "Font not found" });
+    }
+    logger.info("Font variant deleted", { shop, family: variant.font.family, variantId: variant.id });
+    notifyThemeChange();
+    return json({ success: true, message: `${variant.font.family} ${describeVariant(variant)} deleted` });
+  }
+  
+  if (intent === "delete-font") {
+    const font = await deleteFont(shop, formData.get("fontId") as string);
+    if (!font) {
+      return json({ success: false, message: "Font not found" });
+    }
+    logger.info("Font deleted", { shop, family: font.family });
+    notifyThemeChange();
+    return json({ success: true, message: `${font.family} deleted` });
+  }
+  
+  return json({ success: false, message: "Invalid action" });
+});
+
+interface ThemeFormValues {
+  id?: string;
+  name: string;
+  description: string;
+  primaryColor: string;
+  secondaryColor: string;
+  backgroundColor: string;
+  textColor: string;
+  fontFamily: string;
+  isScheduled: boolean;
+  // datetime-local values, in the merchant's time zone
+  scheduledStart: string;
+  scheduledEnd: string;
+  priority: string;
+}
+
+const COLOR_INPUTS: { name: "primaryColor" | "secondaryColor" | "backgroundColor" | "textColor"; label: string }[] = [
+  { name: "primaryColor", label: "Primary" },
+  { name: "secondaryColor", label: "Secondary" },
+  { name: "backgroundColor", label: "Background" },
+  { name: "textColor", label: "Text" }
+];
+
+// Campaign themes the merchant can schedule in one click, for their next occurrence
+const QUICK_SCHEDULES = [
+  { label: "🎄 Christmas Theme (Dec 1-26)", name: "Christmas", month: 11, startDay: 1, endDay: 26, primaryColor: "#C0392B", secondaryColor: "#27AE60" },
+  { label: "🎃 Halloween Theme (Oct 15-31)", name: "Halloween", month: 9, startDay: 15, endDay: 31, primaryColor: "#E67E22", secondaryColor: "#2C3E50" },
+  { label: "💝 Valentine's Theme (Feb 1-14)", name: "Valentine's", month: 1, startDay: 1, endDay: 14, primaryColor: "#E91E63", secondaryColor: "#F8BBD0" }
+];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+// Formats a date for a datetime-local input, in the browser's time zone
+function toLocalInput(value: Date | string | null) {
+  if (!value) return "";
+  const date = new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+const SCHEDULE_BADGES: Record<string, { label: string; className: string }> = {
+  live: { label: "Live now", className: "bg-green-100 text-green-800" },
+  upcoming: { label: "Upcoming", className: "bg-blue-100 text-blue-800" },
+  ended: { label: "Ended", className: "bg-gray-100 text-gray-600" }
 };
 
+// Failing color pairs, each with a button that swaps in the suggested color when `onApply` is given
+function ContrastWarnings({ issues, onApply }: { issues: ContrastIssue[]; onApply?: (issue: ContrastIssue) => void }) {
+  if (issues.length === 0) return null;
+
+  return (
+    <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg space-y-2">
+      {issues.map(issue => (
+        <div key={issue.field} className="flex items-center justify-between gap-2 text-xs text-yellow-800">
+          <span>
+            ⚠️ {issue.label}: {formatRatio(issue.ratio)}, needs {formatRatio(issue.required)}
+          </span>
+          {onApply && (
+            <button
+              type="button"
+              onClick={() => onApply(issue)}
+              className="flex items-center gap-1 px-2 py-1 bg-white border border-yellow-300 rounded hover:bg-yellow-100 shrink-0"
+              title="Closest color that passes"
+            >
+              <span className="w-3 h-3 rounded border" style={{ backgroundColor: issue.suggestion }} />
+              Use {issue.suggestion}
+            </button>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function ThemeEditor({
+  initialValues,
+  fonts,
+  uploadedFonts,
+  isSubmitting,
+  onSubmit,
+  onCancel
+}: {
+  initialValues: ThemeFormValues;
+  fonts: string[];
+  // Families from the font library, listed before the built-in fonts
+  uploadedFonts: string[];
+  isSubmitting: boolean;
+  onSubmit: (values: ThemeFormValues) => void;
+  onCancel: () => void;
+}) {
+  const [values, setValues] = useState(initialValues);
+  const setValue = (name: Exclude<keyof ThemeFormValues, "isScheduled">, value: string) => setValues(prev => ({ ...prev, [name]: value }));
+  // A font saved before it was removed from the list stays selectable
+  const builtInFonts = fonts.filter(font => !uploadedFonts.includes(font));
+  const fontOptions = [...uploadedFonts, ...builtInFonts].includes(values.fontFamily) ? builtInFonts : [values.fontFamily, ...builtInFonts];
+  const contrastIssues = checkThemeContrast(values);
+  
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 border-b">
+          <h2 className="text-xl font-semibold">{initialValues.id ? `Edit "${initialValues.name}"` : "Create New Theme"}</h2>
+        </div>
+        
+        <div className="p-6 grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div className="space-y-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={values.name}
+                onChange={(e) => setValue("name", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Summer Campaign"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description</label>
+              <input
+                type="text"
+                value={values.description}
+                onChange={(e) => setValue("description", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+                placeholder="Optional"
+              />
+            </div>
+            {COLOR_INPUTS.map(({ name, label }) => (
+              <div key={name}>
+                <label className="block text-sm font-medium text-gray-700 mb-1">{label} color</label>
+                <div className="flex items-center gap-2">
+                  <input
+                    type="color"
+                    value={values[name]}
+                    onChange={(e) => setValue(name, e.target.value.toUpperCase())}
+                    className="w-10 h-10 border border-gray-300 rounded cursor-pointer"
+                  />
+                  <input
+                    type="text"
+                    value={values[name]}
+                    onChange={(e) => setValue(name, e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg font-mono text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            ))}
+            <ContrastWarnings
+              issues={contrastIssues}
+              onApply={issue => setValue(issue.field as typeof COLOR_INPUTS[number]["name"], issue.suggestion)}
+            />
+            <div className="pt-4 border-t">
+              <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={values.isScheduled}
+                  onChange={(e) => setValues(prev => ({ ...prev, isScheduled: e.target.checked }))}
+                />
+                Schedule this theme
+              </label>
+              {values.isScheduled && (
+                <div className="mt-3 space-y-3">
+                  <div className="grid grid-cols-2 gap-3">
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Starts</label>
+                      <input
+                        type="datetime-local"
+                        value={values.scheduledStart}
+                        onChange={(e) => setValue("scheduledStart", e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">Ends</label>
+                      <input
+                        type="datetime-local"
+                        value={values.scheduledEnd}
+                        onChange={(e) => setValue("scheduledEnd", e.target.value)}
+                        className="w-full px-2 py-1 border border-gray-300 rounded text-sm"
+                      />
+                    </div>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-medium text-gray-600 mb-1">Priority</label>
+                    <input
+                      type="number"
+                      step={1}
+                      value={values.priority}
+                      onChange={(e) => setValue("priority", e.target.value)}
+                      className="w-24 px-2 py-1 border border-gray-300 rounded text-sm"
+                    />
+                    <p className="text-xs text-gray-500 mt-1">
+                      When schedules overlap, the highest priority shows. Without an end date the theme stays until you change it.
+                    </p>
+                  </div>
+                </div>
+              )}
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Font</label>
+              <select
+                value={values.fontFamily}
+                onChange={(e) => setValue("fontFamily", e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+              >
+                {uploadedFonts.length > 0 && (
+                  <optgroup label="Uploaded">
+                    {uploadedFonts.map(font => (
+                      <option key={font} value={font}>{font}</option>
+                    ))}
+                  </optgroup>
+                )}
+                <optgroup label="Built-in">
+                  {fontOptions.map(font => (
+                    <option key={font} value={font}>{font}</option>
+                  ))}
+                </optgroup>
+              </select>
+            </div>
+          </div>
+          
+          {/* Preview */}
+          <div>
+            <span className="block text-sm font-medium text-gray-700 mb-1">Preview</span>
+            <div
+              className="rounded-xl border shadow-sm overflow-hidden"
+              style={{ backgroundColor: values.backgroundColor, color: values.textColor, fontFamily: fontStack(values.fontFamily) }}
+            >
+              <div className="px-4 py-3 font-semibold text-white" style={{ backgroundColor: values.primaryColor }}>
+                {values.name || "My Store"}
+              </div>
+              <div className="p-4 space-y-3">
+                <p className="text-lg font-semibold">New arrivals</p>
+                <p className="text-sm opacity-80">Fresh styles for the season, picked for you.</p>
+                <div className="flex gap-2">
+                  <span className="px-3 py-2 rounded text-sm text-white" style={{ backgroundColor: values.primaryColor }}>
+                    Shop now
+                  </span>
+                  <span className="px-3 py-2 rounded text-sm text-white" style={{ backgroundColor: values.secondaryColor }}>
+                    On sale
+                  </span>
+                </div>
+              </div>
+            </div>
+          </div>
+        </div>
+        
+        <div className="p-6 border-t flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSubmit(values)}
+            disabled={isSubmitting}
+            className="px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : initialValues.id ? "Save Theme" : "Create Theme"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function Themes() {
-  const { savedThemes, presets } = useLoaderData<typeof loader>();
+  const { savedThemes, effective, nextChangeAt, presets, fonts, fontLibrary, fontFaces, maxFontFileSize } = useLoaderData<typeof loader>();
+  const fetcher = useFetcher<{ success: boolean; message: string }>();
+  const [editing, setEditing] = useState<ThemeFormValues | null>(null);
+  const activeTheme = savedThemes.find(theme => theme.isActive);
+  const baseTheme = savedThemes.find(theme => theme.isBase);
+  const scheduledThemes = savedThemes
+    .filter(theme => theme.isScheduled && theme.scheduledStart)
+    .sort((a, b) => new Date(a.scheduledStart!).getTime() - new Date(b.scheduledStart!).getTime());
+  
+  const uploadForm = useRef<HTMLFormElement>(null);
+  const handledResult = useRef<unknown>(null);
+  useEffect(() => {
+    if (fetcher.state !== "idle" || !fetcher.data || handledResult.current === fetcher.data) return;
+    handledResult.current = fetcher.data;
+    if (fetcher.data.success) {
+      setEditing(null);
+      uploadForm.current?.reset();
+    } else {
+      alert(fetcher.data.message);
+    }
+  }, [fetcher.state, fetcher.data]);
+  
+  const submit = (intent: string, fields: Record<string, string> = {}) => {
+    fetcher.submit({ intent, ...fields }, { method: "POST" });
+  };
+  
+  const unscheduled = { isScheduled: false, scheduledStart: "", scheduledEnd: "", priority: "0" };
+  
+  const openNewTheme = () => {
+    const { id: _presetId, ...defaults } = presets[0];
+    setEditing({ ...defaults, ...unscheduled, name: "", description: "" });
+  };
+  
+  const openQuickSchedule = (quick: typeof QUICK_SCHEDULES[number]) => {
+    const now = new Date();
+    let year = now.getFullYear();
+    if (new Date(year, quick.month, quick.endDay + 1) <= now) year++;
+    const { id: _presetId, ...defaults } = presets[0];
+    setEditing({
+      ...defaults,
+      name: `${quick.name} ${year}`,
+      description: "",
+      primaryColor: quick.primaryColor,
+      secondaryColor: quick.secondaryColor,
+      isScheduled: true,
+      scheduledStart: toLocalInput(new Date(year, quick.month, quick.startDay)),
+      scheduledEnd: toLocalInput(new Date(year, quick.month, quick.endDay + 1)),
+      priority: "10"
+    });
+  };
+  
+  const openEditTheme = (theme: typeof savedThemes[number]) => {
+    setEditing({
+      id: theme.id,
+      name: theme.name,
+      description: theme.description || "",
+      primaryColor: theme.primaryColor,
+      secondaryColor: theme.secondaryColor,
+      backgroundColor: theme.backgroundColor,
+      textColor: theme.textColor,
+      fontFamily: theme.fontFamily,
+      isScheduled: theme.isScheduled,
+      scheduledStart: toLocalInput(theme.scheduledStart),
+      scheduledEnd: toLocalInput(theme.scheduledEnd),
+      priority: String(theme.priority)
+    });
+  };
+  
+  const saveTheme = ({ id, isScheduled, scheduledStart, scheduledEnd, ...values }: ThemeFormValues) => {
+    // The server gets absolute times, so schedules switch at the merchant's local time
+    const fields = {
+      ...values,
+      isScheduled: String(isScheduled),
+      scheduledStart: scheduledStart ? new Date(scheduledStart).toISOString() : "",
+      scheduledEnd: scheduledEnd ? new Date(scheduledEnd).toISOString() : ""
+    };
+    submit(id ? "update-theme" : "create-theme", id ? { ...fields, themeId: id } : fields);
+  };
+  
+  const uploadFont = (form: HTMLFormElement) => {
+    const formData = new FormData(form);
+    formData.append("intent", "upload-font");
+    fetcher.submit(formData, { method: "POST", encType: "multipart/form-data" });
+  };
+  
+  const deleteFontWithConfirm = (font: typeof fontLibrary[number]) => {
+    const users = savedThemes.filter(theme => theme.fontFamily === font.family);
+    const warning = users.length > 0 ? ` ${users.map(theme => `"${theme.name}"`).join(", ")} will show a system font instead.` : "";
+    if (!confirm(`Delete the ${font.family} family and all its files?${warning}`)) return;
+    submit("delete-font", { fontId: font.id });
+  };
+  
+  const deleteThemeWithConfirm = (theme: typeof savedThemes[number]) => {
+    const warning = theme.isBase ? " It is the base theme, so your app goes back to its default look outside of schedules." : "";
+    if (!confirm(`Delete "${theme.name}"?${warning}`)) return;
+    submit("delete-theme", { themeId: theme.id });
+  };
 
   return (
     <div className="p-8 max-w-7xl mx-auto">
+      {fontFaces && <style dangerouslySetInnerHTML={{ __html: fontFaces }} />}
       {/* Header */}
       <div className="mb-8">
         <div className="flex items-center justify-between">
@@ -54,7 +551,11 @@ export default function Themes() {
             <h1 className="text-3xl font-bold text-gray-900 mb-2">Theme Management</h1>
             <p className="text-gray-600">Create and manage themes for your mobile app</p>
           </div>
-          <button className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium">
+          <button
+            type="button"
+            onClick={openNewTheme}
+            className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors font-medium"
+          >
             🎨 Create New Theme
           </button>
         </div>
@@ -63,24 +564,30 @@ export default function Themes() {
       {/* Active Theme */}
       <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
         <h2 className="text-xl font-semibold mb-4">Active Theme</h2>
-        {savedThemes.find(theme => theme.isActive) ? (
+        {activeTheme ? (
           <div className="flex items-center justify-between">
             <div className="flex items-center gap-4">
               <div className="flex gap-2">
                 <div 
                   className="w-8 h-8 rounded-full border-2 border-white shadow-md"
-                  style={{ backgroundColor: savedThemes.find(theme => theme.isActive)?.primaryColor }}
+                  style={{ backgroundColor: activeTheme.primaryColor }}
                 />
                 <div 
                   className="w-8 h-8 rounded-full border-2 border-white shadow-md"
-                  style={{ backgroundColor: savedThemes.find(theme => theme.isActive)?.secondaryColor }}
+                  style={{ backgroundColor: activeTheme.secondaryColor }}
                 />
               </div>
               <div>
-                <h3 className="font-semibold">{savedThemes.find(theme => theme.isActive)?.name}</h3>
+                <h3 className="font-semibold">{activeTheme.name}</h3>
                 <p className="text-sm text-gray-600">
-                  Font: {savedThemes.find(theme => theme.isActive)?.fontFamily}
+                  Font: {activeTheme.fontFamily}
                 </p>
+                {effective?.source === "schedule" && (
+                  <p className="text-sm text-blue-700">
+                    📅 Scheduled{effective.until ? ` until ${formatDate(new Date(effective.until))}` : ""}
+                    {baseTheme ? `, then back to "${baseTheme.name}"` : ", then back to the default look"}
+                  </p>
+                )}
               </div>
             </div>
             <span className="px-3 py-1 bg-green-100 text-green-800 rounded-full text-sm font-medium">
@@ -88,23 +595,41 @@ export default function Themes() {
             </span>
           </div>
         ) : (
-          <p className="text-gray-500">No active theme selected</p>
+          <p className="text-gray-500">No active theme selected. Your app uses its default colors.</p>
+        )}
+        {nextChangeAt && (
+          <p className="text-xs text-gray-500 mt-3">Next scheduled change: {formatDate(new Date(nextChangeAt))}</p>
         )}
       </div>
 
       {/* Saved Themes */}
       <div className="mb-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Your Themes</h2>
+        {savedThemes.length === 0 && (
+          <div className="bg-white rounded-lg shadow-sm border p-6 text-gray-500">
+            No themes yet. Create one from scratch or start from a preset below.
+          </div>
+        )}
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
           {savedThemes.map((theme) => (
-            <div key={theme.id} className="bg-white rounded-lg shadow-sm border p-6">
+            <div key={theme.id} id={`theme-${theme.id}`} className="bg-white rounded-lg shadow-sm border p-6">
               <div className="flex items-center justify-between mb-4">
-                <h3 className="font-semibold text-lg">{theme.name}</h3>
-                {theme.isActive && (
-                  <span className="px-2 py-1 bg-green-100 text-green-800 rounded text-xs">
-                    Active
-                  </span>
-                )}
+                <div>
+                  <h3 className="font-semibold text-lg">{theme.name}</h3>
+                  {theme.description && <p className="text-sm text-gray-500">{theme.description}</p>}
+                </div>
+                <div className="flex gap-1">
+                  {theme.isActive && (
+                    <span className="px-2 py-1 bg-green-100 text-green-800 rounded text-xs">
+                      Active
+                    </span>
+                  )}
+                  {theme.isBase && (
+                    <span className="px-2 py-1 bg-gray-100 text-gray-700 rounded text-xs" title="Shown whenever no schedule is running">
+                      Base
+                    </span>
+                  )}
+                </div>
               </div>
               
               <div className="space-y-3">
@@ -126,38 +651,189 @@ export default function Themes() {
                       style={{ backgroundColor: theme.backgroundColor }}
                       title="Background Color"
                     />
+                    <div 
+                      className="w-6 h-6 rounded border"
+                      style={{ backgroundColor: theme.textColor }}
+                      title="Text Color"
+                    />
                   </div>
                 </div>
                 
                 <div className="flex items-center gap-3">
                   <span className="text-sm text-gray-600 w-20">Font:</span>
-                  <span className="text-sm font-medium" style={{ fontFamily: theme.fontFamily }}>
+                  <span className="text-sm font-medium" style={{ fontFamily: fontStack(theme.fontFamily) }}>
                     {theme.fontFamily}
                   </span>
                 </div>
                 
-                {theme.scheduledStart && (
+                <ContrastWarnings issues={checkThemeContrast(theme)} />
+                
+                {theme.isScheduled && theme.scheduledStart && (
                   <div className="text-xs text-gray-500">
-                    📅 Scheduled: {formatDate(new Date(theme.scheduledStart))}
+                    📅 {formatDate(new Date(theme.scheduledStart))}
+                    {theme.scheduledEnd ? ` – ${formatDate(new Date(theme.scheduledEnd))}` : " onwards"}
+                    {theme.priority !== 0 && ` · priority ${theme.priority}`}
                   </div>
                 )}
               </div>
               
               <div className="flex gap-2 mt-4">
-                <button className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors">
+                <button
+                  type="button"
+                  onClick={() => openEditTheme(theme)}
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
                   Edit
                 </button>
-                {!theme.isActive && (
-                  <button className="flex-1 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors">
+                {!theme.isBase && (
+                  <button
+                    type="button"
+                    onClick={() => submit("activate-theme", { themeId: theme.id })}
+                    disabled={fetcher.state !== "idle"}
+                    className="flex-1 px-3 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors disabled:opacity-50"
+                  >
                     Activate
                   </button>
                 )}
               </div>
+              <div className="flex gap-2 mt-2">
+                <button
+                  type="button"
+                  onClick={() => submit("duplicate-theme", { themeId: theme.id })}
+                  disabled={fetcher.state !== "idle"}
+                  className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded hover:bg-gray-50 transition-colors disabled:opacity-50"
+                >
+                  Duplicate
+                </button>
+                <button
+                  type="button"
+                  onClick={() => deleteThemeWithConfirm(theme)}
+                  disabled={fetcher.state !== "idle"}
+                  className="flex-1 px-3 py-2 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  Delete
+                </button>
+              </div>
             </div>
           ))}
         </div>
       </div>
 
+      {/* Font Library */}
+      <div className="bg-white rounded-lg shadow-sm border p-6 mb-8">
+        <h2 className="text-xl font-semibold mb-2">🔤 Font Library</h2>
+        <p className="text-gray-600 mb-4">
+          Upload TTF, OTF, WOFF or WOFF2 files of up to {maxFontFileSize / 1024 / 1024} MB, one per weight and style,
+          then pick the family as a theme's font. Your app downloads the files of every family a theme uses.
+        </p>
+        
+        <form
+          ref={uploadForm}
+          onSubmit={(e) => {
+            e.preventDefault();
+            uploadFont(e.currentTarget);
+          }}
+          className="grid grid-cols-1 md:grid-cols-5 gap-3 items-end mb-6"
+        >
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Family</label>
+            <input
+              name="family"
+              list="font-families"
+              required
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+              placeholder="Brand Sans"
+            />
+            <datalist id="font-families">
+              {fontLibrary.map(font => <option key={font.id} value={font.family} />)}
+            </datalist>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Weight</label>
+            <select name="weight" defaultValue="400" className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
+              {FONT_WEIGHTS.map(weight => (
+                <option key={weight} value={weight}>{weight} · {describeVariant({ weight, style: "normal" })}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">Style</label>
+            <select name="style" defaultValue="normal" className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm">
+              {FONT_STYLES.map(style => (
+                <option key={style} value={style}>{style === "normal" ? "Normal" : "Italic"}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-600 mb-1">File</label>
+            <input
+              type="file"
+              name="file"
+              accept=".ttf,.otf,.woff,.woff2,font/ttf,font/otf,font/woff,font/woff2"
+              required
+              className="w-full text-sm"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={fetcher.state !== "idle"}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm font-medium disabled:opacity-50"
+          >
+            Upload Font
+          </button>
+        </form>
+        
+        {fontLibrary.length > 0 ? (
+          <div className="space-y-3">
+            {fontLibrary.map(font => (
+              <div key={font.id} className="p-4 bg-gray-50 rounded-lg">
+                <div className="flex items-center justify-between mb-2">
+                  <div>
+                    <div className="font-semibold">{font.family}</div>
+                    <div className="text-lg" style={{ fontFamily: fontStack(font.family) }}>
+                      The quick brown fox jumps over the lazy dog
+                    </div>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => deleteFontWithConfirm(font)}
+                    disabled={fetcher.state !== "idle"}
+                    className="px-3 py-1 text-sm text-red-600 border border-red-200 rounded hover:bg-red-50 transition-colors disabled:opacity-50"
+                  >
+                    Delete Family
+                  </button>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {font.variants.map(variant => (
+                    <span
+                      key={variant.id}
+                      className="flex items-center gap-2 px-2 py-1 bg-white border rounded text-xs"
+                      title={variant.fileName}
+                    >
+                      <span style={{ fontFamily: fontStack(font.family), fontWeight: variant.weight, fontStyle: variant.style }}>
+                        {describeVariant(variant)}
+                      </span>
+                      <span className="text-gray-500">{variant.format.toUpperCase()} · {Math.ceil(variant.size / 1024)} KB</span>
+                      <button
+                        type="button"
+                        onClick={() => submit("delete-font-variant", { variantId: variant.id })}
+                        disabled={fetcher.state !== "idle"}
+                        className="text-gray-400 hover:text-red-600 disabled:opacity-50"
+                        title={`Delete ${describeVariant(variant)}`}
+                      >
+                        ✕
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-gray-500 text-sm">No uploaded fonts yet. Themes use the built-in fonts until you add one.</p>
+        )}
+      </div>
+
       {/* Theme Presets */}
       <div className="mb-8">
         <h2 className="text-2xl font-bold text-gray-900 mb-6">Theme Presets</h2>
@@ -188,7 +864,12 @@ export default function Themes() {
                 </p>
               </div>
               
-              <button className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm">
+              <button
+                type="button"
+                onClick={() => submit("create-from-preset", { presetId: preset.id })}
+                disabled={fetcher.state !== "idle"}
+                className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
+              >
                 Use This Preset
               </button>
             </div>
@@ -201,27 +882,39 @@ export default function Themes() {
         <h2 className="text-xl font-semibold mb-4">🗓️ Theme Scheduling</h2>
         <p className="text-gray-600 mb-4">
           Schedule themes for special events like holidays, sales, or seasonal campaigns.
+          While a schedule runs its theme replaces the base theme, and the base theme comes back when it ends.
         </p>
         
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div className="space-y-4">
-            <h3 className="font-semibold">Upcoming Scheduled Themes</h3>
-            {savedThemes.filter(theme => theme.scheduledStart).length > 0 ? (
-              savedThemes
-                .filter(theme => theme.scheduledStart)
-                .map(theme => (
-                  <div key={theme.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
-                    <div>
-                      <div className="font-medium">{theme.name}</div>
-                      <div className="text-sm text-gray-600">
-                        Starts: {theme.scheduledStart && formatDate(new Date(theme.scheduledStart))}
-                      </div>
+            <h3 className="font-semibold">Scheduled Themes</h3>
+            {scheduledThemes.length > 0 ? (
+              scheduledThemes.map(theme => (
+                <div key={theme.id} className="flex items-center justify-between p-3 bg-gray-50 rounded">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {theme.name}
+                      {SCHEDULE_BADGES[theme.scheduleState] && (
+                        <span className={`px-2 py-0.5 rounded text-xs ${SCHEDULE_BADGES[theme.scheduleState].className}`}>
+                          {SCHEDULE_BADGES[theme.scheduleState].label}
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-gray-600">
+                      Starts: {formatDate(new Date(theme.scheduledStart!))}
+                      {theme.scheduledEnd && <> · Ends: {formatDate(new Date(theme.scheduledEnd))}</>}
                     </div>
-                    <button className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-white transition-colors">
-                      Edit
-                    </button>
+                    <div className="text-xs text-gray-500">Priority {theme.priority}</div>
                   </div>
-                ))
+                  <button
+                    type="button"
+                    onClick={() => openEditTheme(theme)}
+                    className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-white transition-colors"
+                  >
+                    Edit
+                  </button>
+                </div>
+              ))
             ) : (
               <p className="text-gray-500 text-sm">No scheduled themes</p>
             )}
@@ -230,19 +923,32 @@ export default function Themes() {
           <div className="space-y-4">
             <h3 className="font-semibold">Quick Schedule</h3>
             <div className="space-y-2">
-              <button className="w-full text-left p-3 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
-                🎄 Christmas Theme (Dec 1-26)
-              </button>
-              <button className="w-full text-left p-3 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
-                🎃 Halloween Theme (Oct 15-31)
-              </button>
-              <button className="w-full text-left p-3 border border-gray-300 rounded hover:bg-gray-50 transition-colors">
-                💝 Valentine's Theme (Feb 1-14)
-              </button>
+              {QUICK_SCHEDULES.map(quick => (
+                <button
+                  key={quick.name}
+                  type="button"
+                  onClick={() => openQuickSchedule(quick)}
+                  className="w-full text-left p-3 border border-gray-300 rounded hover:bg-gray-50 transition-colors"
+                >
+                  {quick.label}
+                </button>
+              ))}
             </div>
           </div>
         </div>
       </div>
+      
+      {editing && (
+        <ThemeEditor
+          key={editing.id || "new"}
+          initialValues={editing}
+          fonts={fonts}
+          uploadedFonts={fontLibrary.map(font => font.family)}
+          isSubmitting={fetcher.state !== "idle"}
+          onSubmit={saveTheme}
+          onCancel={() => setEditing(null)}
+        />
+      )}
     </div>
   );
 } 
\ No newline at end of file
@@ -1,18 +1,35 @@
 import type { LoaderFunctionArgs } from "@remix-run/node";
 import { json } from "@remix-run/node";
 import { useLoaderData } from "@remix-run/react";
+import { prisma } from "../db.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   console.log("🚀 DEV BUILDER LOADER - Starting...");
+  const shop = "tryongoeye.myshopify.com";
+  
+  // Show whichever template the builder has marked as active for the dev shop
+  const mobileApp = await prisma.mobileApp.findUnique({
+    where: { shop: shop },
+    include: {
+      activeTemplate: {
+        include: { _count: { select: { components: true } } }
+      }
+    }
+  });
+  const activeTemplate = mobileApp?.activeTemplate
+    ? { name: mobileApp.activeTemplate.name, componentCount: mobileApp.activeTemplate._count.components }
+    : null;
+  
   return json({
-    shop: "tryongoeye.myshopify.com",
+    shop: shop,
+    activeTemplate,
     mobileAppUrl: "http://localhost:3001",
     builderUrl: "http://localhost:50750/app/builder"
   });
 };
 
 export default function DevBuilder() {
-  const { shop, mobileAppUrl, builderUrl } = useLoaderData<typeof loader>();
+  const { shop, activeTemplate, mobileAppUrl, builderUrl } = useLoaderData<typeof loader>();
 
   return (
     <div style={{ 
@@ -52,7 +69,7 @@ export default function DevBuilder() {
           <strong>Mobile App:</strong> <a href={mobileAppUrl} target="_blank" rel="noopener noreferrer" style={{ color: '#2563eb' }}>{mobileAppUrl}</a>
         </p>
         <p style={{ margin: 0 }}>
-          <strong>Template:</strong> live-preview-1751483946613
+          <strong>Template:</strong> {activeTemplate ? activeTemplate.name : "No active template selected"}
         </p>
       </div>
 
@@ -67,7 +84,11 @@ export default function DevBuilder() {
         <ul style={{ margin: 0, paddingLeft: '1.5rem' }}>
           <li>✅ Main Server: Running on port 50750</li>
           <li>✅ Mobile App: Running on port 3001</li>
-          <li>✅ Template: live-preview-1751483946613 (4 components)</li>
+          {activeTemplate ? (
+            <li>✅ Template: {activeTemplate.name} ({activeTemplate.componentCount} components)</li>
+          ) : (
+            <li>⚠️ Template: none selected – mark a page as active in the builder</li>
+          )}
           <li>✅ Hero Slider: Real TryOnGoEye images working</li>
           <li>✅ Product Detail Pages: Navigation working</li>
         </ul>
@@ -139,7 +160,7 @@ export default function DevBuilder() {
       }}>
         <h3 style={{ margin: '0 0 1rem 0', color: '#374151' }}>🛠️ Technical Details</h3>
         <ul style={{ margin: 0, paddingLeft: '1.5rem' }}>
-          <li><strong>Template ID:</strong> live-preview-1751483946613</li>
+          <li><strong>Active Template:</strong> {activeTemplate?.name || "None"}</li>
           <li><strong>Components:</strong> 4 (mobile-header, hero-slider, featured-collection, carousel)</li>
           <li><strong>Products:</strong> 4 real TryOnGoEye products</li>
           <li><strong>Hero Images:</strong> 4 real store banners from goeye.in</li>
@@ -1,10 +1,12 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
 
-export const action = async ({ request }: ActionFunctionArgs) => {
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
     const { payload, session, topic, shop } = await authenticate.webhook(request);
-    console.log(`Received ${topic} webhook for ${shop}`);
+    addLogContext({ shop });
+    logger.info("Received webhook", { topic });
 
     const current = payload.current as string[];
     if (session) {
@@ -18,4 +20,4 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         });
     }
     return new Response();
-};
+});
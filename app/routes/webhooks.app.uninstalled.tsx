@@ -1,11 +1,13 @@
 import type { ActionFunctionArgs } from "@remix-run/node";
 import { authenticate } from "../shopify.server";
 import db from "../db.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
 
-export const action = async ({ request }: ActionFunctionArgs) => {
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
   const { shop, session, topic } = await authenticate.webhook(request);
 
-  console.log(`Received ${topic} webhook for ${shop}`);
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
 
   // Webhook requests can trigger multiple times and after an app has already been uninstalled.
   // If this webhook already ran, the session may have been deleted previously.
@@ -14,4 +16,4 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   }
 
   return new Response();
-};
+});
@@ -0,0 +1,16 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { invalidateShopifyData } from "../lib/shopify-cache.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic } = await authenticate.webhook(request);
+
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
+
+  // The catalog snapshot no longer matches the shop; the next sync replaces it
+  await invalidateShopifyData(shop, topic);
+
+  return new Response();
+});
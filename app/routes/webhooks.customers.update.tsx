@@ -0,0 +1,31 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { processWebhookOnce } from "../lib/webhooks.server";
+import { recordAnalyticsEvent } from "../lib/analytics.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+
+// Handles customers/create and customers/update. Only the
+// customer id and marketing consent are recorded, never contact details.
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
+
+  await processWebhookOnce({ webhookId, shop, topic }, async () => {
+    const customerId = payload.admin_graphql_api_id || `gid://shopify/Customer/${payload.id}`;
+
+    await recordAnalyticsEvent(shop, {
+      eventType: 'CUSTOM',
+      eventName: topic.toLowerCase(),
+      sessionId: `customer:${customerId}`,
+      userId: customerId,
+      properties: {
+        customerId,
+        emailMarketingConsent: payload.email_marketing_consent?.state ?? null
+      }
+    });
+  });
+
+  return new Response();
+});
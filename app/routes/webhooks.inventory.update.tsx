@@ -0,0 +1,67 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { processWebhookOnce } from "../lib/webhooks.server";
+import { raiseNotificationTrigger } from "../lib/notification-triggers.server";
+import { findInventoryItem, getCatalogProduct, recordInventoryLevel } from "../lib/shopify-cache.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+
+const INVENTORY_ITEM_QUERY = `
+  query InventoryItemVariant($id: ID!) {
+    inventoryItem(id: $id) {
+      variant {
+        id
+        product {
+          id
+        }
+      }
+    }
+  }
+`;
+
+// Handles inventory_levels/update
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload, admin } = await authenticate.webhook(request);
+
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
+
+  await processWebhookOnce({ webhookId, shop, topic }, async () => {
+    const inventoryItemId = `gid://shopify/InventoryItem/${payload.inventory_item_id}`;
+    const available = typeof payload.available === "number" ? payload.available : 0;
+
+    // Items are linked to variants by product webhooks; ask Shopify for ones we have not seen yet
+    let item = await findInventoryItem(shop, inventoryItemId);
+    if (!item && admin) {
+      const response = await admin.graphql(INVENTORY_ITEM_QUERY, { variables: { id: inventoryItemId } });
+      const data = await response.json();
+      const variant = data.data?.inventoryItem?.variant;
+      item = variant ? { productId: variant.product.id, variantId: variant.id } : null;
+    }
+
+    const { previousTotal, total } = await recordInventoryLevel(shop, {
+      inventoryItemId,
+      locationId: `gid://shopify/Location/${payload.location_id}`,
+      available,
+      productId: item?.productId,
+      variantId: item?.variantId
+    });
+
+    // Back in stock means the item's stock over all locations went from none to
+    // some. The first report for an item only records the level.
+    if (previousTotal === null || previousTotal > 0 || total <= 0 || !item?.productId) {
+      return;
+    }
+
+    const product = await getCatalogProduct(shop, item.productId);
+    await raiseNotificationTrigger(shop, "BACK_IN_STOCK", {
+      productId: item.productId,
+      variantId: item.variantId,
+      payload: {
+        product_name: product?.title || "",
+        available: total
+      }
+    });
+  });
+
+  return new Response();
+});
@@ -0,0 +1,22 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { processWebhookOnce } from "../lib/webhooks.server";
+import { recordPurchase } from "../lib/analytics.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+
+// Handles orders/create, orders/paid and orders/updated. Every one of them can
+// be the first to report an order as paid, so each checks the financial status.
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
+
+  await processWebhookOnce({ webhookId, shop, topic }, async () => {
+    if (payload.financial_status === "paid") {
+      await recordPurchase(shop, payload);
+    }
+  });
+
+  return new Response();
+});
@@ -0,0 +1,54 @@
+import type { ActionFunctionArgs } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { processWebhookOnce } from "../lib/webhooks.server";
+import { findPriceDrops, raiseNotificationTrigger } from "../lib/notification-triggers.server";
+import {
+  getCatalogProduct,
+  linkInventoryItems,
+  productFromWebhook,
+  removeCatalogProduct,
+  upsertCatalogProduct
+} from "../lib/shopify-cache.server";
+import { addLogContext, logger, withRequestContext } from "../lib/logger.server";
+
+// Handles products/create, products/update and products/delete
+export const action = withRequestContext(async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  addLogContext({ shop });
+  logger.info("Received webhook", { topic });
+
+  await processWebhookOnce({ webhookId, shop, topic }, async () => {
+    if (topic === "PRODUCTS_DELETE") {
+      await removeCatalogProduct(shop, `gid://shopify/Product/${payload.id}`);
+      return;
+    }
+
+    const previous = await getCatalogProduct(shop, payload.admin_graphql_api_id);
+    const product = productFromWebhook(payload, previous?.variants?.[0]?.price?.currencyCode);
+    await upsertCatalogProduct(shop, product);
+
+    await linkInventoryItems(
+      shop,
+      product.id,
+      product.variants
+        .filter((variant: any) => variant.inventoryItemId)
+        .map((variant: any) => ({ inventoryItemId: variant.inventoryItemId, variantId: variant.id }))
+    );
+
+    for (const drop of findPriceDrops(previous, product)) {
+      await raiseNotificationTrigger(shop, "PRICE_DROP", {
+        productId: product.id,
+        variantId: drop.variantId,
+        payload: {
+          product_name: product.title,
+          variant_name: drop.variantTitle,
+          old_price: drop.oldPrice,
+          new_price: drop.newPrice
+        }
+      });
+    }
+  });
+
+  return new Response();
+});
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "template_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pageId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "note" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "template_versions_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "app_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "template_versions_pageId_version_key" ON "template_versions"("pageId", "version");
+
+-- Publish the current draft of every existing page as v1, so devices keep
+-- seeing them now that the live config serves published versions only.
+-- Component ids follow the component library: its names dasherized, except
+-- for the two whose names differ from their ids.
+INSERT INTO "template_versions" ("id", "pageId", "version", "snapshot", "note")
+SELECT
+    lower(hex(randomblob(16))),
+    p."id",
+    1,
+    json_object(
+        'page', json_object('name', p."name", 'slug', p."slug", 'type', p."type"),
+        'components', (
+            SELECT json_group_array(json(ordered."component"))
+            FROM (
+                SELECT json_object(
+                    'componentId', CASE c."name"
+                        WHEN 'Product Carousel' THEN 'carousel'
+                        WHEN 'Countdown Timer' THEN 'countdown'
+                        ELSE lower(replace(c."name", ' ', '-'))
+                    END,
+                    'type', c."type",
+                    'name', c."name",
+                    'props', json(pc."props"),
+                    'order', pc."order"
+                ) AS "component"
+                FROM "page_components" pc
+                JOIN "components" c ON c."id" = pc."componentId"
+                WHERE pc."pageId" = p."id"
+                ORDER BY pc."order"
+            ) AS ordered
+        )
+    ),
+    'Published when version history was introduced'
+FROM "app_pages" p;
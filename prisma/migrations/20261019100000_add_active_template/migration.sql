@@ -0,0 +1,29 @@
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_mobile_apps" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "bundleId" TEXT NOT NULL,
+    "packageName" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'DRAFT',
+    "activeThemeId" TEXT,
+    "activeTemplateId" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "mobile_apps_activeThemeId_fkey" FOREIGN KEY ("activeThemeId") REFERENCES "themes" ("id") ON DELETE SET NULL ON UPDATE CASCADE,
+    CONSTRAINT "mobile_apps_activeTemplateId_fkey" FOREIGN KEY ("activeTemplateId") REFERENCES "app_pages" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_mobile_apps" ("bundleId", "createdAt", "id", "name", "packageName", "shop", "status", "activeThemeId", "updatedAt") SELECT "bundleId", "createdAt", "id", "name", "packageName", "shop", "status", "activeThemeId", "updatedAt" FROM "mobile_apps";
+DROP TABLE "mobile_apps";
+ALTER TABLE "new_mobile_apps" RENAME TO "mobile_apps";
+CREATE UNIQUE INDEX "mobile_apps_shop_key" ON "mobile_apps"("shop");
+-- Start from the page the live config used to serve: the hard-coded
+-- live preview template if the app has it, else its most recently updated page
+UPDATE "mobile_apps" SET "activeTemplateId" = COALESCE(
+    (SELECT "id" FROM "app_pages" WHERE "appId" = "mobile_apps"."id" AND "name" = 'live-preview-1751483946613' LIMIT 1),
+    (SELECT "id" FROM "app_pages" WHERE "appId" = "mobile_apps"."id" ORDER BY "updatedAt" DESC LIMIT 1)
+);
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "page_components" ADD COLUMN "schemaVersion" INTEGER NOT NULL DEFAULT 1;
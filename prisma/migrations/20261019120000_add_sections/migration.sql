@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "sections" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "components" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "sections_appId_fkey" FOREIGN KEY ("appId") REFERENCES "mobile_apps" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_page_components" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "pageId" TEXT NOT NULL,
+    "componentId" TEXT NOT NULL,
+    "order" INTEGER NOT NULL,
+    "props" JSONB NOT NULL,
+    "schemaVersion" INTEGER NOT NULL DEFAULT 1,
+    "styles" JSONB,
+    "sectionId" TEXT,
+    "sectionInstance" TEXT,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "page_components_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "app_pages" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "page_components_componentId_fkey" FOREIGN KEY ("componentId") REFERENCES "components" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+    CONSTRAINT "page_components_sectionId_fkey" FOREIGN KEY ("sectionId") REFERENCES "sections" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+INSERT INTO "new_page_components" ("componentId", "createdAt", "id", "order", "pageId", "props", "schemaVersion", "styles", "updatedAt") SELECT "componentId", "createdAt", "id", "order", "pageId", "props", "schemaVersion", "styles", "updatedAt" FROM "page_components";
+DROP TABLE "page_components";
+ALTER TABLE "new_page_components" RENAME TO "page_components";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sections_appId_name_key" ON "sections"("appId", "name");
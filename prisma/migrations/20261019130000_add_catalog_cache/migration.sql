@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "catalog_products" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "handle" TEXT NOT NULL,
+    "vendor" TEXT,
+    "data" JSONB NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "catalog_collections" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "handle" TEXT NOT NULL,
+    "data" JSONB NOT NULL,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "catalog_states" (
+    "shop" TEXT NOT NULL PRIMARY KEY,
+    "syncedAt" DATETIME,
+    "invalidatedAt" DATETIME,
+    "invalidatedBy" TEXT,
+    "updatedAt" DATETIME NOT NULL
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "catalog_products_shop_productId_key" ON "catalog_products"("shop", "productId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "catalog_collections_shop_collectionId_key" ON "catalog_collections"("shop", "collectionId");
@@ -0,0 +1,12 @@
+-- CreateTable
+CREATE TABLE "live_config_versions" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "shop" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "hash" TEXT NOT NULL,
+    "fingerprint" JSONB NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "live_config_versions_shop_version_key" ON "live_config_versions"("shop", "version");
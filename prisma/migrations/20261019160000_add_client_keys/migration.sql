@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "mobile_apps" ADD COLUMN "clientKey" TEXT;
+ALTER TABLE "mobile_apps" ADD COLUMN "previousClientKey" TEXT;
+ALTER TABLE "mobile_apps" ADD COLUMN "clientKeyRotatedAt" DATETIME;
+ALTER TABLE "mobile_apps" ADD COLUMN "previewKey" TEXT;
+ALTER TABLE "mobile_apps" ADD COLUMN "allowedOrigins" JSONB;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mobile_apps_clientKey_key" ON "mobile_apps"("clientKey");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "mobile_apps_previewKey_key" ON "mobile_apps"("previewKey");
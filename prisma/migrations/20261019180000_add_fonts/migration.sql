@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "fonts" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "appId" TEXT NOT NULL,
+    "family" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" DATETIME NOT NULL,
+    CONSTRAINT "fonts_appId_fkey" FOREIGN KEY ("appId") REFERENCES "mobile_apps" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "font_variants" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "fontId" TEXT NOT NULL,
+    "weight" INTEGER NOT NULL,
+    "style" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "fileName" TEXT NOT NULL,
+    "size" INTEGER NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "font_variants_fontId_fkey" FOREIGN KEY ("fontId") REFERENCES "fonts" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fonts_appId_family_key" ON "fonts"("appId", "family");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "font_variants_fontId_weight_style_key" ON "font_variants"("fontId", "weight", "style");
@@ -9,6 +9,28 @@ const prisma = new PrismaClient();
 
 console.log('🚀 Generating mobile app from builder configuration...');
 
+// Color props bound to a theme token (see app/lib/theme-tokens.ts) get the theme's color baked in
+const THEME_TOKEN_FIELDS = {
+  'theme.primary': 'primaryColor',
+  'theme.secondary': 'secondaryColor',
+  'theme.background': 'backgroundColor',
+  'theme.text': 'textColor'
+};
+
+// Only props the component declares as colors hold tokens; any other prop keeps
+// its value even if it happens to read like one
+function resolveThemeTokens(props, component, theme) {
+  const colorProps = new Set(
+    (component.config?.properties || []).filter(property => property.type === 'color').map(property => property.name)
+  );
+  return Object.fromEntries(
+    Object.entries(props || {}).map(([name, value]) => [
+      name,
+      colorProps.has(name) && THEME_TOKEN_FIELDS[value] ? theme[THEME_TOKEN_FIELDS[value]] : value
+    ])
+  );
+}
+
 async function generateMobileApp(shopOrAppId) {
   try {
     // Get mobile app configuration from database
@@ -20,7 +42,9 @@ async function generateMobileApp(shopOrAppId) {
       mobileApp = await prisma.mobileApp.findUnique({
         where: { shop: shopOrAppId },
         include: {
-          activeTheme: true,
+          // The theme the app shows right now, scheduled or not. The server keeps
+          // isActive on it (see applyEffectiveTheme), as the live config works it out.
+          themes: { where: { isActive: true }, take: 1 },
           pages: {
             include: {
               components: {
@@ -39,7 +63,7 @@ async function generateMobileApp(shopOrAppId) {
       mobileApp = await prisma.mobileApp.findUnique({
         where: { id: shopOrAppId },
         include: {
-          activeTheme: true,
+          themes: { where: { isActive: true }, take: 1 },
           pages: {
             include: {
               components: {
@@ -58,9 +82,15 @@ async function generateMobileApp(shopOrAppId) {
     if (!mobileApp) {
       throw new Error(`Mobile app not found for: ${shopOrAppId}`);
     }
+
+    // Without its keys the app could not load its config; opening the builder creates them
+    if (!mobileApp.clientKey || !mobileApp.previewKey) {
+      throw new Error(`Mobile app for ${mobileApp.shop} has no client key yet. Open the app builder once, then generate again.`);
+    }
     
     console.log(`📱 Found app: ${mobileApp.name}`);
-    console.log(`🎨 Theme: ${mobileApp.activeTheme?.name || 'Default'}`);
+    const [effectiveTheme] = mobileApp.themes;
+    console.log(`🎨 Theme: ${effectiveTheme?.name || 'Default'}`);
     console.log(`📄 Pages: ${mobileApp.pages.length}`);
     
     // Create generated app directory
@@ -80,17 +110,22 @@ async function generateMobileApp(shopOrAppId) {
     await fs.copy(templateDir, appDir);
     
     // Generate app configuration
+    const theme = effectiveTheme || {
+      primaryColor: '#007AFF',
+      secondaryColor: '#5856D6',
+      backgroundColor: '#FFFFFF',
+      textColor: '#000000'
+    };
     const appConfig = {
       name: mobileApp.name,
       bundleId: mobileApp.bundleId,
       packageName: mobileApp.packageName || mobileApp.bundleId.replace(/\./g, '_').toLowerCase(),
       shop: mobileApp.shop,
-      theme: mobileApp.activeTheme || {
-        primaryColor: '#007AFF',
-        secondaryColor: '#5856D6',
-        backgroundColor: '#FFFFFF',
-        textColor: '#000000'
-      },
+      // Sent with every live config request; rotate it in the app's settings
+      clientKey: mobileApp.clientKey,
+      // This is a preview build: it loads the saved drafts, which need the preview key
+      previewKey: mobileApp.previewKey,
+      theme,
       pages: mobileApp.pages.map(page => ({
         id: page.id,
         name: page.name,
@@ -100,7 +135,7 @@ async function generateMobileApp(shopOrAppId) {
         components: page.components.map(pc => ({
           id: pc.id,
           type: pc.component.type,
-          props: pc.props,
+          props: resolveThemeTokens(pc.props, pc.component, theme),
           styles: pc.styles,
           order: pc.order
         }))
@@ -1123,7 +1158,31 @@ import TextBlock from './src/components/TextBlock';
 import Image from './src/components/Image';
 import Button from './src/components/Button';
 
+const CLIENT_KEY = '${config.clientKey}';
+const PREVIEW_KEY = '${config.previewKey}';
 const LIVE_CONFIG_URL = 'http://localhost:63517/api/live-config/${config.shop}';
+const CONFIG_EVENTS_URL = 'http://localhost:63517/api/config-events/${config.shop}?key=' + encodeURIComponent(CLIENT_KEY);
+
+// Downloads the uploaded fonts listed in the config's font manifest and
+// registers each file once under its family name. FontFace only exists in
+// browsers; elsewhere the app keeps its system fonts.
+const registeredFonts = new Set();
+const registerFonts = (fonts) => {
+  if (typeof FontFace === 'undefined' || typeof document === 'undefined' || !fonts) return;
+  fonts.forEach(font => font.variants.forEach(variant => {
+    if (registeredFonts.has(variant.id)) return;
+    registeredFonts.add(variant.id);
+    const url = variant.url + '?key=' + encodeURIComponent(CLIENT_KEY);
+    new FontFace(font.family, \`url(\${url})\`, { weight: String(variant.weight), style: variant.style })
+      .load()
+      .then(face => document.fonts.add(face))
+      .catch(err => {
+        // Try again with the next config
+        registeredFonts.delete(variant.id);
+        console.error(\`Failed to load font \${font.family} \${variant.weight}:\`, err);
+      });
+  }));
+};
 
 const App = () => {
   const [config, setConfig] = useState(null);
@@ -1132,11 +1191,15 @@ const App = () => {
 
   const fetchConfig = async () => {
     try {
-      const response = await fetch(LIVE_CONFIG_URL);
+      // Preview builds show the saved drafts, so every save is seen
+      const response = await fetch(LIVE_CONFIG_URL + '?draft=1', {
+        headers: { 'X-Client-Key': CLIENT_KEY, 'X-Preview-Key': PREVIEW_KEY }
+      });
       if (!response.ok) {
         throw new Error(\`HTTP \${response.status}\`);
       }
       const data = await response.json();
+      registerFonts(data.fonts);
       setConfig(data);
       setError(null);
     } catch (err) {
@@ -1150,10 +1213,19 @@ const App = () => {
   useEffect(() => {
     fetchConfig();
     
-    // Poll for updates every 2 seconds
-    const interval = setInterval(fetchConfig, 2000);
+    // The builder announces saves and publishes as they happen. Where
+    // EventSource is missing, or the stream drops, polling picks changes up.
+    let events = null;
+    if (typeof EventSource !== 'undefined') {
+      events = new EventSource(CONFIG_EVENTS_URL);
+      events.addEventListener('config-changed', fetchConfig);
+    }
+    const interval = setInterval(fetchConfig, events ? 30000 : 2000);
     
-    return () => clearInterval(interval);
+    return () => {
+      clearInterval(interval);
+      if (events) events.close();
+    };
   }, []);
 
   const renderComponent = (component, index) => {
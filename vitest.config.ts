@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Unit tests sit next to the modules they cover. The Remix plugin of
+// vite.config.ts is left out: tests only import plain modules.
+export default defineConfig({
+  test: {
+    include: ["app/**/*.test.ts"]
+  }
+});